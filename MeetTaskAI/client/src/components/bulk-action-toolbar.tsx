@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Trash2, UserPlus, X } from "lucide-react";
+import {
+  taskPriorities,
+  taskStatuses,
+  taskStatusLabels,
+  integrationProviderLabels,
+  type BulkTaskOperation,
+  type IntegrationProvider,
+  type TaskPriority,
+  type TaskStatus,
+} from "@shared/schema";
+
+interface BulkActionToolbarProps {
+  selectedIds: number[];
+  totalVisible: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onApply: (operation: BulkTaskOperation) => Promise<unknown>;
+  isApplying: boolean;
+  // Trackers the selection can be pushed to; none hides the control
+  pushProviders?: IntegrationProvider[];
+  onPush?: (provider: IntegrationProvider) => Promise<unknown>;
+}
+
+export default function BulkActionToolbar({
+  selectedIds,
+  totalVisible,
+  onSelectAll,
+  onClearSelection,
+  onApply,
+  isApplying,
+  pushProviders = [],
+  onPush
+}: BulkActionToolbarProps) {
+  const [assignee, setAssignee] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const count = selectedIds.length;
+
+  // The selection is kept when a change fails so it can be retried
+  const apply = async (operation: BulkTaskOperation) => {
+    try {
+      await onApply(operation);
+      onClearSelection();
+      setAssignee('');
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  const push = async (provider: IntegrationProvider) => {
+    try {
+      await onPush?.(provider);
+      onClearSelection();
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 mb-4 rounded-lg border border-blue-200 bg-blue-50 px-4 py-2">
+      <span className="text-sm font-medium text-blue-900">{count} selected</span>
+      {count < totalVisible && (
+        <Button variant="link" size="sm" className="px-1" onClick={onSelectAll}>
+          Select all {totalVisible}
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onClearSelection} aria-label="Clear selection">
+        <X className="w-4 h-4" />
+      </Button>
+
+      <div className="flex-1" />
+
+      <div className="flex items-center gap-1">
+        <Input
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          placeholder="Reassign to"
+          className="w-36 h-9 bg-white"
+          aria-label="New assignee"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isApplying || !assignee.trim()}
+          onClick={() => apply({ action: 'update', ids: selectedIds, changes: { assignee: assignee.trim() } })}
+        >
+          <UserPlus className="w-4 h-4 mr-1" />
+          Assign
+        </Button>
+      </div>
+      <Select
+        value=""
+        disabled={isApplying}
+        onValueChange={(priority) => apply({ action: 'update', ids: selectedIds, changes: { priority: priority as TaskPriority } })}
+      >
+        <SelectTrigger className="w-32 h-9 bg-white" aria-label="Set priority">
+          <SelectValue placeholder="Priority" />
+        </SelectTrigger>
+        <SelectContent>
+          {taskPriorities.map((priority) => (
+            <SelectItem key={priority} value={priority}>Set {priority}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value=""
+        disabled={isApplying}
+        onValueChange={(status) => apply({ action: 'status', ids: selectedIds, status: status as TaskStatus })}
+      >
+        <SelectTrigger className="w-36 h-9 bg-white" aria-label="Set status">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          {taskStatuses.map((status) => (
+            <SelectItem key={status} value={status}>Mark {taskStatusLabels[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {onPush && pushProviders.length > 0 && (
+        <Select value="" disabled={isApplying} onValueChange={(provider) => push(provider as IntegrationProvider)}>
+          <SelectTrigger className="w-40 h-9 bg-white" aria-label="Push to tracker">
+            <SelectValue placeholder="Push to tracker" />
+          </SelectTrigger>
+          <SelectContent>
+            {pushProviders.map((provider) => (
+              <SelectItem key={provider} value={provider}>Push to {integrationProviderLabels[provider]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-red-600 hover:text-red-800"
+        disabled={isApplying}
+        onClick={() => setIsConfirmingDelete(true)}
+      >
+        <Trash2 className="w-4 h-4 mr-1" />
+        Delete
+      </Button>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} tasks?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks will be permanently removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => apply({ action: 'delete', ids: selectedIds })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCalendarFeeds } from "@/hooks/use-calendar-feeds";
+import { Copy, Trash2 } from "lucide-react";
+
+interface CalendarFeedsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CalendarFeedsDialog({ open, onOpenChange }: CalendarFeedsDialogProps) {
+  const { feeds, isLoading, createFeed, isCreating, deleteFeed } = useCalendarFeeds();
+  const [assignee, setAssignee] = useState('');
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    try {
+      await createFeed(assignee.trim() || null);
+      setAssignee('');
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Feed address copied", description: "Add it to your calendar app as a subscription." });
+    } catch {
+      toast({ title: "Could not copy", description: "Select the address and copy it by hand.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Calendar Subscriptions</DialogTitle>
+          <DialogDescription>
+            Subscribe to tasks with due dates from Google Calendar, Outlook or Apple Calendar. Anyone with a feed's
+            address can read it, so revoke a feed you have shared by mistake.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end space-x-2">
+          <div className="grid gap-2 flex-1">
+            <Label htmlFor="feed-assignee">Only tasks assigned to</Label>
+            <Input
+              id="feed-assignee"
+              value={assignee}
+              maxLength={100}
+              placeholder="Everyone"
+              onChange={(e) => setAssignee(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating}>Create feed</Button>
+        </div>
+
+        <div className="space-y-2 py-2">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading feeds...</p>
+          ) : feeds.length === 0 ? (
+            <p className="text-sm text-gray-500">No feeds yet.</p>
+          ) : (
+            feeds.map((feed) => (
+              <div key={feed.id} className="border border-gray-200 rounded-lg px-3 py-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{feed.assignee ?? 'Everyone'}</span>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => copyUrl(feed.url)} aria-label="Copy feed address">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800"
+                      onClick={() => deleteFeed(feed.id)}
+                      aria-label="Revoke feed"
+                      title="Revoke feed"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Input readOnly value={feed.url} className="mt-1 h-8 text-xs text-gray-600" onFocus={(e) => e.target.select()} />
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
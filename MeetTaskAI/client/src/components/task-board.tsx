@@ -0,0 +1,156 @@
+import { useState, type ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  taskPriorities,
+  taskStatuses,
+  taskStatusLabels,
+  canTransitionStatus,
+  UNKNOWN_FIELD_VALUE,
+  type Task,
+  type TaskStatus,
+} from "@shared/schema";
+import { useAllTasks, type TaskFilters } from "@/hooks/use-tasks";
+
+export const boardGroupings = ['status', 'priority', 'assignee'] as const;
+export type BoardGrouping = typeof boardGroupings[number];
+
+export const boardGroupingLabels: Record<BoardGrouping, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+};
+
+interface BoardColumn {
+  key: string;
+  title: string;
+  tasks: Task[];
+}
+
+function boardColumns(tasks: Task[], groupBy: BoardGrouping): BoardColumn[] {
+  switch (groupBy) {
+    case 'status':
+      return taskStatuses.map((status) => ({
+        key: status,
+        title: taskStatusLabels[status],
+        tasks: tasks.filter((task) => task.status === status),
+      }));
+    case 'priority':
+      return taskPriorities.map((priority) => ({
+        key: priority,
+        title: priority,
+        tasks: tasks.filter((task) => task.priority === priority),
+      }));
+    case 'assignee': {
+      // Only people who already have a task get a column, with unassigned work last
+      const assignees = Array.from(new Set(tasks.map((task) => task.assignee))).sort((a, b) =>
+        a === UNKNOWN_FIELD_VALUE ? 1 : b === UNKNOWN_FIELD_VALUE ? -1 : a.localeCompare(b)
+      );
+      return assignees.map((assignee) => ({
+        key: assignee,
+        title: assignee,
+        tasks: tasks.filter((task) => task.assignee === assignee),
+      }));
+    }
+  }
+}
+
+// Whether dropping the task on a column is a real, allowed change
+function canMoveTask(task: Task, groupBy: BoardGrouping, key: string): boolean {
+  if (task[groupBy] === key) {
+    return false;
+  }
+  if (groupBy === 'status') {
+    return canTransitionStatus(task.status as TaskStatus, key as TaskStatus);
+  }
+  // A task cannot be handed back to nobody
+  return !(groupBy === 'assignee' && key === UNKNOWN_FIELD_VALUE);
+}
+
+interface TaskBoardProps {
+  // Columns are only right with every task in them, so the board loads all that match
+  filters: TaskFilters;
+  groupBy: BoardGrouping;
+  renderTask: (task: Task) => ReactNode;
+  onMoveTask: (taskId: number, updates: Partial<Task>) => void;
+  readOnly?: boolean;
+}
+
+export default function TaskBoard({ filters, groupBy, renderTask, onMoveTask, readOnly = false }: TaskBoardProps) {
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [targetKey, setTargetKey] = useState<string | null>(null);
+  const { tasks, isLoading } = useAllTasks(filters);
+  const columns = boardColumns(tasks, groupBy);
+
+  const endDrag = () => {
+    setDraggedTask(null);
+    setTargetKey(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, key: string) => {
+    e.preventDefault();
+    if (draggedTask && canMoveTask(draggedTask, groupBy, key)) {
+      onMoveTask(draggedTask.id, { [groupBy]: key, version: draggedTask.version });
+    }
+    endDrag();
+  };
+
+  if (isLoading) {
+    return <p className="text-center text-gray-500 py-12">Loading the board...</p>;
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {columns.map((column) => {
+        const canDrop = draggedTask !== null && canMoveTask(draggedTask, groupBy, column.key);
+        return (
+          <div
+            key={column.key}
+            className={`w-72 shrink-0 rounded-lg border-2 p-3 transition-colors ${
+              canDrop && targetKey === column.key
+                ? 'border-blue-400 bg-blue-50'
+                : draggedTask && !canDrop
+                  ? 'border-transparent bg-gray-100 opacity-60'
+                  : 'border-transparent bg-gray-100'
+            }`}
+            onDragOver={(e) => {
+              // Only columns that accept the task let it be dropped
+              if (canDrop) {
+                e.preventDefault();
+                setTargetKey(column.key);
+              }
+            }}
+            onDragLeave={() => setTargetKey((current) => (current === column.key ? null : current))}
+            onDrop={(e) => handleDrop(e, column.key)}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-gray-700 truncate">{column.title}</h3>
+              <Badge variant="secondary">{column.tasks.length}</Badge>
+            </div>
+            <div className="space-y-3 min-h-[4rem]">
+              {column.tasks.map((task) => (
+                <div
+                  key={task.id}
+                  draggable={!readOnly}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', String(task.id));
+                    setDraggedTask(task);
+                  }}
+                  onDragEnd={endDrag}
+                  className={draggedTask?.id === task.id ? 'opacity-50' : ''}
+                >
+                  {renderTask(task)}
+                </div>
+              ))}
+              {column.tasks.length === 0 && (
+                <p className="text-center text-xs text-gray-400 py-4">
+                  {readOnly ? 'No tasks' : 'Drop tasks here'}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
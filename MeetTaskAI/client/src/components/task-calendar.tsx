@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight, CalendarX } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  setHours,
+  setMinutes,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { NO_DEADLINE, type Task } from "@shared/schema";
+import { useAllTasks, type TaskFilters } from "@/hooks/use-tasks";
+
+export type CalendarRange = 'month' | 'week';
+
+// Where a dragged task can land: a day, or the tray of undated tasks
+type DropTarget = Date | 'undated';
+
+const getPriorityDot = (priority: string) => {
+  switch (priority) {
+    case 'P1':
+      return 'bg-red-500';
+    case 'P2':
+      return 'bg-yellow-500';
+    case 'P3':
+    default:
+      return 'bg-green-500';
+  }
+};
+
+function isOverdue(task: Task): boolean {
+  return task.dueAt !== null && task.status !== 'done' && new Date(task.dueAt).getTime() < Date.now();
+}
+
+// Moving a task to a day keeps its time of day, or makes it due by the end of that day
+function rescheduleUpdates(task: Task, day: Date): Partial<Task> {
+  const current = task.dueAt ? new Date(task.dueAt) : null;
+  const dueAt = current
+    ? setMinutes(setHours(day, current.getHours()), current.getMinutes())
+    : setMinutes(setHours(day, 23), 59);
+  return { dueAt, deadlineText: `by ${format(dueAt, 'EEE, MMM d')}` };
+}
+
+function visibleDays(anchor: Date, range: CalendarRange): Date[] {
+  if (range === 'week') {
+    const start = startOfWeek(anchor);
+    return eachDayOfInterval({ start, end: addDays(start, 6) });
+  }
+  return eachDayOfInterval({ start: startOfWeek(startOfMonth(anchor)), end: endOfWeek(endOfMonth(anchor)) });
+}
+
+function TaskChip({
+  task,
+  draggable,
+  onDragStart,
+  onDragEnd,
+}: {
+  task: Task;
+  draggable: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const overdue = isOverdue(task);
+  const isDone = task.status === 'done';
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(task.id));
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      title={`${task.description} (${task.assignee}, ${task.deadlineText})`}
+      className={`flex items-center rounded px-1.5 py-0.5 text-xs border ${
+        overdue ? 'border-red-300 bg-red-50 text-red-800' : 'border-gray-200 bg-white text-gray-800'
+      } ${draggable ? 'cursor-grab' : ''}`}
+    >
+      <span className={`w-2 h-2 rounded-full shrink-0 mr-1.5 ${getPriorityDot(task.priority)}`} />
+      <span className={`truncate ${isDone ? 'line-through text-gray-400' : ''}`}>{task.description}</span>
+    </div>
+  );
+}
+
+// The days shown, narrowed further by any due range the list is filtered to
+function dueRange(days: Date[], filters: TaskFilters): { dueFrom: string; dueTo: string } {
+  const first = format(days[0], 'yyyy-MM-dd');
+  const last = format(days[days.length - 1], 'yyyy-MM-dd');
+  return {
+    dueFrom: filters.dueFrom && filters.dueFrom > first ? filters.dueFrom : first,
+    dueTo: filters.dueTo && filters.dueTo < last ? filters.dueTo : last,
+  };
+}
+
+interface TaskCalendarProps {
+  // The list's filters; the calendar asks the server for every task due in the days it shows,
+  // and for every undated task to fill the tray
+  filters: TaskFilters;
+  onMoveTask: (taskId: number, updates: Partial<Task>) => void;
+  readOnly?: boolean;
+}
+
+export default function TaskCalendar({ filters, onMoveTask, readOnly = false }: TaskCalendarProps) {
+  const [range, setRange] = useState<CalendarRange>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [target, setTarget] = useState<DropTarget | null>(null);
+
+  const days = visibleDays(anchor, range);
+  const { dueFrom, dueTo } = dueRange(days, filters);
+  const { tasks: datedTasks, isLoading } = useAllTasks({ ...filters, dueFrom, dueTo, sort: 'dueAt', order: 'asc' }, dueFrom <= dueTo);
+  const { tasks: undatedTasks } = useAllTasks({ ...filters, hasDueDate: false });
+  const tasksOn = (day: Date) => datedTasks.filter((task) => task.dueAt && isSameDay(new Date(task.dueAt), day));
+
+  const step = (direction: 1 | -1) => {
+    setAnchor((current) => (range === 'week' ? addWeeks(current, direction) : addMonths(current, direction)));
+  };
+
+  const endDrag = () => {
+    setDraggedTask(null);
+    setTarget(null);
+  };
+
+  const isTarget = (dropTarget: DropTarget) => {
+    if (target === null || target === 'undated' || dropTarget === 'undated') {
+      return target === dropTarget;
+    }
+    return isSameDay(target, dropTarget);
+  };
+
+  const dropHandlers = (dropTarget: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (draggedTask) {
+        e.preventDefault();
+        setTarget(dropTarget);
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (draggedTask) {
+        if (dropTarget === 'undated') {
+          if (draggedTask.dueAt) {
+            onMoveTask(draggedTask.id, { dueAt: null, deadlineText: NO_DEADLINE, version: draggedTask.version });
+          }
+        } else if (!draggedTask.dueAt || !isSameDay(new Date(draggedTask.dueAt), dropTarget)) {
+          // The task may not be in the loaded list, so the version it was dragged at goes along
+          onMoveTask(draggedTask.id, { ...rescheduleUpdates(draggedTask, dropTarget), version: draggedTask.version });
+        }
+      }
+      endDrag();
+    },
+  });
+
+  const chip = (task: Task) => (
+    <TaskChip
+      key={task.id}
+      task={task}
+      draggable={!readOnly}
+      onDragStart={() => setDraggedTask(task)}
+      onDragEnd={endDrag}
+    />
+  );
+
+  return (
+    <div className="flex gap-4">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-1">
+            <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label={`Previous ${range}`}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(startOfDay(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => step(1)} aria-label={`Next ${range}`}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h3 className="text-sm font-semibold text-gray-900 pl-2">
+              {range === 'week'
+                ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+                : format(anchor, 'MMMM yyyy')}
+            </h3>
+            {isLoading && <span className="text-xs text-gray-400 pl-2">Loading...</span>}
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['month', 'week'] as const).map((option) => (
+              <Button
+                key={option}
+                variant="ghost"
+                size="sm"
+                onClick={() => setRange(option)}
+                className={range === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}
+              >
+                {option === 'month' ? 'Month' : 'Week'}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+          {days.slice(0, 7).map((day) => (
+            <div key={format(day, 'EEE')} className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+          {days.map((day) => {
+            const dayTasks = tasksOn(day);
+            return (
+              <div
+                key={day.toISOString()}
+                {...dropHandlers(day)}
+                className={`p-1.5 space-y-1 ${range === 'week' ? 'min-h-[16rem]' : 'min-h-[6rem]'} ${
+                  isTarget(day) ? 'bg-blue-50' : range === 'month' && !isSameMonth(day, anchor) ? 'bg-gray-50' : 'bg-white'
+                }`}
+              >
+                <div
+                  className={`text-xs ${
+                    isToday(day)
+                      ? 'inline-flex w-5 h-5 items-center justify-center rounded-full bg-blue-600 text-white'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  {format(day, 'd')}
+                </div>
+                {dayTasks.map(chip)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div
+        {...dropHandlers('undated')}
+        className={`w-56 shrink-0 rounded-lg border-2 p-3 ${
+          isTarget('undated') ? 'border-blue-400 bg-blue-50' : 'border-transparent bg-gray-100'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="flex items-center text-sm font-semibold text-gray-700">
+            <CalendarX className="w-4 h-4 mr-1" />
+            No deadline
+          </h3>
+          <Badge variant="secondary">{undatedTasks.length}</Badge>
+        </div>
+        <div className="space-y-1">
+          {undatedTasks.map(chip)}
+          {undatedTasks.length === 0 && (
+            <p className="text-center text-xs text-gray-400 py-4">
+              {readOnly ? 'Every task has a deadline' : 'Drop a task here to clear its deadline'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,15 +6,46 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { User, Clock, Edit, Trash2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { User, Clock, Edit, Trash2, ChevronDown, AlertTriangle, ExternalLink, GitCompare } from "lucide-react";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import type { Task } from "@shared/schema";
+import { formatTimestamp } from "@/lib/utils";
+import {
+  taskStatusLabels,
+  taskStatusTransitions,
+  canTransitionStatus,
+  taskConfidenceFields,
+  needsReview,
+  DEFAULT_REVIEW_THRESHOLD,
+  integrationProviderLabels,
+  syncedTaskFieldLabels,
+  type IntegrationProvider,
+  type SyncConflict,
+  type Task,
+  type TaskStatus,
+} from "@shared/schema";
 
 interface TaskCardProps {
   task: Task;
   viewMode: 'grid' | 'list';
-  onTaskUpdate?: (taskId: number, updates: Partial<Task>) => void;
-  onTaskDelete?: (taskId: number) => void;
+  // onSuccess runs once the server has accepted the change
+  onTaskUpdate?: (taskId: number, updates: Partial<Task>, onSuccess?: () => void) => void;
+  onTaskDelete?: (taskId: number, onSuccess?: () => void) => void;
+  reviewThreshold?: number;
+  // Viewers of a shared workspace see tasks without the controls to change them
+  readOnly?: boolean;
+  // Selection for bulk actions; the checkbox only shows when onSelectedChange is given
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  // Settles a conflict with the linked issue; without it the conflict is only shown
+  onResolveConflict?: (keep: 'local' | 'remote') => void;
 }
 
 const getPriorityColor = (priority: string) => {
@@ -29,43 +60,272 @@ const getPriorityColor = (priority: string) => {
   }
 };
 
-export default function TaskCard({ task, viewMode, onTaskUpdate, onTaskDelete }: TaskCardProps) {
-  const [isEditOpen, setIsEditOpen] = useState(false);
-  const [editForm, setEditForm] = useState({
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'in_progress':
+      return 'bg-blue-100 text-blue-800';
+    case 'blocked':
+      return 'bg-orange-100 text-orange-800';
+    case 'done':
+      return 'bg-green-100 text-green-800';
+    case 'open':
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+function DeadlineLabel({ task }: { task: Task }) {
+  const dueAt = task.dueAt ? new Date(task.dueAt) : null;
+  const isOverdue = dueAt !== null && task.status !== 'done' && dueAt.getTime() < Date.now();
+
+  return (
+    <span className={`flex items-center ${isOverdue ? 'text-red-600 font-medium' : ''}`}>
+      <span title={dueAt ? format(dueAt, 'PPpp') : undefined}>{task.deadlineText}</span>
+      {dueAt && (
+        <span className={`ml-1 ${isOverdue ? '' : 'text-gray-400'}`}>({format(dueAt, 'MMM d, p')})</span>
+      )}
+      {task.deadlineAmbiguous && (
+        <span title="This deadline could be read more than one way. Please review it.">
+          <AlertTriangle className="w-4 h-4 ml-1 text-amber-500" />
+        </span>
+      )}
+    </span>
+  );
+}
+
+// The issue the task was pushed to, if any
+function IssueLink({ task }: { task: Task }) {
+  if (!task.externalKey || !task.externalUrl) {
+    return null;
+  }
+
+  const provider = integrationProviderLabels[task.externalProvider as IntegrationProvider] ?? task.externalProvider;
+  return (
+    <a
+      href={task.externalUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center text-blue-600 hover:text-blue-800"
+      title={`Open in ${provider}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <ExternalLink className="w-4 h-4 mr-1" />
+      {task.externalKey}
+    </a>
+  );
+}
+
+function describeSyncedValue(conflict: SyncConflict, value: string | null): string {
+  if (value === null) {
+    return conflict.field === 'assignee' ? 'unassigned' : 'none';
+  }
+  return conflict.field === 'status' ? taskStatusLabels[value as TaskStatus] ?? value : value;
+}
+
+// Shown when this task and its issue both changed the same field since the last sync
+function SyncConflictBadge({ task, onResolve }: { task: Task; onResolve?: (keep: 'local' | 'remote') => void }) {
+  const conflicts = task.externalSync?.conflicts ?? [];
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const details = conflicts
+    .map((conflict) => `${syncedTaskFieldLabels[conflict.field]}: ${describeSyncedValue(conflict, conflict.local)} here, ${describeSyncedValue(conflict, conflict.remote)} in ${task.externalKey}`)
+    .join('. ');
+  const badge = (
+    <button
+      type="button"
+      disabled={!onResolve}
+      title={`Changed on both sides. ${details}.`}
+      className="inline-flex items-center rounded-full bg-purple-100 px-2.5 py-0.5 text-xs font-semibold text-purple-800 whitespace-nowrap hover:bg-purple-200"
+    >
+      <GitCompare className="w-3 h-3 mr-1" />
+      Sync conflict
+    </button>
+  );
+  if (!onResolve) {
+    return badge;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{badge}</DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-w-xs">
+        <p className="px-2 py-1.5 text-xs text-gray-600">{details}.</p>
+        <DropdownMenuItem onClick={() => onResolve('local')}>Keep this task's values</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onResolve('remote')}>Take the values from {task.externalKey}</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function SourceSnippet({ quote, timestamp }: { quote: string | null; timestamp: number | null }) {
+  if (!quote) {
+    return null;
+  }
+
+  return (
+    <blockquote className="border-l-2 border-gray-300 pl-2 text-xs text-gray-500">
+      <span className="font-medium text-gray-600">
+        From the meeting{timestamp !== null ? ` at ${formatTimestamp(timestamp)}` : ''}:
+      </span>{' '}
+      <span className="italic">&ldquo;{quote}&rdquo;</span>
+    </blockquote>
+  );
+}
+
+function ReviewBadge({ task, onReviewed }: { task: Task; onReviewed?: () => void }) {
+  if (!task.confidence) {
+    return null;
+  }
+  const confidence = task.confidence;
+  const scores = taskConfidenceFields
+    .map((field) => `${field} ${Math.round(confidence[field] * 100)}%`)
+    .join(', ');
+
+  return (
+    <button
+      type="button"
+      onClick={onReviewed}
+      disabled={!onReviewed}
+      title={`Extraction confidence: ${scores}.${onReviewed ? ' Click to mark as reviewed.' : ''}`}
+      className="inline-flex items-center rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-semibold text-amber-800 whitespace-nowrap hover:bg-amber-200"
+    >
+      <AlertTriangle className="w-3 h-3 mr-1" />
+      Needs review
+    </button>
+  );
+}
+
+function StatusMenu({ status, onChange, readOnly }: { status: TaskStatus; onChange: (status: TaskStatus) => void; readOnly?: boolean }) {
+  if (readOnly) {
+    return <Badge className={`${getStatusColor(status)} whitespace-nowrap`}>{taskStatusLabels[status]}</Badge>;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={`${getStatusColor(status)} inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold whitespace-nowrap`}
+        >
+          {taskStatusLabels[status]}
+          <ChevronDown className="w-3 h-3 ml-1" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {taskStatusTransitions[status].map((nextStatus) => (
+          <DropdownMenuItem key={nextStatus} onClick={() => onChange(nextStatus)}>
+            {taskStatusLabels[nextStatus]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// The fields the edit dialog changes
+function editFormFor(task: Task) {
+  return {
     description: task.description,
     assignee: task.assignee,
-    deadline: task.deadline,
+    deadlineText: task.deadlineText,
     priority: task.priority
-  });
+  };
+}
+
+export default function TaskCard({
+  task,
+  viewMode,
+  onTaskUpdate,
+  onTaskDelete,
+  reviewThreshold = DEFAULT_REVIEW_THRESHOLD,
+  readOnly = false,
+  selected = false,
+  onSelectedChange,
+  onResolveConflict
+}: TaskCardProps) {
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [editForm, setEditForm] = useState(() => editFormFor(task));
+  // The task as it was when the dialog opened; the save is checked against its version
+  const [editedTask, setEditedTask] = useState(task);
   const { toast } = useToast();
 
+  // The task may have changed since the dialog was last open, so each opening starts from it
+  const handleEditOpenChange = (open: boolean) => {
+    if (open) {
+      setEditForm(editFormFor(task));
+      setEditedTask(task);
+    }
+    setIsEditOpen(open);
+  };
+
   const handleSave = () => {
     if (onTaskUpdate) {
-      onTaskUpdate(task.id, editForm);
+      // Only what was edited is sent, so an unchanged deadline keeps its current date
+      const changes = (Object.keys(editForm) as (keyof typeof editForm)[])
+        .filter((field) => editForm[field] !== editedTask[field])
+        .reduce<Partial<Task>>((updates, field) => ({ ...updates, [field]: editForm[field] }), {});
+      if (Object.keys(changes).length > 0) {
+        onTaskUpdate(task.id, { ...changes, version: editedTask.version }, () => toast({
+          title: "Task updated",
+          description: "Task has been updated successfully.",
+        }));
+      }
       setIsEditOpen(false);
-      toast({
-        title: "Task updated",
-        description: "Task has been updated successfully.",
-      });
     }
   };
 
+  const status = task.status as TaskStatus;
+  const isDone = status === 'done';
+
+  const handleStatusChange = (nextStatus: TaskStatus) => {
+    onTaskUpdate?.(task.id, { status: nextStatus });
+  };
+
+  const lowConfidence = needsReview(task, reviewThreshold);
+
+  // Confirming a task as-is makes every field certain, which takes it out of the review queue
+  const handleReviewed = () => {
+    onTaskUpdate?.(task.id, { confidence: { description: 1, assignee: 1, deadline: 1, priority: 1 } });
+  };
+
   const handleDelete = () => {
     if (onTaskDelete) {
-      onTaskDelete(task.id);
-      toast({
+      onTaskDelete(task.id, () => toast({
         title: "Task deleted",
         description: "Task has been removed successfully.",
-      });
+      }));
     }
   };
+  const selectionBox = onSelectedChange && (
+    <Checkbox
+      checked={selected}
+      onCheckedChange={(checked) => onSelectedChange(checked === true)}
+      className="mr-3 border-blue-400 data-[state=checked]:bg-blue-600"
+      aria-label="Select task"
+    />
+  );
+  const selectedStyle = selected ? 'ring-2 ring-blue-400' : '';
+
   if (viewMode === 'list') {
     return (
-      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 hover:shadow-md transition-all">
+      <div className={`bg-gray-50 border border-gray-200 rounded-lg p-4 hover:shadow-md transition-all ${selectedStyle}`}>
         <div className="flex items-center justify-between">
+          {selectionBox}
+          <Checkbox
+            checked={isDone}
+            disabled={readOnly || !canTransitionStatus(status, isDone ? 'open' : 'done')}
+            onCheckedChange={(checked) => handleStatusChange(checked ? 'done' : 'open')}
+            className="mr-4"
+            aria-label="Mark task as done"
+          />
           <div className="flex-1 min-w-0">
             <div className="flex items-center space-x-3">
-              <h3 className="font-medium text-gray-900 truncate flex-1">{task.description}</h3>
+              <h3 className={`font-medium truncate flex-1 ${isDone ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{task.description}</h3>
+              {lowConfidence && <ReviewBadge task={task} onReviewed={readOnly ? undefined : handleReviewed} />}
+              <SyncConflictBadge task={task} onResolve={readOnly ? undefined : onResolveConflict} />
+              <StatusMenu status={status} onChange={handleStatusChange} readOnly={readOnly} />
               <Badge className={`${getPriorityColor(task.priority)} whitespace-nowrap`}>
                 {task.priority}
               </Badge>
@@ -77,82 +337,96 @@ export default function TaskCard({ task, viewMode, onTaskUpdate, onTaskDelete }:
               </div>
               <div className="flex items-center">
                 <Clock className="w-4 h-4 mr-1" />
-                <span>{task.deadline}</span>
+                <DeadlineLabel task={task} />
               </div>
+              <IssueLink task={task} />
+            </div>
+            <div className="mt-2">
+              <SourceSnippet quote={task.sourceQuote} timestamp={task.sourceTimestamp} />
             </div>
           </div>
-          <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800 ml-4">
-                <Edit className="w-4 h-4 mr-1" />
-                Edit
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Edit Task</DialogTitle>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid gap-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Input
-                    id="description"
-                    value={editForm.description}
-                    onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="assignee">Assignee</Label>
-                  <Input
-                    id="assignee"
-                    value={editForm.assignee}
-                    onChange={(e) => setEditForm({ ...editForm, assignee: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="deadline">Deadline</Label>
-                  <Input
-                    id="deadline"
-                    value={editForm.deadline}
-                    onChange={(e) => setEditForm({ ...editForm, deadline: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="priority">Priority</Label>
-                  <Select value={editForm.priority} onValueChange={(value) => setEditForm({ ...editForm, priority: value })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="P1">P1 - High</SelectItem>
-                      <SelectItem value="P2">P2 - Medium</SelectItem>
-                      <SelectItem value="P3">P3 - Low</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <div className="flex justify-between">
-                <Button variant="outline" onClick={handleDelete} className="text-red-600 hover:text-red-800">
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Delete
+          {!readOnly && (
+            <Dialog open={isEditOpen} onOpenChange={handleEditOpenChange}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800 ml-4">
+                  <Edit className="w-4 h-4 mr-1" />
+                  Edit
                 </Button>
-                <div className="space-x-2">
-                  <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
-                  <Button onClick={handleSave}>Save</Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Edit Task</DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      value={editForm.description}
+                      onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="assignee">Assignee</Label>
+                    <Input
+                      id="assignee"
+                      value={editForm.assignee}
+                      onChange={(e) => setEditForm({ ...editForm, assignee: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="deadline">Deadline</Label>
+                    <Input
+                      id="deadline"
+                      value={editForm.deadlineText}
+                      onChange={(e) => setEditForm({ ...editForm, deadlineText: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="priority">Priority</Label>
+                    <Select value={editForm.priority} onValueChange={(value) => setEditForm({ ...editForm, priority: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="P1">P1 - High</SelectItem>
+                        <SelectItem value="P2">P2 - Medium</SelectItem>
+                        <SelectItem value="P3">P3 - Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={handleDelete} className="text-red-600 hover:text-red-800">
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </Button>
+                  <div className="space-x-2">
+                    <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+                    <Button onClick={handleSave}>Save</Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
     );
   }
 
   return (
-    <Card className="bg-gray-50 border-gray-200 hover:shadow-md transition-all cursor-pointer">
+    <Card className={`bg-gray-50 border-gray-200 hover:shadow-md transition-all cursor-pointer ${selectedStyle}`}>
       <CardContent className="p-4">
         <div className="flex items-start justify-between mb-3">
-          <h3 className="font-medium text-gray-900 line-clamp-2 flex-1">{task.description}</h3>
+          {selectionBox}
+          <Checkbox
+            checked={isDone}
+            disabled={readOnly || !canTransitionStatus(status, isDone ? 'open' : 'done')}
+            onCheckedChange={(checked) => handleStatusChange(checked ? 'done' : 'open')}
+            className="mt-0.5 mr-3"
+            aria-label="Mark task as done"
+          />
+          <h3 className={`font-medium line-clamp-2 flex-1 ${isDone ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{task.description}</h3>
           <Badge className={`${getPriorityColor(task.priority)} whitespace-nowrap ml-2`}>
             {task.priority}
           </Badge>
@@ -164,72 +438,88 @@ export default function TaskCard({ task, viewMode, onTaskUpdate, onTaskDelete }:
           </div>
           <div className="flex items-center text-sm text-gray-600">
             <Clock className="w-4 h-4 mr-2" />
-            <span>{task.deadline}</span>
+            <DeadlineLabel task={task} />
           </div>
+          {task.externalKey && (
+            <div className="text-sm">
+              <IssueLink task={task} />
+            </div>
+          )}
+          <SourceSnippet quote={task.sourceQuote} timestamp={task.sourceTimestamp} />
+          {lowConfidence && <ReviewBadge task={task} onReviewed={readOnly ? undefined : handleReviewed} />}
+          <SyncConflictBadge task={task} onResolve={readOnly ? undefined : onResolveConflict} />
+          {task.extractionEngine === 'heuristic' && (
+            <Badge variant="outline" className="text-gray-500" title="Extracted by the rule-based fallback, not the AI">
+              Rule-based
+            </Badge>
+          )}
         </div>
-        <div className="mt-3 pt-3 border-t border-gray-200 flex justify-end">
-          <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800">
-                <Edit className="w-4 h-4 mr-1" />
-                Edit
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Edit Task</DialogTitle>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid gap-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Input
-                    id="description"
-                    value={editForm.description}
-                    onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="assignee">Assignee</Label>
-                  <Input
-                    id="assignee"
-                    value={editForm.assignee}
-                    onChange={(e) => setEditForm({ ...editForm, assignee: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="deadline">Deadline</Label>
-                  <Input
-                    id="deadline"
-                    value={editForm.deadline}
-                    onChange={(e) => setEditForm({ ...editForm, deadline: e.target.value })}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="priority">Priority</Label>
-                  <Select value={editForm.priority} onValueChange={(value) => setEditForm({ ...editForm, priority: value })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="P1">P1 - High</SelectItem>
-                      <SelectItem value="P2">P2 - Medium</SelectItem>
-                      <SelectItem value="P3">P3 - Low</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <div className="flex justify-between">
-                <Button variant="outline" onClick={handleDelete} className="text-red-600 hover:text-red-800">
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Delete
+        <div className="mt-3 pt-3 border-t border-gray-200 flex items-center justify-between">
+          <StatusMenu status={status} onChange={handleStatusChange} readOnly={readOnly} />
+          {!readOnly && (
+            <Dialog open={isEditOpen} onOpenChange={handleEditOpenChange}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800">
+                  <Edit className="w-4 h-4 mr-1" />
+                  Edit
                 </Button>
-                <div className="space-x-2">
-                  <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
-                  <Button onClick={handleSave}>Save</Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Edit Task</DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      value={editForm.description}
+                      onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="assignee">Assignee</Label>
+                    <Input
+                      id="assignee"
+                      value={editForm.assignee}
+                      onChange={(e) => setEditForm({ ...editForm, assignee: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="deadline">Deadline</Label>
+                    <Input
+                      id="deadline"
+                      value={editForm.deadlineText}
+                      onChange={(e) => setEditForm({ ...editForm, deadlineText: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="priority">Priority</Label>
+                    <Select value={editForm.priority} onValueChange={(value) => setEditForm({ ...editForm, priority: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="P1">P1 - High</SelectItem>
+                        <SelectItem value="P2">P2 - Medium</SelectItem>
+                        <SelectItem value="P3">P3 - Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={handleDelete} className="text-red-600 hover:text-red-800">
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </Button>
+                  <div className="space-x-2">
+                    <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+                    <Button onClick={handleSave}>Save</Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { hasActiveFilters, type TaskFilters as Filters } from "@/hooks/use-tasks";
+import {
+  taskPriorities,
+  taskStatuses,
+  taskStatusLabels,
+  type Meeting,
+  type SortOrder,
+  type TaskSortField,
+} from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Select items cannot have an empty value, so "any" stands for no filter
+const ANY = 'any';
+
+const sortOptions: { label: string; sort: TaskSortField; order: SortOrder }[] = [
+  { label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  { label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  { label: 'Due soonest', sort: 'dueAt', order: 'asc' },
+  { label: 'Due latest', sort: 'dueAt', order: 'desc' },
+  { label: 'Highest priority', sort: 'priority', order: 'asc' },
+  { label: 'Recently updated', sort: 'updatedAt', order: 'desc' },
+];
+
+interface TaskFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+export default function TaskFilters({ filters, onChange }: TaskFiltersProps) {
+  const [search, setSearch] = useState(filters.q ?? '');
+  const [assignee, setAssignee] = useState(filters.assignee ?? '');
+  const { data: meetings = [] } = useQuery<Meeting[]>({
+    queryKey: ['/api/meetings'],
+  });
+
+  // Typing only refetches once the user pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const q = search.trim() || undefined;
+      const assigneeFilter = assignee.trim() || undefined;
+      if (q !== filters.q || assigneeFilter !== filters.assignee) {
+        onChange({ ...filters, q, assignee: assigneeFilter });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, assignee, filters]);
+
+  const update = (changes: Filters) => onChange({ ...filters, ...changes });
+  const sortKey = `${filters.sort ?? 'createdAt'}:${filters.order ?? 'desc'}`;
+
+  const clearFilters = () => {
+    setSearch('');
+    setAssignee('');
+    onChange({ sort: filters.sort, order: filters.order });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <div className="relative flex-1 min-w-[12rem]">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search descriptions"
+          className="pl-9 h-9"
+          aria-label="Search tasks"
+        />
+      </div>
+      <Input
+        value={assignee}
+        onChange={(e) => setAssignee(e.target.value)}
+        placeholder="Assignee"
+        className="w-36 h-9"
+        aria-label="Filter by assignee"
+      />
+      <Select
+        value={filters.priority ?? ANY}
+        onValueChange={(value) => update({ priority: value === ANY ? undefined : (value as Filters['priority']) })}
+      >
+        <SelectTrigger className="w-32 h-9" aria-label="Filter by priority">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any priority</SelectItem>
+          {taskPriorities.map((priority) => (
+            <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.status ?? ANY}
+        onValueChange={(value) => update({ status: value === ANY ? undefined : (value as Filters['status']) })}
+      >
+        <SelectTrigger className="w-36 h-9" aria-label="Filter by status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any status</SelectItem>
+          {taskStatuses.map((status) => (
+            <SelectItem key={status} value={status}>{taskStatusLabels[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.meetingId ? String(filters.meetingId) : ANY}
+        onValueChange={(value) => update({ meetingId: value === ANY ? undefined : Number(value) })}
+      >
+        <SelectTrigger className="w-44 h-9" aria-label="Filter by meeting">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any meeting</SelectItem>
+          {meetings.map((meeting) => (
+            <SelectItem key={meeting.id} value={String(meeting.id)}>{meeting.title}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-1 text-sm text-gray-500">
+        <span>Due</span>
+        <Input
+          type="date"
+          value={filters.dueFrom ?? ''}
+          onChange={(e) => update({ dueFrom: e.target.value || undefined })}
+          className="w-36 h-9"
+          aria-label="Due from"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          value={filters.dueTo ?? ''}
+          onChange={(e) => update({ dueTo: e.target.value || undefined })}
+          className="w-36 h-9"
+          aria-label="Due to"
+        />
+      </div>
+      <Select
+        value={sortKey}
+        onValueChange={(value) => {
+          const [sort, order] = value.split(':') as [TaskSortField, SortOrder];
+          update({ sort, order });
+        }}
+      >
+        <SelectTrigger className="w-40 h-9" aria-label="Sort tasks">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.label} value={`${option.sort}:${option.order}`}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={clearFilters}>
+          <X className="w-4 h-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Check, AlertTriangle } from "lucide-react";
+import type { TaskImportRequest } from "@/hooks/use-tasks";
+import {
+  importFields,
+  importFieldLabels,
+  type ImportField,
+  type ImportMapping,
+  type TaskImportReport,
+} from "@shared/schema";
+
+// Select items cannot have an empty value, so this stands for an unmapped field
+const NOT_IMPORTED = 'none';
+
+// Enough rows to spot a pattern without making the dialog unwieldy
+const REPORT_ROW_LIMIT = 100;
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (request: TaskImportRequest) => Promise<TaskImportReport>;
+  isImporting: boolean;
+}
+
+export default function TaskImportDialog({ open, onOpenChange, onImport, isImporting }: TaskImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [report, setReport] = useState<TaskImportReport | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    setReport(null);
+    setSkipInvalid(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  // Every change is checked with a dry run first, so the report always matches the mapping
+  const preview = async (nextFile: File, nextMapping?: ImportMapping) => {
+    try {
+      const nextReport = await onImport({ file: nextFile, mapping: nextMapping, dryRun: true });
+      setReport(nextReport);
+      setMapping(nextReport.mapping);
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected) {
+      setFile(selected);
+      setReport(null);
+      preview(selected);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    const nextMapping = { ...mapping };
+    if (column === NOT_IMPORTED) {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = column;
+    }
+    setMapping(nextMapping);
+    if (file) {
+      preview(file, nextMapping);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      const result = await onImport({ file, mapping, dryRun: false, skipInvalid });
+      if (result.importedCount > 0) {
+        handleOpenChange(false);
+      } else {
+        setReport(result);
+      }
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  const canImport = report !== null && report.validCount > 0 && (report.errorCount === 0 || skipInvalid);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Tasks</DialogTitle>
+          <DialogDescription>
+            Bring in tasks from a CSV or JSON file, such as a spreadsheet or one of our own exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-3">
+          <input ref={fileInputRef} type="file" accept=".csv,.json" className="hidden" onChange={handleFileSelect} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {file ? 'Choose another file' : 'Choose file'}
+          </Button>
+          {file && <span className="text-sm text-gray-600 truncate">{file.name}</span>}
+        </div>
+
+        {report && (
+          <>
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Columns</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {importFields.map((field) => (
+                  <div key={field} className="grid gap-1">
+                    <Label className="text-xs text-gray-500">{importFieldLabels[field]}</Label>
+                    <Select
+                      value={mapping[field] ?? NOT_IMPORTED}
+                      onValueChange={(column) => handleMappingChange(field, column)}
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger className="h-9" aria-label={`Column for ${importFieldLabels[field]}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                        {report.columns.map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center space-x-2 mb-2">
+                <h3 className="text-sm font-medium text-gray-900">Rows</h3>
+                <Badge variant="secondary" className="bg-green-100 text-green-800">{report.validCount} ready</Badge>
+                {report.errorCount > 0 && (
+                  <Badge variant="secondary" className="bg-red-100 text-red-800">{report.errorCount} with errors</Badge>
+                )}
+              </div>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {report.rows.slice(0, REPORT_ROW_LIMIT).map((row) => (
+                  <div key={row.row} className="flex items-start px-3 py-2 text-sm">
+                    <span className="w-14 shrink-0 text-gray-400">Row {row.row}</span>
+                    {row.task ? (
+                      <>
+                        <Check className="w-4 h-4 mr-2 mt-0.5 shrink-0 text-green-600" />
+                        <span className="flex-1 truncate text-gray-900">{row.task.description}</span>
+                        <span className="ml-2 text-gray-500 whitespace-nowrap">{row.task.assignee} · {row.task.priority ?? 'P3'}</span>
+                      </>
+                    ) : (
+                      <>
+                        <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 shrink-0 text-red-600" />
+                        <ul className="flex-1 text-red-700">
+                          {Object.entries(row.errors ?? {}).map(([field, messages]) => (
+                            <li key={field}>
+                              <span className="font-medium">{importFieldLabels[field as ImportField] ?? field}:</span> {messages.join(', ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {report.rows.length > REPORT_ROW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {REPORT_ROW_LIMIT} of {report.rows.length} rows.</p>
+              )}
+              {!report.dryRun && <p className="text-sm text-red-700 mt-2">{report.message}</p>}
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          {report && report.errorCount > 0 ? (
+            <div className="flex items-center space-x-2">
+              <Switch id="skip-invalid" checked={skipInvalid} onCheckedChange={setSkipInvalid} />
+              <Label htmlFor="skip-invalid" className="text-sm text-gray-700">Skip rows with errors</Label>
+            </div>
+          ) : (
+            <span />
+          )}
+          <div className="space-x-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={isImporting || !canImport}>
+              {isImporting ? 'Working...' : `Import ${report?.validCount ?? 0} tasks`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
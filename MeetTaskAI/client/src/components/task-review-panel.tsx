@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Edit, X, User, Clock, AlertTriangle, ClipboardCheck } from "lucide-react";
+import { format } from "date-fns";
+import { needsReview, type InsertTask, type TaskPriority } from "@shared/schema";
+
+type Decision = 'pending' | 'accepted' | 'rejected';
+
+interface ReviewItem {
+  task: InsertTask;
+  decision: Decision;
+  isEditing: boolean;
+}
+
+interface TaskReviewPanelProps {
+  candidates: InsertTask[];
+  meetingTitle?: string;
+  onConfirm: (tasks: InsertTask[]) => Promise<unknown>;
+  onDiscard: () => void;
+  isSaving: boolean;
+}
+
+const decisionStyles: Record<Decision, string> = {
+  pending: 'border-gray-200 bg-white',
+  accepted: 'border-green-300 bg-green-50',
+  rejected: 'border-gray-200 bg-gray-50 opacity-60',
+};
+
+export default function TaskReviewPanel({
+  candidates,
+  meetingTitle,
+  onConfirm,
+  onDiscard,
+  isSaving
+}: TaskReviewPanelProps) {
+  const [items, setItems] = useState<ReviewItem[]>(
+    candidates.map((task) => ({ task, decision: 'pending', isEditing: false }))
+  );
+
+  const updateItem = (index: number, changes: Partial<ReviewItem>) => {
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const editTask = (index: number, changes: Partial<InsertTask>) => {
+    const item = items[index];
+    const task = { ...item.task, ...changes };
+    // A reworded deadline is resolved again by the server when it is saved
+    if (changes.deadlineText !== undefined) {
+      delete task.dueAt;
+      task.deadlineAmbiguous = false;
+    }
+    updateItem(index, { task });
+  };
+
+  const accepted = items.filter((item) => item.decision === 'accepted');
+  const notRejected = items.filter((item) => item.decision !== 'rejected');
+
+  return (
+    <Card className="mb-8 border-blue-200">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <ClipboardCheck className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Review Extracted Tasks</h2>
+            <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+              {items.length} candidates
+            </Badge>
+          </div>
+          {meetingTitle && <span className="text-sm text-gray-500">{meetingTitle}</span>}
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Nothing has been saved yet. Accept, edit or reject each task, then save the ones you want to keep.
+        </p>
+
+        {items.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No tasks were found in this meeting.</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item, index) => (
+              <div key={index} className={`border rounded-lg p-4 ${decisionStyles[item.decision]}`}>
+                {item.isEditing ? (
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <Input
+                      value={item.task.description}
+                      onChange={(e) => editTask(index, { description: e.target.value })}
+                      className="md:col-span-2"
+                      aria-label="Description"
+                    />
+                    <Input
+                      value={item.task.assignee}
+                      onChange={(e) => editTask(index, { assignee: e.target.value })}
+                      aria-label="Assignee"
+                    />
+                    <Input
+                      value={item.task.deadlineText}
+                      onChange={(e) => editTask(index, { deadlineText: e.target.value })}
+                      aria-label="Deadline"
+                    />
+                    <Select value={item.task.priority} onValueChange={(value) => editTask(index, { priority: value as TaskPriority })}>
+                      <SelectTrigger aria-label="Priority">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="P1">P1 - High</SelectItem>
+                        <SelectItem value="P2">P2 - Medium</SelectItem>
+                        <SelectItem value="P3">P3 - Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={() => updateItem(index, { isEditing: false, decision: 'accepted' })}>
+                        Done
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h3 className={`font-medium ${item.decision === 'rejected' ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                          {item.task.description}
+                        </h3>
+                        <Badge variant="outline">{item.task.priority}</Badge>
+                        {needsReview({ confidence: item.task.confidence ?? null }) && (
+                          <Badge className="bg-amber-100 text-amber-800">Low confidence</Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-6 mt-2 text-sm text-gray-600">
+                        <span className="flex items-center">
+                          <User className="w-4 h-4 mr-1" />
+                          {item.task.assignee}
+                        </span>
+                        <span className="flex items-center">
+                          <Clock className="w-4 h-4 mr-1" />
+                          {item.task.deadlineText}
+                          {item.task.dueAt && (
+                            <span className="ml-1 text-gray-400">({format(new Date(item.task.dueAt), 'MMM d, p')})</span>
+                          )}
+                          {item.task.deadlineAmbiguous && (
+                            <span title="This deadline could be read more than one way. Please review it.">
+                              <AlertTriangle className="w-4 h-4 ml-1 text-amber-500" />
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      {item.task.sourceQuote && (
+                        <p className="mt-2 text-xs text-gray-500 italic">&ldquo;{item.task.sourceQuote}&rdquo;</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-1 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={item.decision === 'accepted' ? 'text-green-700' : 'text-gray-500'}
+                        onClick={() => updateItem(index, { decision: item.decision === 'accepted' ? 'pending' : 'accepted' })}
+                        aria-label="Accept task"
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-blue-600"
+                        onClick={() => updateItem(index, { isEditing: true })}
+                        aria-label="Edit task"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={item.decision === 'rejected' ? 'text-red-700' : 'text-gray-500'}
+                        onClick={() => updateItem(index, { decision: item.decision === 'rejected' ? 'pending' : 'rejected' })}
+                        aria-label="Reject task"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="outline" onClick={onDiscard} disabled={isSaving}>
+            Discard
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onConfirm(notRejected.map((item) => item.task)).catch(() => {})}
+            disabled={isSaving || notRejected.length === 0}
+          >
+            Accept All ({notRejected.length})
+          </Button>
+          <Button
+            onClick={() => onConfirm(accepted.map((item) => item.task)).catch(() => {})}
+            disabled={isSaving || accepted.length === 0}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            Save Accepted ({accepted.length})
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
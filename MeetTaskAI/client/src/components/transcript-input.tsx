@@ -2,24 +2,35 @@ import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Zap, X } from "lucide-react";
+import { Upload, Zap, X, Check } from "lucide-react";
+import { jobStages, jobStageLabels, type ExtractionMode, type ProcessingJob } from "@shared/schema";
 
 interface TranscriptInputProps {
   inputMethod: 'text' | 'audio';
-  onExtractFromTranscript: (transcript: string) => Promise<void>;
-  onExtractFromAudio: (file: File) => Promise<void>;
+  onExtractFromTranscript: (request: { transcript: string; mode: ExtractionMode; draft: boolean }) => Promise<unknown>;
+  onExtractFromAudio: (request: { file: File; mode: ExtractionMode; draft: boolean }) => Promise<unknown>;
   isExtracting: boolean;
+  // Background job for the current upload, while it is running
+  audioJob?: ProcessingJob | null;
+  onCancelAudioJob?: () => Promise<void>;
 }
 
 export default function TranscriptInput({ 
   inputMethod, 
   onExtractFromTranscript, 
   onExtractFromAudio, 
-  isExtracting 
+  isExtracting,
+  audioJob,
+  onCancelAudioJob
 }: TranscriptInputProps) {
   const [transcript, setTranscript] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ExtractionMode>('auto');
+  const [reviewFirst, setReviewFirst] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -93,7 +104,7 @@ export default function TranscriptInput({
           });
           return;
         }
-        await onExtractFromTranscript(transcript);
+        await onExtractFromTranscript({ transcript, mode, draft: reviewFirst });
       } else {
         if (!selectedFile) {
           toast({
@@ -103,7 +114,7 @@ export default function TranscriptInput({
           });
           return;
         }
-        await onExtractFromAudio(selectedFile);
+        await onExtractFromAudio({ file: selectedFile, mode, draft: reviewFirst });
       }
     } catch (error) {
       // Error handling is done in the hook
@@ -187,7 +198,32 @@ Example:
         </div>
       )}
 
-      <div className="flex justify-end space-x-3">
+      {inputMethod === 'audio' && audioJob && (
+        <JobProgress job={audioJob} onCancel={onCancelAudioJob} />
+      )}
+
+      <div className="flex justify-end items-center space-x-3">
+        <div className="flex items-center space-x-2 mr-auto">
+          <Switch
+            id="review-first"
+            checked={reviewFirst}
+            onCheckedChange={setReviewFirst}
+            disabled={isExtracting}
+          />
+          <Label htmlFor="review-first" className="text-sm text-gray-700">
+            Review before saving
+          </Label>
+        </div>
+        <Select value={mode} onValueChange={(value) => setMode(value as ExtractionMode)} disabled={isExtracting}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Auto (AI, rule-based fallback)</SelectItem>
+            <SelectItem value="ai">AI only</SelectItem>
+            <SelectItem value="heuristic">Rule-based (no AI)</SelectItem>
+          </SelectContent>
+        </Select>
         <Button 
           variant="outline" 
           onClick={inputMethod === 'text' ? clearTranscript : clearFile}
@@ -216,3 +252,44 @@ Example:
     </div>
   );
 }
+
+function JobProgress({ job, onCancel }: { job: ProcessingJob; onCancel?: () => Promise<void> }) {
+  const currentIndex = jobStages.indexOf(job.stage);
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {job.status === 'cancelled' ? 'Cancelling...' : `${jobStageLabels[job.stage]}...`}
+          </p>
+          {job.detail && <p className="text-xs text-gray-500">{job.detail}</p>}
+        </div>
+        {onCancel && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onCancel().catch(() => {})}
+            disabled={job.status !== 'running' || job.stage === 'saving'}
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+      <Progress value={job.progress} className="h-2" />
+      <ol className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {jobStages.map((stage, index) => (
+          <li
+            key={stage}
+            className={`flex items-center ${
+              index < currentIndex ? 'text-green-700' : index === currentIndex ? 'text-blue-700 font-medium' : 'text-gray-400'
+            }`}
+          >
+            {index < currentIndex && <Check className="w-3 h-3 mr-1" />}
+            {jobStageLabels[stage]}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces, useWorkspaceMembers } from "@/hooks/use-workspaces";
+import { Check, ChevronDown, Plus, Users, Trash2 } from "lucide-react";
+import { workspaceRoles, workspaceRoleLabels, type WorkspaceRole, type WorkspaceWithRole } from "@shared/schema";
+
+function RoleSelect({ value, onChange, label }: { value: WorkspaceRole; onChange: (role: WorkspaceRole) => void; label: string }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WorkspaceRole)}>
+      <SelectTrigger className="w-28 h-9" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaceRoles.map((role) => (
+          <SelectItem key={role} value={role}>
+            {workspaceRoleLabels[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function MembersDialog({
+  workspace,
+  open,
+  onOpenChange,
+}: {
+  workspace: WorkspaceWithRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { user } = useAuth();
+  const { members, isLoading, invite, isInviting, changeRole, removeMember } = useWorkspaceMembers(workspace.id);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const isOwner = workspace.role === 'owner';
+
+  const handleInvite = async () => {
+    try {
+      await invite({ username: username.trim(), role });
+      setUsername('');
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Members of {workspace.name}</DialogTitle>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex items-end space-x-2">
+            <div className="grid gap-2 flex-1">
+              <Label htmlFor="invite-username">Invite by username</Label>
+              <Input
+                id="invite-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && username.trim() && handleInvite()}
+              />
+            </div>
+            <RoleSelect value={role} onChange={setRole} label="Role for the new member" />
+            <Button onClick={handleInvite} disabled={isInviting || !username.trim()}>
+              Invite
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 py-2">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading members...</p>
+          ) : (
+            members.map((member) => {
+              const isSelf = member.userId === user?.id;
+              return (
+                <div key={member.userId} className="flex items-center justify-between border border-gray-200 rounded-lg px-3 py-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    {member.username}
+                    {isSelf && <span className="ml-1 text-gray-400">(you)</span>}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {isOwner ? (
+                      <RoleSelect
+                        value={member.role}
+                        onChange={(nextRole) => changeRole({ userId: member.userId, role: nextRole })}
+                        label={`Role for ${member.username}`}
+                      />
+                    ) : (
+                      <Badge variant="secondary">{workspaceRoleLabels[member.role]}</Badge>
+                    )}
+                    {(isOwner || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => removeMember(member.userId)}
+                        aria-label={isSelf ? 'Leave workspace' : `Remove ${member.username}`}
+                        title={isSelf ? 'Leave workspace' : 'Remove member'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace, selectWorkspace, isSwitching, createWorkspace, isCreating } = useWorkspaces();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleCreate = async () => {
+    try {
+      await createWorkspace(name.trim());
+      setName('');
+      setIsCreateOpen(false);
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isSwitching} aria-label="Switch workspace">
+            <Users className="w-4 h-4 mr-2" />
+            {currentWorkspace?.name ?? 'Personal'}
+            {currentWorkspace && (
+              <Badge variant="secondary" className="ml-2">{workspaceRoleLabels[currentWorkspace.role]}</Badge>
+            )}
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => selectWorkspace(null)}>
+            <Check className={`w-4 h-4 mr-2 ${currentWorkspace ? 'invisible' : ''}`} />
+            Personal
+          </DropdownMenuItem>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onClick={() => selectWorkspace(workspace.id)}>
+              <Check className={`w-4 h-4 mr-2 ${workspace.id === currentWorkspace?.id ? '' : 'invisible'}`} />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="ml-2 text-xs text-gray-400">{workspaceRoleLabels[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {currentWorkspace && (
+            <DropdownMenuItem onClick={() => setIsMembersOpen(true)}>
+              <Users className="w-4 h-4 mr-2" />
+              Manage members
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && name.trim() && handleCreate()}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={isCreating || !name.trim()}>Create</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {currentWorkspace && isMembersOpen && (
+        <MembersDialog
+          key={currentWorkspace.id}
+          workspace={currentWorkspace}
+          open={isMembersOpen}
+          onOpenChange={setIsMembersOpen}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,97 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, describeApiError, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertUser, PublicUser } from "@shared/schema";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(['/api/auth/me'], loggedIn);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const response = await apiRequest('POST', '/api/auth/register', credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (registered) => {
+      queryClient.setQueryData(['/api/auth/me'], registered);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous account
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
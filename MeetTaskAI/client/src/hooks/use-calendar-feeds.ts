@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CalendarFeed } from "@shared/schema";
+
+export type CalendarFeedWithUrl = CalendarFeed & { url: string };
+
+export function useCalendarFeeds() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const feedsKey = ['/api/calendar-feeds'];
+
+  const { data: feeds = [], isLoading } = useQuery<CalendarFeedWithUrl[]>({
+    queryKey: feedsKey,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: describeApiError(error), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (assignee: string | null) => {
+      const response = await apiRequest('POST', '/api/calendar-feeds', { assignee });
+      return (await response.json()) as CalendarFeedWithUrl;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: feedsKey });
+    },
+    onError: showError("Failed to create calendar feed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/calendar-feeds/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: feedsKey });
+      toast({ title: "Calendar feed revoked", description: "Calendar apps using it will stop updating." });
+    },
+    onError: showError("Failed to revoke calendar feed"),
+  });
+
+  return {
+    feeds,
+    isLoading,
+    createFeed: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    deleteFeed: deleteMutation.mutate,
+  };
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { IntegrationProvider, IssueSyncReport, SyncConflictResolution, TaskPushReport } from "@shared/schema";
+
+export interface TaskPushRequest {
+  provider: IntegrationProvider;
+  ids: number[];
+}
+
+export interface ConflictResolutionRequest extends SyncConflictResolution {
+  taskId: number;
+}
+
+export function useIntegrations() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Trackers only appear once the server has credentials for them
+  const { data } = useQuery<{ providers: IntegrationProvider[] }>({
+    queryKey: ['/api/integrations'],
+    staleTime: Infinity,
+  });
+
+  const pushMutation = useMutation({
+    mutationFn: async ({ provider, ids }: TaskPushRequest) => {
+      const response = await apiRequest('POST', `/api/integrations/${provider}/push`, { ids });
+      return (await response.json()) as TaskPushReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      const failures = report.results.filter((result) => result.error);
+      toast({
+        title: failures.length > 0 ? "Some tasks were not pushed" : "Tasks pushed",
+        description: failures.length > 0
+          ? `${report.message}. ${failures.map((result) => `Task #${result.taskId}: ${result.error}`).join('; ')}`
+          : report.message,
+        variant: failures.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      // Tasks pushed before a failure are linked, so the list may have changed either way
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({
+        title: "Failed to push tasks",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/integrations/sync');
+      return (await response.json()) as IssueSyncReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({
+        title: report.conflictCount > 0 ? "Some tasks need a decision" : "Linked issues synced",
+        description: report.conflictCount > 0
+          ? `${report.message}. Tasks marked "Sync conflict" changed on both sides.`
+          : report.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to sync linked issues",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveConflictMutation = useMutation({
+    mutationFn: async ({ taskId, keep }: ConflictResolutionRequest) => {
+      const response = await apiRequest('POST', `/api/integrations/conflicts/${taskId}/resolve`, { keep });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({ title: "Conflict resolved", description: data.message });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({
+        title: "Failed to resolve conflict",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    providers: data?.providers ?? [],
+    syncLinkedIssues: syncMutation.mutate,
+    isSyncing: syncMutation.isPending,
+    resolveConflict: resolveConflictMutation.mutate,
+    pushTasks: pushMutation.mutateAsync,
+    isPushing: pushMutation.isPending,
+  };
+}
@@ -1,28 +1,144 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Task } from "@shared/schema";
+import type {
+  Task,
+  TaskPage,
+  TaskQuery,
+  InsertTask,
+  Meeting,
+  ExtractionMode,
+  ProcessingJob,
+  BulkTaskOperation,
+  ExportFormat,
+  ImportMapping,
+  TaskImportReport,
+} from "@shared/schema";
 
-export function useTasks() {
+const JOB_POLL_INTERVAL_MS = 1000;
+
+class JobCancelledError extends Error {}
+
+// What the filter controls and the review queue can narrow the list by; dates are yyyy-mm-dd from date inputs
+export type TaskFilters = Partial<Pick<TaskQuery, 'assignee' | 'priority' | 'status' | 'meetingId' | 'q' | 'reviewBelow' | 'hasDueDate' | 'sort' | 'order'>> & {
+  dueFrom?: string;
+  dueTo?: string;
+};
+
+export function hasActiveFilters(filters: TaskFilters): boolean {
+  return Boolean(
+    filters.q || filters.assignee || filters.priority || filters.status || filters.meetingId || filters.dueFrom || filters.dueTo ||
+      filters.reviewBelow !== undefined || filters.hasDueDate !== undefined
+  );
+}
+
+function taskQueryParams(filters: TaskFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  // A due range covers whole days in the user's time zone
+  if (filters.dueFrom) {
+    params.set('dueFrom', new Date(`${filters.dueFrom}T00:00:00`).toISOString());
+  }
+  if (filters.dueTo) {
+    params.set('dueTo', new Date(`${filters.dueTo}T23:59:59.999`).toISOString());
+  }
+  return params;
+}
+
+// The largest page the server hands out
+const MAX_PAGE_SIZE = 100;
+
+function taskListUrl(filters: TaskFilters, cursor: string | null, limit?: number): string {
+  const params = taskQueryParams(filters);
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  if (limit) {
+    params.set('limit', String(limit));
+  }
+  const query = params.toString();
+  return query ? `/api/tasks?${query}` : '/api/tasks';
+}
+
+// Downloads every task matching the filters, not just the pages loaded so far
+export function taskExportUrl(filters: TaskFilters, format: ExportFormat): string {
+  const params = taskQueryParams(filters);
+  params.set('format', format);
+  return `/api/tasks/export?${params.toString()}`;
+}
+
+// Unsaved tasks from a draft extraction, waiting for review
+export interface DraftReview {
+  meeting: Meeting;
+  candidates: InsertTask[];
+}
+
+export interface TaskImportRequest {
+  file: File;
+  // Left out on the first preview so the server can suggest one
+  mapping?: ImportMapping;
+  dryRun: boolean;
+  skipInvalid?: boolean;
+}
+
+interface ExtractionResponse {
+  message: string;
+  draft: boolean;
+  meeting: Meeting;
+  candidates?: InsertTask[];
+}
+
+export function useTasks(filters: TaskFilters = {}) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [audioJob, setAudioJob] = useState<ProcessingJob | null>(null);
+  const [draftReview, setDraftReview] = useState<DraftReview | null>(null);
 
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ['/api/tasks'],
+  const handleExtracted = (data: ExtractionResponse, title: string) => {
+    // Every extraction records a meeting, even a draft one
+    queryClient.invalidateQueries({ queryKey: ['/api/meetings'] });
+    if (data.draft) {
+      setDraftReview({ meeting: data.meeting, candidates: data.candidates ?? [] });
+      toast({ title: "Review extracted tasks", description: data.message });
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+    toast({ title, description: data.message });
+  };
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/tasks', filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest('GET', taskListUrl(filters, pageParam));
+      return (await response.json()) as TaskPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const tasks: Task[] = data?.pages.flatMap((page) => page.tasks) ?? [];
 
   const extractFromTranscriptMutation = useMutation({
-    mutationFn: async (transcript: string) => {
-      const response = await apiRequest('POST', '/api/process-transcript', { transcript });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
-      toast({
-        title: "Tasks extracted successfully",
-        description: data.message,
+    mutationFn: async ({ transcript, mode, draft }: { transcript: string; mode: ExtractionMode; draft: boolean }) => {
+      const response = await apiRequest('POST', '/api/process-transcript', {
+        transcript,
+        mode,
+        draft,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
+      return response.json() as Promise<ExtractionResponse>;
     },
+    onSuccess: (data) => handleExtracted(data, "Tasks extracted successfully"),
     onError: (error: Error) => {
       toast({
         title: "Failed to extract tasks",
@@ -33,9 +149,12 @@ export function useTasks() {
   });
 
   const extractFromAudioMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, mode, draft }: { file: File; mode: ExtractionMode; draft: boolean }) => {
       const formData = new FormData();
       formData.append('audio', file);
+      formData.append('mode', mode);
+      formData.append('draft', String(draft));
+      formData.append('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone);
       
       const response = await fetch('/api/process-audio', {
         method: 'POST',
@@ -48,18 +167,61 @@ export function useTasks() {
         throw new Error(errorData.message || 'Failed to process audio');
       }
 
+      // The server answers straight away with a job; poll it until it finishes
+      let { job }: { job: ProcessingJob } = await response.json();
+      setAudioJob(job);
+      while (job.status === 'running') {
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+        const pollResponse = await apiRequest('GET', `/api/jobs/${job.id}`);
+        job = await pollResponse.json();
+        setAudioJob(job);
+      }
+
+      if (job.status === 'cancelled') {
+        throw new JobCancelledError('Processing was cancelled');
+      }
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Failed to process audio');
+      }
+      return job.result as ExtractionResponse;
+    },
+    onSuccess: (data) => handleExtracted(data, "Audio processed successfully"),
+    onError: (error: Error) => {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Processing cancelled" });
+        return;
+      }
+      toast({
+        title: "Failed to process audio",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelAudioJob = async () => {
+    if (audioJob?.status === 'running') {
+      const response = await apiRequest('POST', `/api/jobs/${audioJob.id}/cancel`);
+      setAudioJob(await response.json());
+    }
+  };
+
+  const confirmDraftMutation = useMutation({
+    mutationFn: async (tasks: InsertTask[]) => {
+      const response = await apiRequest('POST', '/api/tasks/bulk-create', { tasks });
       return response.json();
     },
     onSuccess: (data) => {
+      setDraftReview(null);
       queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
       toast({
-        title: "Audio processed successfully",
+        title: "Tasks saved",
         description: data.message,
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to process audio",
+        title: "Failed to save tasks",
         description: error.message,
         variant: "destructive",
       });
@@ -68,10 +230,37 @@ export function useTasks() {
 
   const updateTaskMutation = useMutation({
     mutationFn: async ({ id, updates }: { id: number; updates: Partial<Task> }) => {
-      const response = await apiRequest('PUT', `/api/tasks/${id}`, updates);
+      // Sending the version the change was based on lets the server refuse to overwrite
+      // someone else's edit. Forms that stay open a while pass the version they opened with
+      const { version = tasks.find((task) => task.id === id)?.version, ...changes } = updates;
+      const response = await apiRequest('PATCH', `/api/tasks/${id}`, { ...changes, version });
       return response.json();
     },
-    onSuccess: () => {
+    // Show the change straight away, keeping every cached list to roll back to
+    onMutate: async ({ id, updates: { version: _version, ...updates } }) => {
+      await queryClient.cancelQueries({ queryKey: ['/api/tasks'] });
+      const previousLists = queryClient.getQueriesData<InfiniteData<TaskPage>>({ queryKey: ['/api/tasks'] });
+      queryClient.setQueriesData<InfiniteData<TaskPage>>({ queryKey: ['/api/tasks'] }, (list) =>
+        list && {
+          ...list,
+          pages: list.pages.map((page) => ({
+            ...page,
+            tasks: page.tasks.map((task) => (task.id === id ? { ...task, ...updates } : task)),
+          })),
+        }
+      );
+      return { previousLists };
+    },
+    onError: (error: Error, _variables, context) => {
+      context?.previousLists.forEach(([queryKey, list]) => queryClient.setQueryData<InfiniteData<TaskPage>>(queryKey, list));
+      toast({
+        title: "Failed to update task",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+    // Refetch either way: the server may have resolved fields, or someone else changed the task first
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
     },
   });
@@ -84,6 +273,71 @@ export function useTasks() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete task",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkTaskMutation = useMutation({
+    mutationFn: async (operation: BulkTaskOperation) => {
+      const response = await apiRequest('POST', '/api/tasks/bulk', operation);
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({ title: "Tasks updated", description: data.message });
+    },
+    onError: (error: Error) => {
+      // Nothing was changed, but the list may be out of date
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      toast({
+        title: "Bulk change failed",
+        description: describeApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importTasksMutation = useMutation({
+    mutationFn: async ({ file, mapping, dryRun, skipInvalid = false }: TaskImportRequest) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
+      formData.append('dryRun', String(dryRun));
+      formData.append('skipInvalid', String(skipInvalid));
+      formData.append('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+      const response = await fetch('/api/tasks/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => ({ message: response.statusText }));
+      // A refused import still reports every row, so it is returned for review rather than thrown
+      if (!response.ok && !Array.isArray(data.rows)) {
+        throw new Error(data.message || 'Failed to import tasks');
+      }
+      return data as TaskImportReport;
+    },
+    onSuccess: (report) => {
+      if (!report.dryRun && report.importedCount > 0) {
+        queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+        toast({ title: "Tasks imported", description: report.message });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to import tasks",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const clearAllTasksMutation = useMutation({
@@ -99,11 +353,54 @@ export function useTasks() {
   return {
     tasks,
     isLoading,
+    hasMoreTasks: hasNextPage,
+    loadMoreTasks: fetchNextPage,
+    isLoadingMore: isFetchingNextPage,
     isExtracting: extractFromTranscriptMutation.isPending || extractFromAudioMutation.isPending,
     extractFromTranscript: extractFromTranscriptMutation.mutateAsync,
     extractFromAudio: extractFromAudioMutation.mutateAsync,
+    audioJob: extractFromAudioMutation.isPending ? audioJob : null,
+    cancelAudioJob,
+    draftReview,
+    confirmDraft: confirmDraftMutation.mutateAsync,
+    discardDraft: () => setDraftReview(null),
+    isSavingDraft: confirmDraftMutation.isPending,
+    // Both report their own failures, so callers only need to handle success
     updateTask: updateTaskMutation.mutateAsync,
     deleteTask: deleteTaskMutation.mutateAsync,
     clearAllTasks: clearAllTasksMutation.mutateAsync,
+    bulkUpdateTasks: bulkTaskMutation.mutateAsync,
+    isBulkUpdating: bulkTaskMutation.isPending,
+    importTasks: importTasksMutation.mutateAsync,
+    isImporting: importTasksMutation.isPending,
+  };
+}
+
+/**
+ * Every task matching the filters, for views that have to show all of them
+ * at once. Pages are fetched one after another until the last, and kept in
+ * the same cache shape as the paged list, so edits show up in both.
+ */
+export function useAllTasks(filters: TaskFilters, enabled = true) {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['/api/tasks', filters, 'all'],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest('GET', taskListUrl(filters, pageParam, MAX_PAGE_SIZE));
+      return (await response.json()) as TaskPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    tasks: data?.pages.flatMap((page) => page.tasks) ?? [],
+    isLoading: enabled && (isLoading || Boolean(hasNextPage)),
   };
 }
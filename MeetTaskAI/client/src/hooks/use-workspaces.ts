@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { WorkspaceRole, WorkspaceWithRole, WorkspaceMemberWithUser } from "@shared/schema";
+
+interface WorkspaceList {
+  workspaces: WorkspaceWithRole[];
+  currentWorkspaceId: number | null;
+}
+
+export function useWorkspaces() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<WorkspaceList>({
+    queryKey: ['/api/workspaces'],
+  });
+
+  const workspaces = data?.workspaces ?? [];
+  const currentWorkspace = workspaces.find((workspace) => workspace.id === data?.currentWorkspaceId) ?? null;
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: describeApiError(error), variant: "destructive" });
+  };
+
+  const selectWorkspaceMutation = useMutation({
+    mutationFn: async (workspaceId: number | null) => {
+      await apiRequest('POST', '/api/workspaces/select', { workspaceId });
+    },
+    onSuccess: () => {
+      // Tasks, meetings and the selection itself all depend on the workspace
+      queryClient.invalidateQueries();
+    },
+    onError: showError("Failed to switch workspace"),
+  });
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/workspaces', { name });
+      return (await response.json()) as WorkspaceWithRole;
+    },
+    onSuccess: (workspace) => {
+      toast({ title: "Workspace created", description: `Switched to ${workspace.name}.` });
+      selectWorkspaceMutation.mutate(workspace.id);
+    },
+    onError: showError("Failed to create workspace"),
+  });
+
+  return {
+    workspaces,
+    currentWorkspace,
+    // The personal space is always the user's own
+    role: (currentWorkspace?.role ?? 'owner') as WorkspaceRole,
+    isLoading,
+    selectWorkspace: selectWorkspaceMutation.mutate,
+    isSwitching: selectWorkspaceMutation.isPending,
+    createWorkspace: createWorkspaceMutation.mutateAsync,
+    isCreating: createWorkspaceMutation.isPending,
+  };
+}
+
+export function useWorkspaceMembers(workspaceId: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const membersKey = [`/api/workspaces/${workspaceId}/members`];
+
+  const { data: members = [], isLoading } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: membersKey,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: describeApiError(error), variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ username, role }: { username: string; role: WorkspaceRole }) => {
+      const response = await apiRequest('POST', `/api/workspaces/${workspaceId}/members`, { username, role });
+      return (await response.json()) as WorkspaceMemberWithUser;
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      toast({ title: "Member added", description: `${member.username} can now open this workspace.` });
+    },
+    onError: showError("Failed to invite member"),
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: WorkspaceRole }) => {
+      await apiRequest('PATCH', `/api/workspaces/${workspaceId}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+    },
+    onError: showError("Failed to change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest('DELETE', `/api/workspaces/${workspaceId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      // Leaving a workspace also moves the session back to the personal space
+      queryClient.invalidateQueries();
+    },
+    onError: showError("Failed to remove member"),
+  });
+
+  return {
+    members,
+    isLoading,
+    invite: inviteMutation.mutateAsync,
+    isInviting: inviteMutation.isPending,
+    changeRole: changeRoleMutation.mutate,
+    removeMember: removeMutation.mutate,
+  };
+}
@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pulls the server's message out of apiRequest's "<status>: <body>" errors
+export function describeApiError(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,132 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { ClipboardList, CheckCircle2 } from "lucide-react";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+// Logging in only needs both fields; the length rules apply when registering
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+function CredentialsForm({
+  schema,
+  submitLabel,
+  isPending,
+  onSubmit,
+}: {
+  schema: z.ZodType<InsertUser>;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: InsertUser) => void;
+}) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isPending}>
+          {isPending ? 'Please wait...' : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 grid lg:grid-cols-2">
+      <div className="flex items-center justify-center p-8">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+                <ClipboardList className="w-5 h-5 text-white" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">AI Task Converter</h1>
+            </div>
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login">Log in</TabsTrigger>
+                <TabsTrigger value="register">Create account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">
+                <CredentialsForm
+                  schema={loginSchema}
+                  submitLabel="Log in"
+                  isPending={loginMutation.isPending}
+                  onSubmit={(values) => loginMutation.mutate(values)}
+                />
+              </TabsContent>
+              <TabsContent value="register">
+                <CredentialsForm
+                  schema={insertUserSchema}
+                  submitLabel="Create account"
+                  isPending={registerMutation.isPending}
+                  onSubmit={(values) => registerMutation.mutate(values)}
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+      <div className="hidden lg:flex flex-col justify-center bg-blue-600 text-white p-12">
+        <h2 className="text-3xl font-semibold mb-4">Turn meetings into tasks</h2>
+        <p className="text-blue-100 mb-8">
+          Paste a transcript or upload a recording and get a list of who needs to do what, and by when.
+        </p>
+        <ul className="space-y-3">
+          {['Tasks, assignees and deadlines extracted automatically', 'Review before anything is saved', 'Your tasks stay private to your account'].map((item) => (
+            <li key={item} className="flex items-center">
+              <CheckCircle2 className="w-5 h-5 mr-2 text-blue-200" />
+              {item}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
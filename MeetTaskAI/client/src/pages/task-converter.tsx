@@ -5,9 +5,37 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { useTasks } from "@/hooks/use-tasks";
+import { useTasks, hasActiveFilters, taskExportUrl, type TaskFilters as Filters } from "@/hooks/use-tasks";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { useIntegrations } from "@/hooks/use-integrations";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
 import TaskCard from "@/components/task-card";
 import TranscriptInput from "@/components/transcript-input";
+import TaskReviewPanel from "@/components/task-review-panel";
+import WorkspaceSwitcher from "@/components/workspace-switcher";
+import TaskFilters from "@/components/task-filters";
+import BulkActionToolbar from "@/components/bulk-action-toolbar";
+import TaskBoard, { boardGroupings, boardGroupingLabels, type BoardGrouping } from "@/components/task-board";
+import TaskCalendar from "@/components/task-calendar";
+import TaskImportDialog from "@/components/task-import-dialog";
+import CalendarFeedsDialog from "@/components/calendar-feeds-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  DEFAULT_REVIEW_THRESHOLD,
+  hasWorkspaceRole,
+  exportFormats,
+  type ExportFormat,
+  type Task,
+} from "@shared/schema";
 import { 
   ClipboardList, 
   Settings, 
@@ -16,26 +44,116 @@ import {
   Mic, 
   Zap,
   Download,
+  Upload,
+  RefreshCw,
+  ChevronDown,
   Trash2,
   Grid3X3,
   List,
-  Info
+  Kanban,
+  CalendarDays,
+  Info,
+  AlertTriangle,
+  LogOut,
+  Eye
 } from "lucide-react";
 
+const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  markdown: 'Markdown checklist',
+  xlsx: 'Excel (XLSX)',
+  ics: 'Calendar (ICS)',
+};
+
 export default function TaskConverter() {
   const [inputMethod, setInputMethod] = useState<'text' | 'audio'>('text');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'board' | 'calendar'>('grid');
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>('status');
+  const [showNeedsReview, setShowNeedsReview] = useState(false);
+  const [reviewThreshold, setReviewThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [filters, setFilters] = useState<Filters>({});
+  // The review queue is filtered on the server, so it covers every task and not just the loaded pages
+  const queryFilters: Filters = showNeedsReview ? { ...filters, reviewBelow: reviewThreshold } : filters;
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  const { currentWorkspace, role } = useWorkspaces();
+  // The server enforces these too; the UI just hides what the role cannot do
+  const canEdit = hasWorkspaceRole(role, 'editor');
+  const canClearAll = hasWorkspaceRole(role, 'owner');
   const { 
     tasks, 
     isLoading: tasksLoading, 
+    hasMoreTasks,
+    loadMoreTasks,
+    isLoadingMore,
     extractFromTranscript, 
     extractFromAudio, 
     updateTask,
     deleteTask,
     clearAllTasks,
-    isExtracting 
-  } = useTasks();
+    bulkUpdateTasks,
+    isBulkUpdating,
+    importTasks,
+    isImporting,
+    isExtracting,
+    audioJob,
+    cancelAudioJob,
+    draftReview,
+    confirmDraft,
+    discardDraft,
+    isSavingDraft
+  } = useTasks(queryFilters);
+  const {
+    providers: pushProviders,
+    pushTasks,
+    isPushing,
+    syncLinkedIssues,
+    isSyncing,
+    resolveConflict
+  } = useIntegrations();
+
+  // Tasks filtered out of view stay unselected, so bulk actions only touch what is on screen
+  const selectedVisibleIds = tasks.filter((task) => selectedIds.has(task.id)).map((task) => task.id);
+
+  const toggleSelected = (taskId: number, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(taskId);
+      } else {
+        next.delete(taskId);
+      }
+      return next;
+    });
+  };
+
+  // Failures are already reported by the mutation, so only success is passed on
+  const handleTaskUpdate = (taskId: number, updates: Partial<Task>, onSuccess?: () => void) => {
+    updateTask({ id: taskId, updates }).then(onSuccess, () => {});
+  };
+
+  const handleTaskDelete = (taskId: number, onSuccess?: () => void) => {
+    deleteTask(taskId).then(onSuccess, () => {});
+  };
+
+  const renderTaskCard = (task: Task) => (
+    <TaskCard 
+      key={task.id} 
+      task={task} 
+      viewMode={viewMode === 'list' ? 'list' : 'grid'}
+      reviewThreshold={reviewThreshold}
+      readOnly={!canEdit}
+      selected={selectedIds.has(task.id)}
+      onSelectedChange={canEdit ? (selected) => toggleSelected(task.id, selected) : undefined}
+      onTaskUpdate={handleTaskUpdate}
+      onResolveConflict={canEdit ? (keep) => resolveConflict({ taskId: task.id, keep }) : undefined}
+      onTaskDelete={handleTaskDelete}
+    />
+  );
 
   const handleClearAll = async () => {
     try {
@@ -53,41 +171,30 @@ export default function TaskConverter() {
     }
   };
 
-  const exportToCSV = () => {
-    if (tasks.length === 0) {
+  const exportTasks = async (format: ExportFormat) => {
+    try {
+      const response = await apiRequest('GET', taskExportUrl(queryFilters, format));
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `tasks.${format}`;
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+
       toast({
-        title: "No tasks to export",
-        description: "Extract some tasks first before exporting.",
+        title: "Export successful",
+        description: `Tasks have been exported to ${exportFormatLabels[format]}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: describeApiError(error as Error),
         variant: "destructive",
       });
-      return;
     }
-
-    const headers = ['Task', 'Assigned To', 'Due Date/Time', 'Priority'];
-    const csvContent = [
-      headers.join(','),
-      ...tasks.map(task => [
-        `"${task.description}"`,
-        `"${task.assignee}"`,
-        `"${task.deadline}"`,
-        task.priority
-      ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tasks-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
-
-    toast({
-      title: "Export successful",
-      description: "Tasks have been exported to CSV.",
-    });
   };
 
   return (
@@ -101,14 +208,30 @@ export default function TaskConverter() {
                 <ClipboardList className="w-5 h-5 text-white" />
               </div>
               <h1 className="text-xl font-semibold text-gray-900">AI Task Converter</h1>
+              <WorkspaceSwitcher />
             </div>
             <div className="flex items-center space-x-4">
               <Button variant="ghost" size="sm">
                 <Settings className="w-5 h-5" />
               </Button>
-              <Button variant="ghost" size="sm">
-                <User className="w-5 h-5" />
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" aria-label="Account menu">
+                    <User className="w-5 h-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Signed in as {user?.username}</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    Log out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -116,58 +239,82 @@ export default function TaskConverter() {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Input Section */}
-        <Card className="mb-8">
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-lg font-semibold text-gray-900">Convert Meeting Minutes to Tasks</h2>
-              <div className="flex items-center space-x-2">
-                <span className="text-sm text-gray-500">Powered by</span>
-                <div className="flex items-center space-x-1">
-                  <div className="w-4 h-4 bg-gradient-to-r from-blue-500 to-purple-500 rounded"></div>
-                  <span className="text-sm font-medium text-gray-900">OpenAI</span>
+        {!canEdit && (
+          <Card className="mb-8 border-gray-200">
+            <CardContent className="p-4 flex items-center text-sm text-gray-600">
+              <Eye className="w-4 h-4 mr-2" />
+              You have view-only access to {currentWorkspace?.name ?? 'this workspace'}. Ask an owner for editor access to add or change tasks.
+            </CardContent>
+          </Card>
+        )}
+        {canEdit && (
+          <Card className="mb-8">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-semibold text-gray-900">Convert Meeting Minutes to Tasks</h2>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-500">Powered by</span>
+                  <div className="flex items-center space-x-1">
+                    <div className="w-4 h-4 bg-gradient-to-r from-blue-500 to-purple-500 rounded"></div>
+                    <span className="text-sm font-medium text-gray-900">OpenAI</span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Input Method Toggle */}
-            <div className="mb-6">
-              <div className="flex bg-gray-100 rounded-lg p-1 w-fit">
-                <Button
-                  variant={inputMethod === 'text' ? 'default' : 'ghost'}
-                  size="sm"
-                  onClick={() => setInputMethod('text')}
-                  className={inputMethod === 'text' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}
-                >
-                  <FileText className="w-4 h-4 mr-2" />
-                  Text Input
-                </Button>
-                <Button
-                  variant={inputMethod === 'audio' ? 'default' : 'ghost'}
-                  size="sm"
-                  onClick={() => setInputMethod('audio')}
-                  className={inputMethod === 'audio' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}
-                >
-                  <Mic className="w-4 h-4 mr-2" />
-                  Audio/Video Upload
-                </Button>
+              {/* Input Method Toggle */}
+              <div className="mb-6">
+                <div className="flex bg-gray-100 rounded-lg p-1 w-fit">
+                  <Button
+                    variant={inputMethod === 'text' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setInputMethod('text')}
+                    className={inputMethod === 'text' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Text Input
+                  </Button>
+                  <Button
+                    variant={inputMethod === 'audio' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setInputMethod('audio')}
+                    className={inputMethod === 'audio' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}
+                  >
+                    <Mic className="w-4 h-4 mr-2" />
+                    Audio/Video Upload
+                  </Button>
+                </div>
               </div>
-            </div>
 
-            <TranscriptInput
-              inputMethod={inputMethod}
-              onExtractFromTranscript={extractFromTranscript}
-              onExtractFromAudio={extractFromAudio}
-              isExtracting={isExtracting}
-            />
+              <TranscriptInput
+                inputMethod={inputMethod}
+                onExtractFromTranscript={extractFromTranscript}
+                onExtractFromAudio={extractFromAudio}
+                isExtracting={isExtracting}
+                audioJob={audioJob}
+                onCancelAudioJob={cancelAudioJob}
+              />
 
-            <div className="flex items-center justify-between pt-4">
-              <div className="flex items-center text-sm text-gray-500">
-                <Info className="w-4 h-4 mr-1" />
-                AI will automatically extract tasks, assignees, and deadlines
+              <div className="flex items-center justify-between pt-4">
+                <div className="flex items-center text-sm text-gray-500">
+                  <Info className="w-4 h-4 mr-1" />
+                  AI will automatically extract tasks, assignees, and deadlines
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Review Section */}
+        {draftReview && canEdit && (
+          <TaskReviewPanel
+            key={draftReview.meeting.id}
+            candidates={draftReview.candidates}
+            meetingTitle={draftReview.meeting.title}
+            onConfirm={confirmDraft}
+            onDiscard={discardDraft}
+            isSaving={isSavingDraft}
+          />
+        )}
 
         {/* Tasks Section */}
         <Card>
@@ -176,10 +323,45 @@ export default function TaskConverter() {
               <div className="flex items-center space-x-3">
                 <h2 className="text-lg font-semibold text-gray-900">Extracted Tasks</h2>
                 <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-                  {tasks.length} tasks
+                  {tasks.length}{hasMoreTasks ? '+' : ''} tasks
                 </Badge>
               </div>
               <div className="flex items-center space-x-2">
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+                    <Upload className="w-4 h-4 mr-1" />
+                    Import
+                  </Button>
+                )}
+                {canEdit && pushProviders.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => syncLinkedIssues()} disabled={isSyncing}>
+                    <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                    Sync issues
+                  </Button>
+                )}
+                <Button
+                  variant={showNeedsReview ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowNeedsReview(!showNeedsReview)}
+                  className={showNeedsReview ? 'bg-amber-500 hover:bg-amber-600' : ''}
+                >
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  Needs review{showNeedsReview && !tasksLoading ? ` (${tasks.length}${hasMoreTasks ? '+' : ''})` : ''}
+                </Button>
+                {showNeedsReview && (
+                  <Select value={String(reviewThreshold)} onValueChange={(value) => setReviewThreshold(Number(value))}>
+                    <SelectTrigger className="w-36 h-9" aria-label="Confidence threshold">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[0.4, 0.5, 0.6, 0.7, 0.8, 0.9].map((threshold) => (
+                        <SelectItem key={threshold} value={String(threshold)}>
+                          Below {Math.round(threshold * 100)}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -196,14 +378,78 @@ export default function TaskConverter() {
                 >
                   <List className="w-5 h-5" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setViewMode('board')}
+                  className={viewMode === 'board' ? 'text-gray-600' : 'text-gray-400'}
+                  aria-label="Board view"
+                >
+                  <Kanban className="w-5 h-5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setViewMode('calendar')}
+                  className={viewMode === 'calendar' ? 'text-gray-600' : 'text-gray-400'}
+                  aria-label="Calendar view"
+                >
+                  <CalendarDays className="w-5 h-5" />
+                </Button>
+                {viewMode === 'board' && (
+                  <Select value={boardGrouping} onValueChange={(value) => setBoardGrouping(value as BoardGrouping)}>
+                    <SelectTrigger className="w-36 h-9" aria-label="Group board by">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {boardGroupings.map((grouping) => (
+                        <SelectItem key={grouping} value={grouping}>
+                          By {boardGroupingLabels[grouping].toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
             </div>
 
+            <TaskFilters filters={filters} onChange={setFilters} />
+
+            {canEdit && (
+              <TaskImportDialog
+                open={isImportOpen}
+                onOpenChange={setIsImportOpen}
+                onImport={importTasks}
+                isImporting={isImporting}
+              />
+            )}
+
+            {isFeedsOpen && <CalendarFeedsDialog open={isFeedsOpen} onOpenChange={setIsFeedsOpen} />}
+
+            {canEdit && selectedVisibleIds.length > 0 && (
+              <BulkActionToolbar
+                selectedIds={selectedVisibleIds}
+                totalVisible={tasks.length}
+                onSelectAll={() => setSelectedIds(new Set(tasks.map((task) => task.id)))}
+                onClearSelection={() => setSelectedIds(new Set())}
+                onApply={bulkUpdateTasks}
+                isApplying={isBulkUpdating || isPushing}
+                pushProviders={pushProviders}
+                onPush={(provider) => pushTasks({ provider, ids: selectedVisibleIds })}
+              />
+            )}
+
             {tasksLoading ? (
               <div className="text-center py-12">
                 <div className="animate-spin w-8 h-8 border-3 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
                 <p className="text-gray-500">Loading tasks...</p>
               </div>
+            ) : tasks.length === 0 && showNeedsReview ? (
+              <p className="text-center text-gray-500 py-12">
+                {hasActiveFilters(filters) ? 'No matching tasks are' : 'Every task is'} at or above {Math.round(reviewThreshold * 100)}% confidence. Nothing needs review.
+              </p>
+            ) : tasks.length === 0 && hasActiveFilters(filters) ? (
+              <p className="text-center text-gray-500 py-12">No tasks match these filters.</p>
             ) : tasks.length === 0 ? (
               <div className="text-center py-12">
                 <ClipboardList className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -212,50 +458,64 @@ export default function TaskConverter() {
               </div>
             ) : (
               <>
-                <div className={viewMode === 'grid' ? 'grid gap-4 md:grid-cols-2 lg:grid-cols-3' : 'space-y-3'}>
-                  {tasks.map((task) => (
-                    <TaskCard 
-                      key={task.id} 
-                      task={task} 
-                      viewMode={viewMode}
-                      onTaskUpdate={async (taskId, updates) => {
-                        try {
-                          await updateTask({ id: taskId, updates });
-                        } catch (error) {
-                          toast({
-                            title: "Error",
-                            description: "Failed to update task. Please try again.",
-                            variant: "destructive",
-                          });
-                        }
-                      }}
-                      onTaskDelete={async (taskId) => {
-                        try {
-                          await deleteTask(taskId);
-                        } catch (error) {
-                          toast({
-                            title: "Error", 
-                            description: "Failed to delete task. Please try again.",
-                            variant: "destructive",
-                          });
-                        }
-                      }}
-                    />
-                  ))}
-                </div>
+                {viewMode === 'board' ? (
+                  <TaskBoard
+                    filters={queryFilters}
+                    groupBy={boardGrouping}
+                    renderTask={renderTaskCard}
+                    onMoveTask={handleTaskUpdate}
+                    readOnly={!canEdit}
+                  />
+                ) : viewMode === 'calendar' ? (
+                  <TaskCalendar filters={queryFilters} onMoveTask={handleTaskUpdate} readOnly={!canEdit} />
+                ) : (
+                  <div className={viewMode === 'grid' ? 'grid gap-4 md:grid-cols-2 lg:grid-cols-3' : 'space-y-3'}>
+                    {tasks.map(renderTaskCard)}
+                  </div>
+                )}
+
+                {hasMoreTasks && viewMode !== 'board' && (
+                  <div className="flex justify-center mt-6">
+                    <Button variant="outline" onClick={() => loadMoreTasks()} disabled={isLoadingMore}>
+                      {isLoadingMore ? 'Loading...' : 'Load more tasks'}
+                    </Button>
+                  </div>
+                )}
 
                 <Separator className="my-6" />
 
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
-                    <Button variant="outline" size="sm" onClick={exportToCSV}>
-                      <Download className="w-4 h-4 mr-1" />
-                      Export to CSV
-                    </Button>
-                    <Button variant="outline" size="sm" onClick={handleClearAll}>
-                      <Trash2 className="w-4 h-4 mr-1" />
-                      Clear All
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <Download className="w-4 h-4 mr-1" />
+                          Export
+                          <ChevronDown className="w-4 h-4 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel>
+                          {hasActiveFilters(queryFilters) ? 'Export matching tasks' : 'Export all tasks'}
+                        </DropdownMenuLabel>
+                        {exportFormats.map((format) => (
+                          <DropdownMenuItem key={format} onClick={() => exportTasks(format)}>
+                            {exportFormatLabels[format]}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => setIsFeedsOpen(true)}>
+                          <CalendarDays className="w-4 h-4 mr-2" />
+                          Subscribe in calendar app...
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {canClearAll && (
+                      <Button variant="outline" size="sm" onClick={handleClearAll}>
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Clear All
+                      </Button>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500">
                     Last updated: Just now
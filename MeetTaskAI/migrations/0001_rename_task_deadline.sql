@@ -0,0 +1,17 @@
+-- Databases created before deadlines were resolved to timestamps keep the spoken
+-- phrase in "tasks"."deadline". Renaming it keeps those phrases; left alone,
+-- `npm run db:push` would add an empty "deadline_text" column instead, which
+-- fails on existing rows because the column is NOT NULL.
+-- Safe to run more than once, and on databases that never had the old column.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'tasks' AND column_name = 'deadline'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'tasks' AND column_name = 'deadline_text'
+  ) THEN
+    ALTER TABLE "tasks" RENAME COLUMN "deadline" TO "deadline_text";
+  END IF;
+END $$;
@@ -0,0 +1,54 @@
+-- Databases created before tasks and meetings belonged to a user have rows
+-- without an owner, and `npm run db:push` cannot add the NOT NULL
+-- "owner_id" column to them. This gives those rows an owner and fills in the
+-- other columns added since, so db:push only has to add constraints.
+--
+-- Rows go to the user named with -v owner=<username>, or else to a
+-- "legacy-owner" account that cannot sign in:
+--   psql "$DATABASE_URL" -v owner=alice -f migrations/0002_backfill_task_owners.sql
+-- Safe to run more than once, and on databases without the old tables.
+\if :{?owner}
+SELECT set_config('meettask.legacy_owner', :'owner', false);
+\endif
+
+DO $$
+DECLARE
+  chosen text := NULLIF(current_setting('meettask.legacy_owner', true), '');
+  legacy_owner integer;
+  orphaned boolean;
+  tbl text;
+BEGIN
+  IF to_regclass('tasks') IS NOT NULL THEN
+    ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'open';
+    ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1;
+    UPDATE "tasks" SET "status" = 'open' WHERE "status" IS NULL;
+    UPDATE "tasks" SET "version" = 1 WHERE "version" IS NULL;
+    ALTER TABLE "tasks" ALTER COLUMN "status" SET NOT NULL;
+    ALTER TABLE "tasks" ALTER COLUMN "version" SET NOT NULL;
+  END IF;
+
+  FOREACH tbl IN ARRAY ARRAY['tasks', 'meetings'] LOOP
+    CONTINUE WHEN to_regclass(tbl) IS NULL;
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS "owner_id" integer', tbl);
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE "owner_id" IS NULL)', tbl) INTO orphaned;
+    -- The owner is only looked up, or created, once there are rows to give it
+    IF orphaned AND legacy_owner IS NULL THEN
+      IF chosen IS NOT NULL THEN
+        SELECT "id" INTO legacy_owner FROM "users" WHERE "username" = chosen;
+        IF legacy_owner IS NULL THEN
+          RAISE EXCEPTION 'No user named %', chosen;
+        END IF;
+      ELSE
+        -- A password without a salt never matches, so nobody can sign in as this user
+        INSERT INTO "users" ("username", "password") VALUES ('legacy-owner', '!')
+          ON CONFLICT ("username") DO NOTHING;
+        SELECT "id" INTO legacy_owner FROM "users" WHERE "username" = 'legacy-owner';
+      END IF;
+    END IF;
+    IF orphaned THEN
+      EXECUTE format('UPDATE %I SET "owner_id" = $1 WHERE "owner_id" IS NULL', tbl) USING legacy_owner;
+    END IF;
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN "owner_id" SET NOT NULL', tbl);
+  END LOOP;
+END $$;
@@ -0,0 +1,136 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createAiProvider, extractTasks, loadAiConfig, setAiProvider, type AiProvider, type ExtractedTask } from "./ai";
+import { scoreExtractedTask } from "./confidence";
+import { MockProvider } from "./mock-provider";
+import { OpenAIProvider } from "./openai";
+
+const transcript = "Dana: I'll send the revised budget by Friday. Lee, please book the room for Monday.";
+
+const fixtures = {
+  extractions: [{
+    match: "revised budget",
+    tasks: [
+      {
+        description: "Send the revised budget",
+        assignee: "Dana",
+        deadline: "by Friday",
+        priority: "P2",
+        quote: "I'll send the revised budget by Friday",
+        confidence: { description: 0.9, assignee: 0.95, deadline: 0.8, priority: 0.6 },
+      },
+      { description: "Book the room", assignee: "Lee", deadline: "", priority: "" },
+    ],
+  }],
+};
+
+afterEach(() => {
+  setAiProvider(undefined);
+  vi.restoreAllMocks();
+});
+
+describe("mock provider", () => {
+  it("is chosen by AI_PROVIDER=mock", () => {
+    expect(createAiProvider(loadAiConfig({ AI_PROVIDER: "mock" }))).toBeInstanceOf(MockProvider);
+  });
+
+  it("answers extraction from its fixtures, normalised like any other provider", async () => {
+    setAiProvider(new MockProvider(fixtures));
+    const result = await extractTasks(transcript, "ai");
+    expect(result).toMatchObject({ engine: "ai", chunks: 1 });
+    expect(result.tasks).toEqual([
+      { ...fixtures.extractions[0].tasks[0] },
+      { description: "Book the room", assignee: "Lee", deadline: "", priority: "P3", quote: undefined, confidence: undefined },
+    ]);
+  });
+
+  it("returns no tasks for a transcript no fixture matches", async () => {
+    setAiProvider(new MockProvider(fixtures));
+    expect((await extractTasks("Nothing to see here.", "ai")).tasks).toEqual([]);
+  });
+
+  it("answers transcription by filename", async () => {
+    const provider = new MockProvider({ transcriptions: [{ match: "standup", text: "Dana: I'll send the budget." }] });
+    expect(await provider.transcribe(Buffer.from(""), "standup-monday.mp3")).toEqual({ text: "Dana: I'll send the budget." });
+    expect(await provider.transcribe(Buffer.from(""), "other.mp3")).toEqual({ text: "Mock transcript for other.mp3" });
+  });
+});
+
+describe("extraction from an untrusted provider", () => {
+  // What a model might answer when it ignores the requested format
+  const provider: AiProvider = {
+    name: "sloppy",
+    extractTasks: async () => [
+      null,
+      "Send the budget",
+      { description: "Send the budget", assignee: 42, deadline: null, priority: 1, quote: 7, confidence: "high" },
+      { description: ["Book", "the room"], assignee: "Lee", deadline: "Monday", priority: "p1" },
+    ] as unknown as ExtractedTask[],
+    transcribe: async () => ({ text: "" }),
+  };
+
+  it("drops entries that are not tasks and keeps text fields as strings", async () => {
+    setAiProvider(provider);
+    const { tasks } = await extractTasks(transcript, "ai");
+    expect(tasks).toEqual([
+      { description: "Send the budget", assignee: "42", deadline: "", priority: "1", quote: undefined, confidence: undefined },
+      { description: "", assignee: "Lee", deadline: "Monday", priority: "p1", quote: undefined, confidence: undefined },
+    ]);
+  });
+
+  it("gives the scorer tasks it can score without throwing", async () => {
+    setAiProvider(provider);
+    const { tasks } = await extractTasks(transcript, "ai");
+    expect(tasks.map(scoreExtractedTask)).toEqual([
+      {
+        description: "Send the budget",
+        assignee: "42",
+        deadline: "Unknown",
+        priority: "P3",
+        confidence: { description: 0.7, assignee: 0.7, deadline: 0, priority: 0 },
+      },
+      {
+        description: "Unknown",
+        assignee: "Lee",
+        deadline: "Monday",
+        priority: "P1",
+        confidence: { description: 0, assignee: 0.7, deadline: 0.7, priority: 0.7 },
+      },
+    ]);
+  });
+});
+
+describe("OpenAIProvider", () => {
+  it("does not write the model's response to the log", async () => {
+    const content = JSON.stringify({ tasks: fixtures.extractions[0].tasks });
+    const server = http.createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "test-model",
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }],
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    try {
+      const provider = new OpenAIProvider({
+        apiKey: "test-key",
+        baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+        model: "test-model",
+        transcriptionModel: "test-transcriber",
+      });
+      expect(await provider.extractTasks(transcript)).toEqual(fixtures.extractions[0].tasks);
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
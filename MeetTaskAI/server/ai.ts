@@ -0,0 +1,247 @@
+import { OpenAIProvider } from "./openai";
+import { MockProvider } from "./mock-provider";
+import { HeuristicExtractor } from "./heuristic-extractor";
+import { prepareAudioForTranscription } from "./audio";
+import { chunkTranscript, getChunkingOptions, mergeChunkTasks, type ChunkProgress } from "./chunking";
+import type { ExtractionEngine, ExtractionMode, TaskConfidenceField, TranscriptSegment } from "@shared/schema";
+
+export interface ExtractedTask {
+  description: string;
+  assignee: string;
+  deadline: string;
+  priority: string;
+  // Verbatim sentence the task was taken from; verified against the transcript before it is stored
+  quote?: string;
+  // How sure the extractor is of each field, from 0 to 1
+  confidence?: Partial<Record<TaskConfidenceField, number>>;
+}
+
+export interface TaskExtractor {
+  extractTasks(transcript: string): Promise<ExtractedTask[]>;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Timed segments relative to the start of the submitted file, when the provider returns them
+  segments?: TranscriptSegment[];
+}
+
+export interface Transcriber {
+  transcribe(audio: Buffer, filename: string): Promise<TranscriptionResult>;
+}
+
+export interface Transcription {
+  text: string;
+  // Timed against the whole recording, even when it was transcribed in pieces
+  segments: TranscriptSegment[];
+}
+
+export interface ExtractionResult {
+  tasks: ExtractedTask[];
+  engine: ExtractionEngine;
+  // Set when auto mode had to fall back to the rule-based extractor
+  fallbackReason?: string;
+  // How many prompts the transcript was split across
+  chunks: number;
+}
+
+export interface ExtractionOptions {
+  onProgress?: (progress: ChunkProgress) => void;
+  // Stops between chunks; a cancelled extraction never falls back to the rule-based extractor
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionProgress {
+  // Pieces transcribed so far; reported as 0 once the audio has been prepared
+  segment: number;
+  totalSegments: number;
+}
+
+export interface TranscriptionOptions {
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type AiProvider = TaskExtractor & Transcriber & { readonly name: string };
+
+export const aiProviderNames = ["openai", "openai-compatible", "mock"] as const;
+export type AiProviderName = typeof aiProviderNames[number];
+
+export interface AiConfig {
+  provider: AiProviderName;
+  apiKey?: string;
+  // Any OpenAI-compatible endpoint, e.g. a local Ollama or llama.cpp server
+  baseURL?: string;
+  model: string;
+  transcriptionModel: string;
+  // JSON file of canned responses for the mock provider
+  mockFixturesPath?: string;
+}
+
+export function loadAiConfig(env: NodeJS.ProcessEnv = process.env): AiConfig {
+  const provider = (env.AI_PROVIDER || "openai") as AiProviderName;
+  if (!aiProviderNames.includes(provider)) {
+    throw new Error(`Unknown AI_PROVIDER "${provider}". Expected one of: ${aiProviderNames.join(", ")}`);
+  }
+
+  return {
+    provider,
+    apiKey: env.OPENAI_API_KEY,
+    baseURL: env.OPENAI_BASE_URL,
+    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    model: env.AI_MODEL || "gpt-4o",
+    transcriptionModel: env.AI_TRANSCRIPTION_MODEL || "whisper-1",
+    mockFixturesPath: env.AI_MOCK_FIXTURES,
+  };
+}
+
+export function createAiProvider(config: AiConfig): AiProvider {
+  switch (config.provider) {
+    case "mock":
+      return MockProvider.fromFile(config.mockFixturesPath);
+    case "openai-compatible":
+      if (!config.baseURL) {
+        throw new Error("OPENAI_BASE_URL is required for the openai-compatible provider");
+      }
+      // Local servers usually ignore the key, but the client library insists on one
+      return new OpenAIProvider({ ...config, apiKey: config.apiKey || "not-needed" });
+    case "openai":
+    default:
+      return new OpenAIProvider(config);
+  }
+}
+
+let activeProvider: AiProvider | undefined;
+
+// Built on first use so the server can start without AI credentials
+export function getAiProvider(): AiProvider {
+  if (!activeProvider) {
+    activeProvider = createAiProvider(loadAiConfig());
+  }
+  return activeProvider;
+}
+
+// Lets tests swap in a provider without touching the environment
+export function setAiProvider(provider: AiProvider | undefined): void {
+  activeProvider = provider;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A model may answer `"priority": 1`; numbers are kept as text, anything else counts as missing
+function textField(value: unknown): string {
+  return typeof value === "string" ? value : typeof value === "number" ? String(value) : "";
+}
+
+// Long transcripts are extracted chunk by chunk and the results merged, so nothing is truncated
+export async function extractTasksFromTranscript(
+  transcript: string,
+  options: ExtractionOptions = {},
+): Promise<ExtractedTask[]> {
+  try {
+    const provider = getAiProvider();
+    const chunks = chunkTranscript(transcript, getChunkingOptions());
+    const results: ExtractedTask[][] = [];
+
+    for (const chunk of chunks) {
+      if (options.signal?.aborted) {
+        throw new Error("Extraction was cancelled");
+      }
+      // Providers hand back whatever the model wrote, so nothing about its shape is trusted
+      const tasks: unknown[] = await provider.extractTasks(chunk.text);
+      results.push(tasks.filter(isRecord).map((task) => ({
+        description: textField(task.description),
+        assignee: textField(task.assignee),
+        deadline: textField(task.deadline),
+        priority: textField(task.priority) || "P3",
+        quote: typeof task.quote === "string" ? task.quote : undefined,
+        confidence: isRecord(task.confidence) ? (task.confidence as ExtractedTask["confidence"]) : undefined,
+      })));
+
+      options.onProgress?.({ chunk: chunk.index + 1, totalChunks: chunks.length });
+    }
+
+    return chunks.length === 1 ? results[0] : mergeChunkTasks(results);
+  } catch (error) {
+    console.error("Error extracting tasks from transcript:", error);
+    throw new Error("Failed to process transcript with AI: " + (error as Error).message);
+  }
+}
+
+const heuristicExtractor = new HeuristicExtractor();
+
+export async function extractTasks(
+  transcript: string,
+  mode: ExtractionMode = "auto",
+  options: ExtractionOptions = {},
+): Promise<ExtractionResult> {
+  if (mode === "heuristic") {
+    return { tasks: await heuristicExtractor.extractTasks(transcript), engine: "heuristic", chunks: 1 };
+  }
+
+  try {
+    let chunks = 1;
+    const tasks = await extractTasksFromTranscript(transcript, {
+      onProgress: (progress) => {
+        chunks = progress.totalChunks;
+        options.onProgress?.(progress);
+      },
+      signal: options.signal,
+    });
+    return { tasks, engine: "ai", chunks };
+  } catch (error) {
+    if (mode === "ai" || options.signal?.aborted) {
+      throw error;
+    }
+    console.warn("AI extraction failed, falling back to rule-based extraction:", (error as Error).message);
+    return {
+      tasks: await heuristicExtractor.extractTasks(transcript),
+      engine: "heuristic",
+      fallbackReason: (error as Error).message,
+      chunks: 1,
+    };
+  }
+}
+
+export async function transcribeAudio(
+  audioBuffer: Buffer,
+  filename: string,
+  options: TranscriptionOptions = {},
+): Promise<Transcription> {
+  try {
+    // Video and oversized recordings are downmixed and split to fit the upload limit
+    const pieces = await prepareAudioForTranscription(audioBuffer, filename, options.signal);
+    options.onProgress?.({ segment: 0, totalSegments: pieces.length });
+    const provider = getAiProvider();
+    const texts: string[] = [];
+    const segments: TranscriptSegment[] = [];
+
+    for (let index = 0; index < pieces.length; index++) {
+      if (options.signal?.aborted) {
+        throw new Error("Transcription was cancelled");
+      }
+      const piece = pieces[index];
+      const result = await provider.transcribe(piece.buffer, piece.filename);
+      texts.push(result.text.trim());
+
+      const pieceSegments = result.segments?.length
+        ? result.segments
+        : [{ start: 0, end: piece.duration ?? 0, text: result.text }];
+      for (const segment of pieceSegments) {
+        segments.push({
+          start: segment.start + piece.offset,
+          end: segment.end + piece.offset,
+          text: segment.text.trim(),
+        });
+      }
+      options.onProgress?.({ segment: index + 1, totalSegments: pieces.length });
+    }
+
+    return { text: texts.filter(Boolean).join("\n"), segments };
+  } catch (error) {
+    console.error("Error transcribing audio:", error);
+    throw new Error("Failed to transcribe audio: " + (error as Error).message);
+  }
+}
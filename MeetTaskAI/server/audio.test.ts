@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { planSegments } from "./audio";
+
+describe("planSegments", () => {
+  it("keeps a recording that fits in one segment whole", () => {
+    expect(planSegments(30, [10, 20], 40)).toEqual([[0, 30]]);
+  });
+
+  it("cuts at the last pause in each window and ignores pauses in its first half", () => {
+    expect(planSegments(100, [10, 25, 28, 50, 70, 95], 40)).toEqual([
+      [0, 28],
+      [28, 50],
+      [50, 90],
+      [90, 100],
+    ]);
+  });
+
+  it("caps segment length with hard cuts when there is no silence", () => {
+    const ranges = planSegments(100, [], 30);
+    expect(ranges).toEqual([
+      [0, 30],
+      [30, 60],
+      [60, 90],
+      [90, 100],
+    ]);
+    for (const [start, end] of ranges) {
+      expect(end - start).toBeLessThanOrEqual(30);
+    }
+  });
+
+  it("starts each segment where the previous one ended, so its start is the timestamp offset", () => {
+    const ranges = planSegments(3600, [400, 1150, 1190, 2300, 3100], 1200);
+    expect(ranges[0][0]).toBe(0);
+    expect(ranges[ranges.length - 1][1]).toBe(3600);
+    for (let index = 1; index < ranges.length; index++) {
+      expect(ranges[index][0]).toBe(ranges[index - 1][1]);
+    }
+    expect(ranges.map(([start]) => start)).toEqual([0, 1190, 2300, 3100]);
+  });
+});
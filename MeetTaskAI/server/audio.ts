@@ -0,0 +1,177 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+
+const VIDEO_EXTENSIONS = /\.(mp4|avi|mov|webm)$/i;
+
+// Whisper rejects uploads over 25 MB; leave headroom for container overhead
+export const TRANSCRIPTION_MAX_BYTES = 24 * 1024 * 1024;
+
+export interface AudioSegment {
+  buffer: Buffer;
+  filename: string;
+  // Where the segment starts in the original recording, in seconds
+  offset: number;
+  // Length in seconds, when ffmpeg measured it
+  duration?: number;
+}
+
+export function isVideoFile(filename: string): boolean {
+  return VIDEO_EXTENSIONS.test(filename);
+}
+
+// Name of the MP3 produced for an upload once ffmpeg has re-encoded it
+export function toAudioFilename(filename: string): string {
+  return filename.replace(VIDEO_EXTENSIONS, '.mp3').replace(/\.(wav|m4a)$/i, '.mp3');
+}
+
+// Runs ffmpeg and resolves with its stderr, which carries the log and any filter output.
+// Aborting the signal kills the process.
+function runFfmpeg(args: string[], signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-hide_banner', ...args], { signal });
+
+    let stderr = '';
+
+    ffmpeg.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve(stderr);
+      } else {
+        reject(new Error(`FFmpeg process failed with code ${code}. Error: ${stderr}`));
+      }
+    });
+
+    ffmpeg.on('error', (error) => {
+      console.error('FFmpeg spawn error:', error);
+      reject(new Error(`FFmpeg execution error: ${error.message}`));
+    });
+  });
+}
+
+// Strips any video track and downmixes to mono speech-quality MP3, about 29 MB per hour
+async function extractSpeechAudio(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+  await runFfmpeg([
+    '-i', inputPath,
+    '-vn', // No video
+    '-ac', '1', // Mono is all speech recognition needs
+    '-ar', '16000',
+    '-acodec', 'libmp3lame', // Use libmp3lame for MP3 encoding
+    '-ab', '64k',
+    '-y', // Overwrite output file
+    outputPath
+  ], signal);
+}
+
+// Returns the recording length and the midpoint of every pause long enough to cut at
+async function detectSilences(audioPath: string, signal?: AbortSignal): Promise<{ duration: number; silences: number[] }> {
+  const stderr = await runFfmpeg([
+    '-i', audioPath,
+    '-af', 'silencedetect=noise=-35dB:d=0.6',
+    '-f', 'null',
+    '-'
+  ], signal);
+
+  const durationMatch = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const duration = durationMatch
+    ? parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3])
+    : 0;
+
+  const silences: number[] = [];
+  const pattern = /silence_start: (-?\d+(?:\.\d+)?)[\s\S]*?silence_end: (\d+(?:\.\d+)?)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(stderr)) !== null) {
+    silences.push((Math.max(0, parseFloat(match[1])) + parseFloat(match[2])) / 2);
+  }
+
+  return { duration, silences };
+}
+
+/**
+ * Chooses [start, end] ranges no longer than maxSeconds, cutting at the last
+ * pause in each window so words are not split. Falls back to a hard cut when
+ * a window has no pause in its second half.
+ */
+export function planSegments(duration: number, silences: number[], maxSeconds: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  let start = 0;
+
+  while (duration - start > maxSeconds) {
+    const limit = start + maxSeconds;
+    const pauses = silences.filter((point) => point > start + maxSeconds / 2 && point <= limit);
+    const cut = pauses.length > 0 ? pauses[pauses.length - 1] : limit;
+    ranges.push([start, cut]);
+    start = cut;
+  }
+  ranges.push([start, duration]);
+
+  return ranges;
+}
+
+/**
+ * Turns an upload into one or more audio files small enough for the
+ * transcription API. Small audio files pass through untouched; video and
+ * large recordings are downmixed to mono and, if still too big, split on
+ * silence. Segments come back in playback order with their time offsets.
+ */
+export async function prepareAudioForTranscription(
+  buffer: Buffer,
+  filename: string,
+  signal?: AbortSignal,
+): Promise<AudioSegment[]> {
+  if (!isVideoFile(filename) && buffer.length <= TRANSCRIPTION_MAX_BYTES) {
+    return [{ buffer, filename, offset: 0 }];
+  }
+
+  const workDir = fs.mkdtempSync(path.join('/tmp', 'meettask-'));
+  const inputPath = path.join(workDir, `input${path.extname(filename)}`);
+  const audioPath = path.join(workDir, 'audio.mp3');
+  const audioFilename = toAudioFilename(filename);
+
+  try {
+    fs.writeFileSync(inputPath, buffer);
+    await extractSpeechAudio(inputPath, audioPath, signal);
+
+    const audioSize = fs.statSync(audioPath).size;
+
+    if (audioSize <= TRANSCRIPTION_MAX_BYTES) {
+      return [{ buffer: fs.readFileSync(audioPath), filename: audioFilename, offset: 0 }];
+    }
+
+    const { duration, silences } = await detectSilences(audioPath, signal);
+    if (!duration) {
+      throw new Error('Could not determine the recording length to split it');
+    }
+
+    // Constant bitrate, so size scales with length; keep a margin for frame padding
+    const maxSeconds = (TRANSCRIPTION_MAX_BYTES / audioSize) * duration * 0.95;
+    const ranges = planSegments(duration, silences, maxSeconds);
+
+    const segments: AudioSegment[] = [];
+    for (let index = 0; index < ranges.length; index++) {
+      const [start, end] = ranges[index];
+      const segmentPath = path.join(workDir, `segment_${index}.mp3`);
+      await runFfmpeg([
+        '-ss', start.toFixed(3),
+        '-t', (end - start).toFixed(3),
+        '-i', audioPath,
+        '-acodec', 'copy',
+        '-y',
+        segmentPath
+      ], signal);
+      segments.push({
+        buffer: fs.readFileSync(segmentPath),
+        filename: audioFilename.replace(/\.mp3$/i, `_part${index + 1}.mp3`),
+        offset: start,
+        duration: end - start,
+      });
+    }
+
+    return segments;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
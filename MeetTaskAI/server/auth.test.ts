@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, TestClient, type TestServer } from "./test-utils";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+const password = "correct horse battery";
+
+describe("POST /api/auth/register", () => {
+  it("creates the account, signs it in and never returns the password", async () => {
+    const client = new TestClient(server.url);
+    const response = await client.request("POST", "/api/auth/register", { username: "  newcomer ", password });
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ id: expect.any(Number), username: "newcomer" });
+
+    const me = await client.request("GET", "/api/auth/me");
+    expect(me.status).toBe(200);
+    expect(me.body).toEqual(response.body);
+  });
+
+  it("answers 409 for a username that is taken", async () => {
+    await server.signUp("taken");
+    const response = await new TestClient(server.url).request("POST", "/api/auth/register", { username: "taken", password });
+    expect(response.status).toBe(409);
+  });
+
+  it("answers 400 with field errors for a short username or password", async () => {
+    const response = await new TestClient(server.url).request("POST", "/api/auth/register", { username: "ab", password: "short" });
+    expect(response.status).toBe(400);
+    expect(Object.keys(response.body.errors).sort()).toEqual(["password", "username"]);
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  beforeAll(async () => {
+    await server.signUp("returning");
+  });
+
+  it("signs in with the right password", async () => {
+    const client = new TestClient(server.url);
+    const response = await client.request("POST", "/api/auth/login", { username: "returning", password });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: expect.any(Number), username: "returning" });
+    expect((await client.request("GET", "/api/tasks")).status).toBe(200);
+  });
+
+  it("answers 401 for a wrong password or an unknown user, without saying which", async () => {
+    const wrongPassword = await new TestClient(server.url).request("POST", "/api/auth/login", { username: "returning", password: "not the password" });
+    const unknownUser = await new TestClient(server.url).request("POST", "/api/auth/login", { username: "nobody", password });
+    expect(wrongPassword.status).toBe(401);
+    expect(unknownUser.status).toBe(401);
+    expect(wrongPassword.body).toEqual(unknownUser.body);
+  });
+});
+
+describe("POST /api/auth/logout", () => {
+  it("ends the session so its cookie no longer works", async () => {
+    await server.signUp("leaving");
+    const login = await fetch(`${server.url}/api/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: "leaving", password }),
+    });
+    const cookie = login.headers.get("set-cookie")!.split(";")[0];
+    const client = new TestClient(server.url, cookie);
+    expect((await client.request("GET", "/api/auth/me")).status).toBe(200);
+
+    expect((await client.request("POST", "/api/auth/logout")).status).toBe(204);
+    expect((await client.request("GET", "/api/auth/me")).status).toBe(401);
+    // Replaying the old cookie does not bring the session back
+    expect((await new TestClient(server.url, cookie).request("GET", "/api/tasks")).status).toBe(401);
+  });
+});
+
+describe("unauthenticated requests", () => {
+  it.each([
+    ["GET", "/api/auth/me"],
+    ["GET", "/api/tasks"],
+    ["GET", "/api/tasks/export"],
+    ["POST", "/api/tasks/bulk"],
+    ["DELETE", "/api/tasks"],
+    ["GET", "/api/meetings"],
+    ["POST", "/api/process-transcript"],
+    ["POST", "/api/process-audio"],
+    ["GET", "/api/jobs/some-job"],
+    ["GET", "/api/workspaces"],
+    ["GET", "/api/calendar-feeds"],
+  ])("%s %s answers 401", async (method, path) => {
+    expect((await new TestClient(server.url).request(method, path)).status).toBe(401);
+  });
+});
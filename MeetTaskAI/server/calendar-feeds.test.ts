@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, TestClient, type TestServer } from "./test-utils";
+import type { CalendarFeed } from "@shared/schema";
+
+let server: TestServer;
+let owner: TestClient;
+let member: TestClient;
+let memberId: number;
+let workspaceId: number;
+
+// Feeds are read by calendar apps, which carry no session cookie
+const calendarApp = () => new TestClient(server.url);
+
+async function fetchFeed(token: string) {
+  const file = await calendarApp().download(`/api/calendar/${token}.ics`);
+  return { status: file.status, contentType: file.contentType, body: file.body.toString("utf8") };
+}
+
+async function createFeed(client: TestClient, assignee?: string): Promise<CalendarFeed & { url: string }> {
+  const response = await client.request("POST", "/api/calendar-feeds", assignee ? { assignee } : {});
+  expect(response.status).toBe(201);
+  return response.body;
+}
+
+beforeAll(async () => {
+  server = await startTestServer();
+  owner = await server.signUp("feed-owner");
+  member = await server.signUp("feed-member");
+
+  await owner.request("POST", "/api/tasks/bulk-create", {
+    tasks: [{ description: "Personal dentist visit", assignee: "Dana", deadlineText: "2030-01-10", priority: "P3" }],
+  });
+
+  const workspace = await owner.request("POST", "/api/workspaces", { name: "Ops" });
+  workspaceId = workspace.body.id;
+  const invited = await owner.request("POST", `/api/workspaces/${workspaceId}/members`, { username: "feed-member", role: "viewer" });
+  memberId = invited.body.userId;
+
+  await owner.request("POST", "/api/workspaces/select", { workspaceId });
+  await member.request("POST", "/api/workspaces/select", { workspaceId });
+  const created = await owner.request("POST", "/api/tasks/bulk-create", {
+    tasks: [
+      { description: "Send the budget", assignee: "Dana", deadlineText: "2030-01-15", priority: "P1" },
+      { description: "Book the room", assignee: "Lee", deadlineText: "2030-01-16", priority: "P2" },
+      { description: "Think about hiring", assignee: "Dana", deadlineText: "", priority: "P3" },
+    ],
+  });
+  expect(created.status).toBe(201);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("GET /api/calendar/:token.ics", () => {
+  it("serves only the workspace's tasks that have a due date", async () => {
+    const feed = await createFeed(owner);
+    expect(feed.url).toBe(`${server.url}/api/calendar/${feed.token}.ics`);
+
+    const calendar = await fetchFeed(feed.token);
+    expect(calendar.status).toBe(200);
+    expect(calendar.contentType).toContain("text/calendar");
+    expect(calendar.body).toContain("SUMMARY:Send the budget");
+    expect(calendar.body).toContain("SUMMARY:Book the room");
+    expect(calendar.body).not.toContain("Think about hiring");
+    expect(calendar.body).not.toContain("Personal dentist visit");
+  });
+
+  it("serves only one assignee's tasks when the feed names one", async () => {
+    const feed = await createFeed(member, "dana");
+
+    const calendar = await fetchFeed(feed.token);
+    expect(calendar.status).toBe(200);
+    expect(calendar.body).toContain("X-WR-CALNAME:Tasks for dana");
+    expect(calendar.body).toContain("SUMMARY:Send the budget");
+    expect(calendar.body).not.toContain("Book the room");
+  });
+
+  it("answers 404 once the feed is revoked", async () => {
+    const feed = await createFeed(owner);
+    expect((await owner.request("DELETE", `/api/calendar-feeds/${feed.id}`)).status).toBe(200);
+    expect((await fetchFeed(feed.token)).status).toBe(404);
+  });
+
+  it("only lets the creator revoke a feed", async () => {
+    const feed = await createFeed(owner);
+    expect((await member.request("DELETE", `/api/calendar-feeds/${feed.id}`)).status).toBe(404);
+    expect((await fetchFeed(feed.token)).status).toBe(200);
+  });
+
+  it("answers 404 for a token it never issued", async () => {
+    expect((await fetchFeed("not-a-feed-token")).status).toBe(404);
+  });
+
+  it("is not a credential for any other route", async () => {
+    const feed = await createFeed(owner);
+    const app = calendarApp();
+
+    expect((await app.request("GET", `/api/tasks?token=${feed.token}`)).status).toBe(401);
+    expect((await app.download(`/api/tasks/export?format=ics&token=${feed.token}`)).status).toBe(401);
+    expect((await app.request("GET", `/api/calendar-feeds?token=${feed.token}`)).status).toBe(401);
+    const withHeader = await fetch(`${server.url}/api/tasks`, { headers: { Authorization: `Bearer ${feed.token}` } });
+    expect(withHeader.status).toBe(401);
+  });
+
+  it("answers 404 once the feed's creator leaves the workspace", async () => {
+    const feed = await createFeed(member);
+    expect((await fetchFeed(feed.token)).status).toBe(200);
+
+    expect((await owner.request("DELETE", `/api/workspaces/${workspaceId}/members/${memberId}`)).status).toBe(200);
+    expect((await fetchFeed(feed.token)).status).toBe(404);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Express, Request } from "express";
+import { randomBytes } from "crypto";
+import { storage, findAllTasks, type DataScope } from "./storage";
+import { requireAuth } from "./auth";
+import { resolveScope, currentScope } from "./workspaces";
+import { toICalendar } from "./export";
+import { insertCalendarFeedSchema, type CalendarFeed } from "@shared/schema";
+
+// Calendar apps poll subscriptions on their own schedule; this is the interval we ask for
+const FEED_REFRESH_MINUTES = 30;
+
+function newFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// The address to paste into a calendar app, on the host the request came in on
+function withUrl(req: Request, feed: CalendarFeed) {
+  return { ...feed, url: `${req.protocol}://${req.get("host")}/api/calendar/${feed.token}.ics` };
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+export function registerCalendarFeedRoutes(app: Express) {
+  app.use("/api/calendar-feeds", requireAuth, resolveScope);
+
+  // The caller's feeds for the current workspace
+  app.get("/api/calendar-feeds", async (req, res) => {
+    try {
+      const feeds = await storage.getCalendarFeeds(currentScope(res));
+      res.json(feeds.map((feed) => withUrl(req, feed)));
+    } catch (error) {
+      console.error("Error fetching calendar feeds:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feeds" });
+    }
+  });
+
+  // Create a feed of the current workspace's tasks, optionally for one assignee.
+  // Viewers may create one too: a feed only reads
+  app.post("/api/calendar-feeds", async (req, res) => {
+    try {
+      const result = insertCalendarFeedSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid calendar feed", errors: result.error.flatten().fieldErrors });
+      }
+
+      const feed = await storage.createCalendarFeed(currentScope(res), newFeedToken(), result.data.assignee ?? null);
+      res.status(201).json(withUrl(req, feed));
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  // Revoke a feed; apps subscribed to it stop getting updates
+  app.delete("/api/calendar-feeds/:id", async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid calendar feed ID" });
+      }
+
+      const deleted = await storage.deleteCalendarFeed(currentScope(res), id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      res.json({ message: "Calendar feed deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting calendar feed:", error);
+      res.status(500).json({ message: "Failed to delete calendar feed" });
+    }
+  });
+
+  // The feed itself. Calendar apps cannot log in, so the token in the URL is the only
+  // credential. Each task with a due date keeps the same UIDs on every fetch, and its
+  // SEQUENCE follows the task's version, so an edited task replaces its old entry
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      // A feed stops working once its creator leaves the workspace it shows
+      if (!feed || (feed.workspaceId !== null && !(await storage.getMembership(feed.workspaceId, feed.ownerId)))) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const scope: DataScope = { ownerId: feed.ownerId, workspaceId: feed.workspaceId };
+      const tasks = await findAllTasks(scope, { assignee: feed.assignee ?? undefined, sort: "dueAt", order: "asc" });
+      const calendar = toICalendar(
+        tasks.filter((task) => task.dueAt !== null),
+        { name: feed.assignee ? `Tasks for ${feed.assignee}` : "Tasks", refreshMinutes: FEED_REFRESH_MINUTES },
+      );
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, no-cache");
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error serving calendar feed:", error);
+      res.status(500).json({ message: "Failed to load calendar feed" });
+    }
+  });
+}
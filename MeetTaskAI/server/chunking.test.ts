@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { chunkTranscript, estimateTokens, getChunkingOptions, mergeChunkTasks } from "./chunking";
+import type { ExtractedTask } from "./ai";
+
+const transcript = Array.from({ length: 40 }, (_, index) => `Sentence ${index + 1} is about the budget.`).join(" ");
+
+function task(overrides: Partial<ExtractedTask>): ExtractedTask {
+  return { description: "Send the budget", assignee: "Dana", deadline: "by Friday", priority: "P2", ...overrides };
+}
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("chunkTranscript", () => {
+  it("passes a transcript that fits straight through as one chunk", () => {
+    expect(chunkTranscript("Dana sends the budget.", { maxTokens: 100, overlapTokens: 10 })).toEqual([
+      { index: 0, text: "Dana sends the budget.", start: 0, end: 22 },
+    ]);
+  });
+
+  it("cuts on sentence boundaries, keeps each chunk within the limit and covers the whole transcript", () => {
+    const chunks = chunkTranscript(transcript, { maxTokens: 100, overlapTokens: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(100);
+      expect(chunk.text).toBe(transcript.slice(chunk.start, chunk.end));
+      // Every chunk starts on a sentence
+      expect(chunk.text.startsWith("Sentence ")).toBe(true);
+    }
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(transcript.length);
+    // Without overlap each chunk starts where the previous one ended
+    for (let index = 1; index < chunks.length; index++) {
+      expect(chunks[index].start).toBe(chunks[index - 1].end);
+    }
+  });
+
+  it("repeats the tail of the previous chunk as overlap", () => {
+    const chunks = chunkTranscript(transcript, { maxTokens: 100, overlapTokens: 20 });
+    for (let index = 1; index < chunks.length; index++) {
+      const overlap = chunks[index - 1].end - chunks[index].start;
+      expect(overlap).toBeGreaterThan(0);
+      expect(overlap).toBeLessThanOrEqual(20 * 4);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(transcript.length);
+  });
+
+  it("cuts a sentence longer than a chunk by length", () => {
+    const chunks = chunkTranscript("x".repeat(1000), { maxTokens: 100, overlapTokens: 0 });
+    expect(chunks.map((chunk) => chunk.text.length)).toEqual([400, 400, 200]);
+  });
+});
+
+describe("mergeChunkTasks", () => {
+  it("keeps one copy of a task extracted from two chunks, taking the fuller details", () => {
+    const merged = mergeChunkTasks([
+      [task({ deadline: "", priority: "P3", quote: "Dana sends the budget" })],
+      [task({ description: "Send the revised budget", priority: "P1" }), task({ description: "Book the room", assignee: "Lee" })],
+    ]);
+    expect(merged).toEqual([
+      {
+        description: "Send the revised budget",
+        assignee: "Dana",
+        deadline: "by Friday",
+        priority: "P1",
+        quote: "Dana sends the budget",
+        confidence: undefined,
+      },
+      task({ description: "Book the room", assignee: "Lee" }),
+    ]);
+  });
+
+  it("keeps tasks that only look alike but belong to different people", () => {
+    expect(mergeChunkTasks([[task({})], [task({ assignee: "Lee" })]])).toHaveLength(2);
+  });
+});
+
+describe("getChunkingOptions", () => {
+  it("reads the limits from the environment", () => {
+    expect(getChunkingOptions({ AI_CHUNK_TOKENS: "2000", AI_CHUNK_OVERLAP_TOKENS: "0" })).toEqual({ maxTokens: 2000, overlapTokens: 0 });
+  });
+
+  it("falls back to the defaults for missing or bad values", () => {
+    const defaults = { maxTokens: 6000, overlapTokens: 300 };
+    expect(getChunkingOptions({})).toEqual(defaults);
+    expect(getChunkingOptions({ AI_CHUNK_TOKENS: "lots", AI_CHUNK_OVERLAP_TOKENS: "" })).toEqual(defaults);
+    expect(getChunkingOptions({ AI_CHUNK_TOKENS: "-5", AI_CHUNK_OVERLAP_TOKENS: "-1" })).toEqual(defaults);
+    expect(getChunkingOptions({ AI_CHUNK_TOKENS: "0", AI_CHUNK_OVERLAP_TOKENS: "2.5" })).toEqual(defaults);
+  });
+
+  it("keeps the overlap to at most half a chunk", () => {
+    expect(getChunkingOptions({ AI_CHUNK_TOKENS: "100", AI_CHUNK_OVERLAP_TOKENS: "80" })).toEqual({ maxTokens: 100, overlapTokens: 50 });
+  });
+});
@@ -0,0 +1,172 @@
+import type { ExtractedTask } from "./ai";
+import { NO_DEADLINE } from "./deadline";
+
+export interface ChunkingOptions {
+  // Upper bound on the transcript tokens sent in a single prompt
+  maxTokens: number;
+  // Tokens repeated at the start of each chunk so tasks spanning a boundary are seen whole
+  overlapTokens: number;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  // Character offsets of the chunk within the full transcript
+  start: number;
+  end: number;
+}
+
+export interface ChunkProgress {
+  chunk: number;
+  totalChunks: number;
+}
+
+// Roughly four characters per token for English text; close enough to stay under the context window
+const CHARS_PER_TOKEN = 4;
+
+const STOP_WORDS = new Set(["the", "a", "an", "to", "of", "for", "and", "on", "in", "with", "by", "up", "our", "their", "all"]);
+
+// A whole number of at least `min`, or the fallback for anything else, including "abc" and "-5"
+function envInteger(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export function getChunkingOptions(env: NodeJS.ProcessEnv = process.env): ChunkingOptions {
+  const maxTokens = envInteger(env.AI_CHUNK_TOKENS, 6000, 1);
+  const overlapTokens = envInteger(env.AI_CHUNK_OVERLAP_TOKENS, 300, 0);
+  return { maxTokens, overlapTokens: Math.min(overlapTokens, Math.floor(maxTokens / 2)) };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits a transcript into prompt-sized chunks on sentence boundaries. Each
+ * chunk after the first starts with the tail of the previous one so a task
+ * mentioned across the boundary appears intact in at least one chunk.
+ */
+export function chunkTranscript(transcript: string, options: ChunkingOptions): TranscriptChunk[] {
+  if (estimateTokens(transcript) <= options.maxTokens) {
+    return [{ index: 0, text: transcript, start: 0, end: transcript.length }];
+  }
+
+  const maxChars = options.maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = options.overlapTokens * CHARS_PER_TOKEN;
+  const sentences = splitIntoSpans(transcript, maxChars);
+  const chunks: TranscriptChunk[] = [];
+
+  let first = 0;
+  while (first < sentences.length) {
+    let last = first;
+    while (last + 1 < sentences.length && sentences[last + 1].end - sentences[first].start <= maxChars) {
+      last++;
+    }
+
+    const start = sentences[first].start;
+    const end = sentences[last].end;
+    chunks.push({ index: chunks.length, text: transcript.slice(start, end), start, end });
+
+    if (last === sentences.length - 1) {
+      break;
+    }
+
+    // Step back over trailing sentences to build the overlap, but always make progress
+    let next = last + 1;
+    while (next - 1 > first && end - sentences[next - 1].start <= overlapChars) {
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+// Sentence spans covering the whole transcript; sentences longer than a chunk are cut by length
+function splitIntoSpans(transcript: string, maxChars: number): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const boundary = /[.!?]+["')\]]*\s+|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (end: number) => {
+    for (let cursor = start; cursor < end; cursor += maxChars) {
+      spans.push({ start: cursor, end: Math.min(cursor + maxChars, end) });
+    }
+    start = end;
+  };
+
+  while ((match = boundary.exec(transcript)) !== null) {
+    push(match.index + match[0].length);
+  }
+  push(transcript.length);
+
+  return spans;
+}
+
+/**
+ * Combines per-chunk results, dropping tasks that were extracted twice
+ * because they sat in an overlap or were repeated later in the meeting.
+ */
+export function mergeChunkTasks(taskLists: ExtractedTask[][]): ExtractedTask[] {
+  const merged: ExtractedTask[] = [];
+
+  for (const task of taskLists.flat()) {
+    const duplicateIndex = merged.findIndex((existing) => isSameTask(existing, task));
+    if (duplicateIndex === -1) {
+      merged.push(task);
+    } else {
+      merged[duplicateIndex] = preferTask(merged[duplicateIndex], task);
+    }
+  }
+
+  return merged;
+}
+
+function isSameTask(a: ExtractedTask, b: ExtractedTask): boolean {
+  if (a.assignee.trim().toLowerCase() !== b.assignee.trim().toLowerCase()) {
+    return false;
+  }
+  return similarity(a.description, b.description) >= 0.6;
+}
+
+// Jaccard similarity over the meaningful words of two descriptions
+function similarity(a: string, b: string): number {
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      shared++;
+    }
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !STOP_WORDS.has(word)),
+  );
+}
+
+// Keeps the more informative of two copies of the same task
+function preferTask(a: ExtractedTask, b: ExtractedTask): ExtractedTask {
+  const hasDeadline = (task: ExtractedTask) => Boolean(task.deadline) && task.deadline !== NO_DEADLINE;
+  return {
+    description: b.description.length > a.description.length ? b.description : a.description,
+    assignee: a.assignee,
+    deadline: hasDeadline(a) || !hasDeadline(b) ? a.deadline : b.deadline,
+    // P1 sorts before P3, so the smaller label is the more urgent one
+    priority: a.priority <= b.priority ? a.priority : b.priority,
+    quote: a.quote || b.quote,
+    confidence: a.confidence || b.confidence,
+  };
+}
@@ -0,0 +1,52 @@
+import type { ExtractedTask } from "./ai";
+import { UNKNOWN_FIELD_VALUE, taskConfidenceFields, taskPriorities, type TaskConfidence, type TaskPriority } from "@shared/schema";
+
+// Assumed for a field the extractor filled in without scoring it
+const DEFAULT_FIELD_CONFIDENCE = 0.7;
+
+export interface ScoredTask {
+  description: string;
+  assignee: string;
+  deadline: string;
+  priority: string;
+  confidence: TaskConfidence;
+}
+
+/**
+ * Keeps partially extracted tasks instead of discarding them: a missing
+ * field becomes "Unknown" (P3 for priority) with zero confidence so the
+ * task lands in the review queue. Returns null only when nothing usable
+ * was extracted.
+ */
+export function scoreExtractedTask(task: ExtractedTask): ScoredTask | null {
+  const values = {
+    description: task.description.trim(),
+    assignee: task.assignee.trim(),
+    deadline: task.deadline.trim(),
+    priority: normalisePriority(task.priority),
+  };
+
+  if (!values.description && !values.assignee && !values.deadline) {
+    return null;
+  }
+
+  const confidence = {} as TaskConfidence;
+  for (const field of taskConfidenceFields) {
+    if (!values[field]) {
+      // Priority always needs a valid level, so it falls back to the default rather than "Unknown"
+      values[field] = field === "priority" ? "P3" : UNKNOWN_FIELD_VALUE;
+      confidence[field] = 0;
+      continue;
+    }
+    const score = Number(task.confidence?.[field]);
+    confidence[field] = Number.isFinite(score) ? Math.min(Math.max(score, 0), 1) : DEFAULT_FIELD_CONFIDENCE;
+  }
+
+  return { ...values, confidence };
+}
+
+// "p1" is accepted as P1; anything that is not a known level counts as missing
+function normalisePriority(priority: string): string {
+  const level = priority.trim().toUpperCase();
+  return taskPriorities.includes(level as TaskPriority) ? level : "";
+}
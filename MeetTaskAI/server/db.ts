@@ -0,0 +1,18 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Accepts any pg-compatible pool so a local Postgres container or a
+// pg-mem adapter can stand in for the DATABASE_URL connection.
+export function createDatabase(pool: pg.Pool): Database {
+  return drizzle(pool, { schema });
+}
+
+// Only connect when a database is configured; storage falls back to memory otherwise
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db = pool ? createDatabase(pool) : undefined;
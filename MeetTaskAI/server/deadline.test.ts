@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveDeadline, resolveDueDate, getDefaultTimeZone, isValidTimeZone } from "./deadline";
+
+// Wednesday, October 14 2026, 10:00 in New York
+const WEDNESDAY = new Date("2026-10-14T14:00:00Z");
+
+function resolve(phrase: string, referenceDate = WEDNESDAY, timeZone = "UTC") {
+  const { dueAt, ambiguous } = resolveDeadline(phrase, { referenceDate, timeZone });
+  return { dueAt: dueAt?.toISOString() ?? null, ambiguous };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveDeadline", () => {
+  describe("weekday names", () => {
+    it("resolves a weekday to the next one coming up, at the end of the day", () => {
+      expect(resolve("by Friday")).toEqual({ dueAt: "2026-10-16T23:59:00.000Z", ambiguous: false });
+      expect(resolve("Mon")).toEqual({ dueAt: "2026-10-19T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("flags today's weekday, which could mean today or a week from now", () => {
+      expect(resolve("Wednesday")).toEqual({ dueAt: "2026-10-14T23:59:00.000Z", ambiguous: true });
+      expect(resolve("this Wednesday")).toEqual({ dueAt: "2026-10-14T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("reads \"next X\" as that day of next week", () => {
+      // The upcoming Tuesday is already in next week, so there is only one reading
+      expect(resolve("next Tuesday")).toEqual({ dueAt: "2026-10-20T23:59:00.000Z", ambiguous: false });
+      // "next Friday" could be the day after tomorrow or the Friday after that
+      expect(resolve("next Friday")).toEqual({ dueAt: "2026-10-23T23:59:00.000Z", ambiguous: true });
+      expect(resolve("next Wednesday")).toEqual({ dueAt: "2026-10-21T23:59:00.000Z", ambiguous: true });
+    });
+
+    it("uses the time of day when one is given", () => {
+      expect(resolve("Thursday at 3pm")).toEqual({ dueAt: "2026-10-15T15:00:00.000Z", ambiguous: false });
+      expect(resolve("Friday morning")).toEqual({ dueAt: "2026-10-16T09:00:00.000Z", ambiguous: false });
+    });
+  });
+
+  describe("end of day and end of week", () => {
+    it("reads EOD as the close of business today", () => {
+      expect(resolve("EOD")).toEqual({ dueAt: "2026-10-14T17:00:00.000Z", ambiguous: false });
+      expect(resolve("close of business")).toEqual({ dueAt: "2026-10-14T17:00:00.000Z", ambiguous: false });
+    });
+
+    it("moves EOD to the named day", () => {
+      expect(resolve("EOD tomorrow")).toEqual({ dueAt: "2026-10-15T17:00:00.000Z", ambiguous: false });
+      expect(resolve("EOD Friday")).toEqual({ dueAt: "2026-10-16T17:00:00.000Z", ambiguous: false });
+    });
+
+    it("reads EOW as Friday at the close of business", () => {
+      expect(resolve("EOW")).toEqual({ dueAt: "2026-10-16T17:00:00.000Z", ambiguous: false });
+      expect(resolve("end of next week")).toEqual({ dueAt: "2026-10-23T17:00:00.000Z", ambiguous: false });
+    });
+
+    it("flags EOW said over the weekend", () => {
+      const saturday = new Date("2026-10-17T12:00:00Z");
+      expect(resolve("end of the week", saturday)).toEqual({ dueAt: "2026-10-23T17:00:00.000Z", ambiguous: true });
+    });
+
+    it("reads a bare time as the next time the clock shows it", () => {
+      expect(resolve("by 5pm")).toEqual({ dueAt: "2026-10-14T17:00:00.000Z", ambiguous: false });
+      expect(resolve("by 9am")).toEqual({ dueAt: "2026-10-15T09:00:00.000Z", ambiguous: false });
+    });
+  });
+
+  describe("numeric and written dates", () => {
+    it("reads ISO dates as given", () => {
+      expect(resolve("2026-11-02")).toEqual({ dueAt: "2026-11-02T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("reads slashed dates month first", () => {
+      expect(resolve("10/20")).toEqual({ dueAt: "2026-10-20T23:59:00.000Z", ambiguous: false });
+      expect(resolve("11/30/2026")).toEqual({ dueAt: "2026-11-30T23:59:00.000Z", ambiguous: false });
+      expect(resolve("12/1/27")).toEqual({ dueAt: "2027-12-01T23:59:00.000Z", ambiguous: true });
+    });
+
+    it("falls back to day first when month first is impossible", () => {
+      expect(resolve("25/10")).toEqual({ dueAt: "2026-10-25T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("flags dates that read differently month first and day first", () => {
+      expect(resolve("11/12")).toEqual({ dueAt: "2026-11-12T23:59:00.000Z", ambiguous: true });
+      // The same number twice reads the same either way
+      expect(resolve("11/11")).toEqual({ dueAt: "2026-11-11T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("reads written dates in either order", () => {
+      expect(resolve("October 28th")).toEqual({ dueAt: "2026-10-28T23:59:00.000Z", ambiguous: false });
+      expect(resolve("the 3rd of November")).toEqual({ dueAt: "2026-11-03T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("gives up on dates that do not exist", () => {
+      expect(resolve("2/30")).toEqual({ dueAt: null, ambiguous: true });
+      expect(resolve("2026-02-30")).toEqual({ dueAt: null, ambiguous: true });
+    });
+  });
+
+  describe("year rollover", () => {
+    // Wednesday, December 30 2026
+    const newYearsEve = new Date("2026-12-30T12:00:00Z");
+
+    it("moves yearless dates that have passed into next year", () => {
+      expect(resolve("Jan 5", newYearsEve)).toEqual({ dueAt: "2027-01-05T23:59:00.000Z", ambiguous: false });
+      expect(resolve("3/1", WEDNESDAY)).toEqual({ dueAt: "2027-03-01T23:59:00.000Z", ambiguous: true });
+      expect(resolve("December 31", newYearsEve)).toEqual({ dueAt: "2026-12-31T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("keeps an explicit year even when it has passed", () => {
+      expect(resolve("Jan 5 2026", newYearsEve)).toEqual({ dueAt: "2026-01-05T23:59:00.000Z", ambiguous: false });
+    });
+
+    it("carries relative phrases across the new year", () => {
+      expect(resolve("next Monday", newYearsEve)).toEqual({ dueAt: "2027-01-04T23:59:00.000Z", ambiguous: false });
+      expect(resolve("in 1 week", newYearsEve)).toEqual({ dueAt: "2027-01-06T23:59:00.000Z", ambiguous: false });
+      expect(resolve("end of next month", newYearsEve)).toEqual({ dueAt: "2027-01-31T23:59:00.000Z", ambiguous: false });
+      expect(resolve("the 2nd", newYearsEve)).toEqual({ dueAt: "2027-01-02T23:59:00.000Z", ambiguous: false });
+    });
+  });
+
+  describe("time zones and daylight saving", () => {
+    it("resolves the wall-clock time in the meeting's zone", () => {
+      expect(resolve("EOD", WEDNESDAY, "America/New_York")).toEqual({ dueAt: "2026-10-14T21:00:00.000Z", ambiguous: false });
+      expect(resolve("tomorrow", WEDNESDAY, "Asia/Tokyo")).toEqual({ dueAt: "2026-10-15T14:59:00.000Z", ambiguous: false });
+    });
+
+    it("takes today from the zone, not from UTC", () => {
+      // Already Thursday in Tokyo
+      const lateWednesday = new Date("2026-10-14T20:00:00Z");
+      expect(resolve("EOD", lateWednesday, "Asia/Tokyo")).toEqual({ dueAt: "2026-10-15T08:00:00.000Z", ambiguous: false });
+    });
+
+    it("uses the summer offset for a day after clocks go forward", () => {
+      // Friday, March 6 2026; New York moves to EDT on Sunday the 8th
+      const beforeSpring = new Date("2026-03-06T15:00:00Z");
+      expect(resolve("EOD", beforeSpring, "America/New_York")).toEqual({ dueAt: "2026-03-06T22:00:00.000Z", ambiguous: false });
+      expect(resolve("Monday EOD", beforeSpring, "America/New_York")).toEqual({ dueAt: "2026-03-09T21:00:00.000Z", ambiguous: false });
+      expect(resolve("Sunday at 5pm", beforeSpring, "America/New_York")).toEqual({ dueAt: "2026-03-08T21:00:00.000Z", ambiguous: false });
+    });
+
+    it("uses the winter offset for a day after clocks go back", () => {
+      // Friday, October 30 2026; New York moves to EST on Sunday, November 1
+      const beforeFall = new Date("2026-10-30T15:00:00Z");
+      expect(resolve("EOD", beforeFall, "America/New_York")).toEqual({ dueAt: "2026-10-30T21:00:00.000Z", ambiguous: false });
+      expect(resolve("Monday EOD", beforeFall, "America/New_York")).toEqual({ dueAt: "2026-11-02T22:00:00.000Z", ambiguous: false });
+      expect(resolve("Sunday", beforeFall, "America/New_York")).toEqual({ dueAt: "2026-11-02T04:59:00.000Z", ambiguous: false });
+    });
+  });
+
+  describe("time zone fallback", () => {
+    it("falls back to DEADLINE_TIMEZONE when the zone is not a real one", () => {
+      vi.stubEnv("DEADLINE_TIMEZONE", "Europe/London");
+      expect(resolve("EOD", WEDNESDAY, "Mars/Olympus_Mons")).toEqual({ dueAt: "2026-10-14T16:00:00.000Z", ambiguous: false });
+    });
+
+    it("falls back to UTC when DEADLINE_TIMEZONE is missing or not a real zone", () => {
+      vi.stubEnv("DEADLINE_TIMEZONE", "Not/AZone");
+      expect(resolve("EOD", WEDNESDAY, "")).toEqual({ dueAt: "2026-10-14T17:00:00.000Z", ambiguous: false });
+      vi.stubEnv("DEADLINE_TIMEZONE", "");
+      expect(getDefaultTimeZone()).toBe("UTC");
+    });
+  });
+
+  it("returns no deadline for phrases that say there is none", () => {
+    expect(resolve("No deadline specified")).toEqual({ dueAt: null, ambiguous: false });
+    expect(resolve("  ")).toEqual({ dueAt: null, ambiguous: false });
+  });
+
+  it("flags phrases with no date in them", () => {
+    expect(resolve("ASAP")).toEqual({ dueAt: null, ambiguous: true });
+    expect(resolve("soon")).toEqual({ dueAt: null, ambiguous: true });
+  });
+});
+
+describe("resolveDueDate", () => {
+  it("resolves a calendar day to the end of that day in the zone", () => {
+    expect(resolveDueDate("2026-10-23", "America/Los_Angeles")?.toISOString()).toBe("2026-10-24T06:59:00.000Z");
+    expect(resolveDueDate("2026-10-23", "UTC")?.toISOString()).toBe("2026-10-23T23:59:00.000Z");
+  });
+
+  it("returns null for anything that is not a real date", () => {
+    expect(resolveDueDate("2026-02-30", "UTC")).toBeNull();
+    expect(resolveDueDate("next Friday", "UTC")).toBeNull();
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Europe/London")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,408 @@
+export { NO_DEADLINE } from "@shared/schema";
+
+export interface DeadlineResolverOptions {
+  // The moment the meeting happened; relative phrases are resolved against it
+  referenceDate: Date;
+  // IANA zone the phrase was spoken in, e.g. "Europe/London"
+  timeZone?: string;
+}
+
+export interface ResolvedDeadline {
+  dueAt: Date | null;
+  // True when the phrase could be read more than one way, or not at all
+  ambiguous: boolean;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+interface ZonedParts extends CalendarDate, TimeOfDay {
+  second: number;
+}
+
+const END_OF_DAY: TimeOfDay = { hour: 23, minute: 59 };
+const END_OF_BUSINESS: TimeOfDay = { hour: 17, minute: 0 };
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1,
+  february: 2, feb: 2,
+  march: 3, mar: 3,
+  april: 4, apr: 4,
+  may: 5,
+  june: 6, jun: 6,
+  july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  october: 10, oct: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join("|");
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+
+const NO_DEADLINE_PHRASES = ["no deadline specified", "no deadline", "none", "n/a", "na", "unknown", ""];
+
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEADLINE_TIMEZONE;
+  return configured && isValidTimeZone(configured) ? configured : "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns a spoken deadline such as "by Friday" or "EOD tomorrow" into an
+ * absolute timestamp. Deterministic: the same phrase, reference date and
+ * zone always produce the same result.
+ */
+export function resolveDeadline(phrase: string, options: DeadlineResolverOptions): ResolvedDeadline {
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : getDefaultTimeZone();
+  const text = normalizePhrase(phrase);
+
+  if (NO_DEADLINE_PHRASES.includes(text)) {
+    return { dueAt: null, ambiguous: false };
+  }
+
+  const now = getZonedParts(options.referenceDate, timeZone);
+  const today: CalendarDate = { year: now.year, month: now.month, day: now.day };
+
+  const time = parseTimeOfDay(text);
+  const day = parseDay(text, today);
+
+  // Phrases like "ASAP" or "soon" carry no date at all; leave them for a person to settle
+  if (!day && !time) {
+    return { dueAt: null, ambiguous: true };
+  }
+
+  let date = day?.date;
+  const ambiguous = Boolean(day?.ambiguous || time?.ambiguous);
+
+  if (!date) {
+    // A bare time ("by 5pm") means the next time the clock reads that
+    const passed = time!.value.hour * 60 + time!.value.minute <= now.hour * 60 + now.minute;
+    date = passed ? addDays(today, 1) : today;
+  }
+
+  const wallTime = time?.value ?? day?.defaultTime ?? END_OF_DAY;
+  return { dueAt: zonedTimeToUtc(date, wallTime, timeZone), ambiguous };
+}
+
+/**
+ * Turns a calendar day such as "2026-10-23", the way issue trackers store
+ * due dates, into the end of that day in the given zone. Null for anything
+ * that is not a real date.
+ */
+export function resolveDueDate(isoDate: string, timeZone = getDefaultTimeZone()): Date | null {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const date: CalendarDate = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  return isValidDate(date) ? zonedTimeToUtc(date, END_OF_DAY, timeZone) : null;
+}
+
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[,;!?]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseTimeOfDay(text: string): { value: TimeOfDay; ambiguous: boolean } | null {
+  if (/\b(eod|end of (the )?(business )?day|cob|close of business|end of business)\b/.test(text)) {
+    return { value: END_OF_BUSINESS, ambiguous: false };
+  }
+  if (/\bnoon\b|\bmidday\b/.test(text)) {
+    return { value: { hour: 12, minute: 0 }, ambiguous: false };
+  }
+  if (/\bmidnight\b/.test(text)) {
+    return { value: END_OF_DAY, ambiguous: false };
+  }
+
+  const meridiem = text.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$)/);
+  if (meridiem) {
+    let hour = parseInt(meridiem[1]);
+    const minute = meridiem[2] ? parseInt(meridiem[2]) : 0;
+    if (hour < 1 || hour > 12 || minute > 59) {
+      return null;
+    }
+    const isPm = meridiem[3].startsWith("p");
+    if (hour === 12) {
+      hour = isPm ? 12 : 0;
+    } else if (isPm) {
+      hour += 12;
+    }
+    return { value: { hour, minute }, ambiguous: false };
+  }
+
+  const clock = text.match(/\b(\d{1,2}):(\d{2})\b/);
+  if (clock) {
+    const hour = parseInt(clock[1]);
+    const minute = parseInt(clock[2]);
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+    // "at 3:30" without am/pm during working hours most likely means the afternoon
+    const assumeAfternoon = hour >= 1 && hour <= 6;
+    return { value: { hour: assumeAfternoon ? hour + 12 : hour, minute }, ambiguous: hour >= 1 && hour <= 12 };
+  }
+
+  if (/\bmorning\b/.test(text)) {
+    return { value: { hour: 9, minute: 0 }, ambiguous: false };
+  }
+  if (/\bafternoon\b/.test(text)) {
+    return { value: { hour: 15, minute: 0 }, ambiguous: false };
+  }
+  if (/\bevening\b/.test(text)) {
+    return { value: { hour: 18, minute: 0 }, ambiguous: false };
+  }
+
+  return null;
+}
+
+interface ParsedDay {
+  date: CalendarDate;
+  defaultTime?: TimeOfDay;
+  ambiguous: boolean;
+}
+
+function parseDay(text: string, today: CalendarDate): ParsedDay | null {
+  if (/\bday after tomorrow\b/.test(text)) {
+    return { date: addDays(today, 2), ambiguous: false };
+  }
+  if (/\b(tomorrow|tmrw|tmr)\b/.test(text)) {
+    return { date: addDays(today, 1), ambiguous: false };
+  }
+
+  const inDuration = text.match(/\bin (\d+|a|an|one|two|three|four|five|six|seven) (day|week|month)s?\b/);
+  if (inDuration) {
+    const amount = parseCount(inDuration[1]);
+    const unit = inDuration[2];
+    const date = unit === "day"
+      ? addDays(today, amount)
+      : unit === "week"
+        ? addDays(today, amount * 7)
+        : addMonths(today, amount);
+    return { date, ambiguous: false };
+  }
+  if (/\bin a (few|couple( of)?) (day|week)s?\b/.test(text)) {
+    const date = /week/.test(text) ? addDays(today, 14) : addDays(today, 2);
+    return { date, ambiguous: true };
+  }
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const date = { year: parseInt(iso[1]), month: parseInt(iso[2]), day: parseInt(iso[3]) };
+    return isValidDate(date) ? { date, ambiguous: false } : null;
+  }
+
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+  if (numeric) {
+    const first = parseInt(numeric[1]);
+    const second = parseInt(numeric[2]);
+    // Read as month/day unless that is impossible; both readings valid means we guessed
+    const monthFirst = first <= 12;
+    const month = monthFirst ? first : second;
+    const day = monthFirst ? second : first;
+    const year = numeric[3] ? normalizeYear(parseInt(numeric[3])) : undefined;
+    const date = resolveMonthDay(today, month, day, year);
+    if (!date) {
+      return null;
+    }
+    return { date, ambiguous: first <= 12 && second <= 12 && first !== second };
+  }
+
+  const monthDay = text.match(new RegExp(`\\b(${MONTH_PATTERN})\\.? (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?\\b`));
+  const dayMonth = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?: of)? (${MONTH_PATTERN})\\.?(?: (\\d{4}))?\\b`));
+  if (monthDay || dayMonth) {
+    const month = MONTHS[monthDay ? monthDay[1] : dayMonth![2]];
+    const day = parseInt(monthDay ? monthDay[2] : dayMonth![1]);
+    const yearText = monthDay ? monthDay[3] : dayMonth![3];
+    const date = resolveMonthDay(today, month, day, yearText ? parseInt(yearText) : undefined);
+    return date ? { date, ambiguous: false } : null;
+  }
+
+  const weekday = text.match(new RegExp(`\\b(this |next |coming )?(${WEEKDAY_PATTERN})\\b`));
+  if (weekday) {
+    return resolveWeekday(today, WEEKDAYS[weekday[2]], weekday[1]?.trim());
+  }
+
+  if (/\b(end of (the )?next week|next week)\b/.test(text)) {
+    return { date: addDays(startOfNextWeek(today), 4), defaultTime: END_OF_BUSINESS, ambiguous: false };
+  }
+  if (/\b(the weekend|this weekend)\b/.test(text)) {
+    return { date: addDays(today, (7 - getWeekday(today)) % 7), ambiguous: false };
+  }
+  if (/\b(this week|end of (the )?week|eow)\b/.test(text)) {
+    // Said on a Saturday or Sunday, "this week" could mean the one just ending
+    const weekday = getWeekday(today);
+    return { date: addDays(today, (5 - weekday + 7) % 7), defaultTime: END_OF_BUSINESS, ambiguous: weekday === 0 || weekday === 6 };
+  }
+
+  if (/\b(end of (the )?next month|next month)\b/.test(text)) {
+    return { date: lastDayOfMonth(addMonths({ ...today, day: 1 }, 1)), ambiguous: !/end of/.test(text) };
+  }
+  if (/\b(end of (the )?month|eom|this month)\b/.test(text)) {
+    return { date: lastDayOfMonth(today), ambiguous: false };
+  }
+
+  const ordinal = text.match(/\bthe (\d{1,2})(st|nd|rd|th)\b/);
+  if (ordinal) {
+    const day = parseInt(ordinal[1]);
+    let date: CalendarDate = { ...today, day };
+    if (compareDates(date, today) < 0) {
+      date = { ...addMonths({ ...today, day: 1 }, 1), day };
+    }
+    return isValidDate(date) ? { date, ambiguous: false } : null;
+  }
+
+  if (/\b(today|tonight|eod|end of (the )?(business )?day|cob|close of business|end of business)\b/.test(text)) {
+    return { date: today, ambiguous: false };
+  }
+
+  return null;
+}
+
+function resolveWeekday(today: CalendarDate, target: number, qualifier?: string): ParsedDay {
+  const current = getWeekday(today);
+  const daysAhead = (target - current + 7) % 7;
+  const upcoming = addDays(today, daysAhead);
+
+  if (qualifier === "next") {
+    // "next Tuesday" is the Tuesday of next week; it only matches the upcoming one when that is already next week
+    const nextWeekTarget = addDays(startOfNextWeek(today), (target + 6) % 7);
+    return { date: nextWeekTarget, ambiguous: compareDates(nextWeekTarget, upcoming) !== 0 || daysAhead === 0 };
+  }
+
+  // Naming today's weekday could mean today or a week from now
+  return { date: upcoming, ambiguous: daysAhead === 0 && qualifier !== "this" };
+}
+
+function parseCount(word: string): number {
+  const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+  return words[word] ?? parseInt(word);
+}
+
+function normalizeYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+// Month/day without a year means the next time that date comes around
+function resolveMonthDay(today: CalendarDate, month: number, day: number, year?: number): CalendarDate | null {
+  let date: CalendarDate = { year: year ?? today.year, month, day };
+  if (year === undefined && compareDates(date, today) < 0) {
+    date = { ...date, year: today.year + 1 };
+  }
+  return isValidDate(date) ? date : null;
+}
+
+function toUtcDate(date: CalendarDate): Date {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+function fromUtcDate(value: Date): CalendarDate {
+  return { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate() };
+}
+
+function isValidDate(date: CalendarDate): boolean {
+  const roundTrip = fromUtcDate(toUtcDate(date));
+  return roundTrip.year === date.year && roundTrip.month === date.month && roundTrip.day === date.day;
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return toUtcDate(a).getTime() - toUtcDate(b).getTime();
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const value = toUtcDate(date);
+  value.setUTCDate(value.getUTCDate() + days);
+  return fromUtcDate(value);
+}
+
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const target = new Date(Date.UTC(date.year, date.month - 1 + months, 1));
+  const { year, month } = fromUtcDate(target);
+  return { year, month, day: Math.min(date.day, lastDayOfMonth({ year, month, day: 1 }).day) };
+}
+
+function lastDayOfMonth(date: CalendarDate): CalendarDate {
+  return fromUtcDate(new Date(Date.UTC(date.year, date.month, 0)));
+}
+
+function getWeekday(date: CalendarDate): number {
+  return toUtcDate(date).getUTCDay();
+}
+
+// The Monday that starts the following Monday-based week
+function startOfNextWeek(date: CalendarDate): CalendarDate {
+  return addDays(date, ((8 - getWeekday(date)) % 7) || 7);
+}
+
+function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts a wall-clock time in the given zone to the matching UTC instant
+function zonedTimeToUtc(date: CalendarDate, time: TimeOfDay, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+  const offset = getTimeZoneOffset(wallClock, timeZone);
+  const candidate = wallClock - offset;
+  // Re-check across DST transitions, where the offset at the target differs from the guess
+  const correctedOffset = getTimeZoneOffset(candidate, timeZone);
+  return new Date(correctedOffset === offset ? candidate : wallClock - correctedOffset);
+}
@@ -0,0 +1,97 @@
+import type { TranscriptSegment } from "@shared/schema";
+
+export interface QuoteLocation {
+  // The quote exactly as it appears in the transcript
+  quote: string;
+  // Character range within the transcript, end exclusive
+  start: number;
+  end: number;
+}
+
+// Quotes shorter than this match too many places to be useful evidence
+const MIN_QUOTE_LENGTH = 8;
+
+/**
+ * Finds where a model-supplied quote sits in the transcript. Models tend to
+ * tidy whitespace, casing and curly quotes, so after an exact search the
+ * comparison is repeated on a normalised copy and mapped back to the
+ * original offsets. Returns null when the quote is not really in the text.
+ */
+export function locateQuote(transcript: string, quote: string | undefined): QuoteLocation | null {
+  const trimmed = quote?.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, "").replace(/[.!?,;]+$/, "") ?? "";
+  if (trimmed.length < MIN_QUOTE_LENGTH) {
+    return null;
+  }
+
+  const exact = transcript.indexOf(trimmed);
+  if (exact !== -1) {
+    return { quote: trimmed, start: exact, end: exact + trimmed.length };
+  }
+
+  const haystack = normalise(transcript);
+  const needle = normalise(trimmed).text;
+  const index = haystack.text.indexOf(needle);
+  if (!needle || index === -1) {
+    return null;
+  }
+
+  const start = haystack.positions[index];
+  const end = haystack.positions[index + needle.length - 1] + 1;
+  return { quote: transcript.slice(start, end), start, end };
+}
+
+// Lower-cased text with runs of whitespace collapsed and typographic quotes straightened,
+// plus the original offset of every character kept
+function normalise(text: string): { text: string; positions: number[] } {
+  let result = "";
+  const positions: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    let char = text[index];
+    if (/\s/.test(char)) {
+      if (result.endsWith(" ") || result.length === 0) {
+        continue;
+      }
+      char = " ";
+    } else if (char === "‘" || char === "’") {
+      char = "'";
+    } else if (char === "“" || char === "”") {
+      char = '"';
+    }
+    result += char.toLowerCase();
+    positions.push(index);
+  }
+
+  return { text: result, positions };
+}
+
+/**
+ * When in the recording a character of the transcript was spoken. Segment
+ * texts are matched back into the transcript in order, so this works for
+ * transcripts stitched together from several transcription passes.
+ */
+export function timestampAt(transcript: string, segments: TranscriptSegment[] | null | undefined, offset: number): number | null {
+  if (!segments?.length) {
+    return null;
+  }
+
+  let cursor = 0;
+  let lastStart: number | null = null;
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    const index = text ? transcript.indexOf(text, cursor) : -1;
+    if (index === -1) {
+      continue;
+    }
+    if (index > offset) {
+      break;
+    }
+    lastStart = segment.start;
+    if (offset < index + text.length) {
+      return segment.start;
+    }
+    cursor = index + text.length;
+  }
+
+  return lastStart;
+}
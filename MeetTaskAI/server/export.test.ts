@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { csvField, taskUid, toCsv, toICalendar } from "./export";
+import type { Task } from "@shared/schema";
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 1,
+    ownerId: 1,
+    workspaceId: null,
+    meetingId: null,
+    description: "Send the budget",
+    assignee: "Dana",
+    deadlineText: "by Friday",
+    dueAt: new Date("2026-10-23T21:00:00.000Z"),
+    deadlineAmbiguous: false,
+    priority: "P2",
+    status: "open",
+    completedAt: null,
+    extractionEngine: null,
+    sourceQuote: null,
+    sourceStart: null,
+    sourceEnd: null,
+    sourceTimestamp: null,
+    confidence: null,
+    version: 1,
+    externalProvider: null,
+    externalKey: null,
+    externalUrl: null,
+    externalSync: null,
+    createdAt: new Date("2026-10-19T09:00:00.000Z"),
+    updatedAt: new Date("2026-10-19T09:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("csvField", () => {
+  it("leaves plain values as they are", () => {
+    expect(csvField("Dana")).toBe("Dana");
+    expect(csvField(42)).toBe("42");
+    expect(csvField(null)).toBe("");
+    expect(csvField(new Date("2026-10-23T21:00:00.000Z"))).toBe("2026-10-23T21:00:00.000Z");
+  });
+
+  it("quotes fields holding a delimiter, quote or line break, doubling the quotes", () => {
+    expect(csvField("Budget, final")).toBe('"Budget, final"');
+    expect(csvField('The "final" budget')).toBe('"The ""final"" budget"');
+    expect(csvField("Line one\nline two")).toBe('"Line one\nline two"');
+    expect(csvField("Line one\r\nline two")).toBe('"Line one\r\nline two"');
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header and one CRLF-terminated row per task", () => {
+    const csv = toCsv([makeTask({ description: 'Send "the" budget, then\nfile it', completedAt: null })]);
+    expect(csv).toBe(
+      "ID,Task,Assigned To,Deadline,Due At,Priority,Status,Meeting ID,Created At,Completed At\r\n" +
+        '1,"Send ""the"" budget, then\nfile it",Dana,by Friday,2026-10-23T21:00:00.000Z,P2,Open,,2026-10-19T09:00:00.000Z,\r\n',
+    );
+  });
+
+  it("writes only the header for no tasks", () => {
+    expect(toCsv([]).split("\r\n")).toHaveLength(2);
+  });
+});
+
+describe("toICalendar", () => {
+  const stamp = new Date("2026-10-19T12:00:00.000Z");
+
+  it("writes a to-do for every task and an event for each dated one", () => {
+    const ics = toICalendar([makeTask(), makeTask({ id: 2, dueAt: null })], { stamp });
+    expect(ics.match(/BEGIN:VTODO/g)).toHaveLength(2);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain("DUE:20261023T210000Z\r\n");
+    expect(ics).toContain("DTSTART:20261023T210000Z\r\n");
+    expect(ics).toContain("DTSTAMP:20261019T120000Z\r\n");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("escapes semicolons, commas, backslashes and newlines in text", () => {
+    const ics = toICalendar([makeTask({ description: "Budget; final, v2\\draft\nsecond line" })], { stamp });
+    expect(ics).toContain(String.raw`SUMMARY:Budget\; final\, v2\\draft\nsecond line` + "\r\n");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const ics = toICalendar([makeTask({ description: "Préparer le budget révisé ".repeat(6).trim() })], { stamp });
+    const lines = ics.split("\r\n");
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+    }
+    const summary = ics.slice(ics.indexOf("SUMMARY:")).split(/\r\n(?! )/)[0];
+    expect(summary.replace(/\r\n /g, "")).toBe(`SUMMARY:${"Préparer le budget révisé ".repeat(6).trim()}`);
+  });
+
+  it("keeps UIDs stable across exports and bumps the sequence with the version", () => {
+    const task = makeTask({ id: 7 });
+    const first = toICalendar([task], { stamp });
+    const second = toICalendar([{ ...task, version: 3, description: "Send the final budget" }], { stamp: new Date() });
+    for (const uid of [taskUid(task, "todo"), taskUid(task, "event")]) {
+      expect(first).toContain(`UID:${uid}\r\n`);
+      expect(second).toContain(`UID:${uid}\r\n`);
+    }
+    expect(second).toContain("SEQUENCE:2\r\n");
+  });
+
+  it("marks finished tasks completed", () => {
+    const ics = toICalendar([makeTask({ status: "done", completedAt: new Date("2026-10-20T08:00:00.000Z") })], { stamp });
+    expect(ics).toContain("STATUS:COMPLETED\r\n");
+    expect(ics).toContain("COMPLETED:20261020T080000Z\r\n");
+  });
+});
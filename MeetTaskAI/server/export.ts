@@ -0,0 +1,205 @@
+import ExcelJS from "exceljs";
+import { taskStatusLabels, type ExportFormat, type Task, type TaskStatus } from "@shared/schema";
+
+export interface ExportFile {
+  contentType: string;
+  extension: string;
+  body: string | Buffer;
+}
+
+// Columns shared by the CSV and spreadsheet exports
+const EXPORT_COLUMNS: { header: string; value: (task: Task) => string | number | Date | null }[] = [
+  { header: "ID", value: (task) => task.id },
+  { header: "Task", value: (task) => task.description },
+  { header: "Assigned To", value: (task) => task.assignee },
+  { header: "Deadline", value: (task) => task.deadlineText },
+  { header: "Due At", value: (task) => (task.dueAt ? new Date(task.dueAt) : null) },
+  { header: "Priority", value: (task) => task.priority },
+  { header: "Status", value: (task) => taskStatusLabels[task.status as TaskStatus] ?? task.status },
+  { header: "Meeting ID", value: (task) => task.meetingId },
+  { header: "Created At", value: (task) => new Date(task.createdAt) },
+  { header: "Completed At", value: (task) => (task.completedAt ? new Date(task.completedAt) : null) },
+];
+
+// RFC 4180: quote a field that holds a delimiter, quote or line break, doubling any quotes inside it
+export function csvField(value: string | number | Date | null): string {
+  const text = value === null ? "" : value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(tasks: Task[]): string {
+  const rows = [
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...tasks.map((task) => EXPORT_COLUMNS.map((column) => column.value(task))),
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function toJson(tasks: Task[]): string {
+  return JSON.stringify(tasks, null, 2);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+}
+
+// A GitHub-style checklist; finished tasks are ticked
+function toMarkdown(tasks: Task[]): string {
+  const lines = tasks.map((task) => {
+    const details = [
+      escapeMarkdown(task.assignee),
+      escapeMarkdown(task.deadlineText),
+      task.priority,
+      taskStatusLabels[task.status as TaskStatus] ?? task.status,
+    ];
+    return `- [${task.status === "done" ? "x" : " "}] **${escapeMarkdown(task.description)}** (${details.join(" · ")})`;
+  });
+  return ["# Tasks", "", ...(lines.length > 0 ? lines : ["_No tasks_"]), ""].join("\n");
+}
+
+async function toXlsx(tasks: Task[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Tasks");
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    width: column.header === "Task" ? 60 : 20,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  tasks.forEach((task) => sheet.addRow(EXPORT_COLUMNS.map((column) => column.value(task))));
+  for (const header of ["Due At", "Created At", "Completed At"]) {
+    sheet.getColumn(EXPORT_COLUMNS.findIndex((column) => column.header === header) + 1).numFmt = "yyyy-mm-dd hh:mm";
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// RFC 5545 TEXT values escape backslashes, semicolons, commas and newlines
+function icsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function icsDate(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Content lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const ICS_PRIORITY: Record<string, number> = { P1: 1, P2: 5, P3: 9 };
+
+const ICS_TODO_STATUS: Record<TaskStatus, string> = {
+  open: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  blocked: "NEEDS-ACTION",
+  done: "COMPLETED",
+};
+
+// UIDs depend only on the task, so re-importing a feed updates entries instead of duplicating them
+export function taskUid(task: Task, kind: "todo" | "event"): string {
+  return `task-${task.id}-${kind}@meettask`;
+}
+
+/**
+ * Every task becomes a VTODO for task apps, and each one with a due date
+ * also becomes a VEVENT at that time, since most calendar apps ignore to-dos.
+ */
+export function toICalendar(
+  tasks: Task[],
+  // refreshMinutes tells subscribing apps how often to fetch the calendar again
+  options: { name?: string; stamp?: Date; refreshMinutes?: number } = {},
+): string {
+  const stamp = icsDate(options.stamp ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MeetTaskAI//Task Export//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(options.name ?? "Tasks")}`,
+  ];
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+    );
+  }
+
+  for (const task of tasks) {
+    const status = task.status as TaskStatus;
+    const description = icsText(`Assigned to ${task.assignee}. Deadline: ${task.deadlineText}.`);
+    const lastModified = icsDate(task.updatedAt);
+
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${taskUid(task, "todo")}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${lastModified}`,
+      `SEQUENCE:${task.version - 1}`,
+      `SUMMARY:${icsText(task.description)}`,
+      `DESCRIPTION:${description}`,
+      `PRIORITY:${ICS_PRIORITY[task.priority] ?? 0}`,
+      `STATUS:${ICS_TODO_STATUS[status] ?? "NEEDS-ACTION"}`,
+    );
+    if (task.dueAt) {
+      lines.push(`DUE:${icsDate(task.dueAt)}`);
+    }
+    if (task.completedAt) {
+      lines.push(`COMPLETED:${icsDate(task.completedAt)}`);
+    }
+    lines.push("END:VTODO");
+
+    if (task.dueAt) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${taskUid(task, "event")}`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${lastModified}`,
+        `SEQUENCE:${task.version - 1}`,
+        `DTSTART:${icsDate(task.dueAt)}`,
+        "DURATION:PT30M",
+        `SUMMARY:${icsText(`${status === "done" ? "✓ " : ""}${task.description}`)}`,
+        `DESCRIPTION:${description}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export async function exportTasks(tasks: Task[], format: ExportFormat): Promise<ExportFile> {
+  switch (format) {
+    case "json":
+      return { contentType: "application/json; charset=utf-8", extension: "json", body: toJson(tasks) };
+    case "markdown":
+      return { contentType: "text/markdown; charset=utf-8", extension: "md", body: toMarkdown(tasks) };
+    case "xlsx":
+      return {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+        body: await toXlsx(tasks),
+      };
+    case "ics":
+      return { contentType: "text/calendar; charset=utf-8", extension: "ics", body: toICalendar(tasks) };
+    case "csv":
+    default:
+      return { contentType: "text/csv; charset=utf-8", extension: "csv", body: toCsv(tasks) };
+  }
+}
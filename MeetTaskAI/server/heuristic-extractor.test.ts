@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HeuristicExtractor } from "./heuristic-extractor";
+import { extractTasks, setAiProvider, type AiProvider } from "./ai";
+import { scoreExtractedTask } from "./confidence";
+import { UNKNOWN_FIELD_VALUE, needsReview } from "@shared/schema";
+
+describe("HeuristicExtractor", () => {
+  const extractor = new HeuristicExtractor();
+
+  it("takes the assignee from a speaker taking on a task", async () => {
+    const [task] = await extractor.extractTasks("Dana: I'll send the revised budget by Friday.");
+    expect(task).toMatchObject({ assignee: "Dana", description: "Send the revised budget", deadline: "by Friday" });
+  });
+
+  it("marks a task with nobody named as unknown, like any other missing field", async () => {
+    const [task] = await extractor.extractTasks("We need to book the offsite venue by next week.");
+    expect(task.assignee).toBe(UNKNOWN_FIELD_VALUE);
+    expect(needsReview(scoreExtractedTask(task)!)).toBe(true);
+  });
+
+  it("takes the assignee from a name addressed with \"you handle\"", async () => {
+    const [task] = await extractor.extractTasks("Dana, you handle the vendor contract by Friday.");
+    expect(task).toMatchObject({ assignee: "Dana", description: "Handle the vendor contract", deadline: "by Friday" });
+  });
+
+  it("takes the assignee from someone who will take care of a task", async () => {
+    const [task] = await extractor.extractTasks("Lee will take care of the venue booking tomorrow.");
+    expect(task).toMatchObject({ assignee: "Lee", description: "Take care of the venue booking", deadline: "tomorrow" });
+  });
+
+  it("treats a polite request as a task and keeps a time of day as its deadline", async () => {
+    const [unassigned] = await extractor.extractTasks("Please finish the slide deck by 5pm.");
+    expect(unassigned).toMatchObject({ assignee: UNKNOWN_FIELD_VALUE, description: "Finish the slide deck", deadline: "by 5pm" });
+
+    const [addressed] = await extractor.extractTasks("Kim, please finish the slide deck by 5pm.");
+    expect(addressed).toMatchObject({ assignee: "Kim", description: "Finish the slide deck", deadline: "by 5pm" });
+  });
+});
+
+describe("falling back to the rule-based extractor", () => {
+  const failingProvider: AiProvider = {
+    name: "failing",
+    extractTasks: async () => {
+      throw new Error("Provider is rate limited");
+    },
+    transcribe: async () => ({ text: "" }),
+  };
+  const transcript = "Dana: I'll send the revised budget by Friday.";
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setAiProvider(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it("uses the heuristic extractor in auto mode when the provider throws, and says why", async () => {
+    setAiProvider(failingProvider);
+    const result = await extractTasks(transcript, "auto");
+    expect(result.engine).toBe("heuristic");
+    expect(result.fallbackReason).toContain("Provider is rate limited");
+    expect(result.tasks).toMatchObject([{ assignee: "Dana", description: "Send the revised budget" }]);
+  });
+
+  it("does not fall back when the AI was asked for explicitly", async () => {
+    setAiProvider(failingProvider);
+    await expect(extractTasks(transcript, "ai")).rejects.toThrow("Provider is rate limited");
+  });
+});
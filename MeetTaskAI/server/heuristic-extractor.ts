@@ -0,0 +1,219 @@
+import type { ExtractedTask, TaskExtractor } from "./ai";
+import { NO_DEADLINE } from "./deadline";
+import { UNKNOWN_FIELD_VALUE } from "@shared/schema";
+
+// Capitalised words that start sentences but are never assignees
+const NOT_NAMES = new Set([
+  "I", "We", "You", "They", "He", "She", "It", "So", "Also", "Then", "And", "But", "Ok", "Okay",
+  "Please", "Let", "Lets", "The", "This", "That", "These", "Those", "Someone", "Everyone", "Team",
+  "Next", "Action", "Yes", "No", "Great", "Thanks", "Alright", "Right", "Well", "Now", "Today",
+  "Tomorrow", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+]);
+
+const NAME = "([A-Z][a-z]+(?: [A-Z][a-z]+)?)";
+
+interface Rule {
+  pattern: RegExp;
+  // Capture group holding the assignee's name, when the phrasing names one
+  assignee?: number;
+  // Capture group holding what needs doing
+  action: number;
+}
+
+// Phrasings the AI prompt lists, in the order they are tried
+const ASSIGNMENT_RULES: Rule[] = [
+  // "John, you handle the report by Friday"
+  { pattern: new RegExp(`^${NAME},? you(?:'ll| will| should| need to| can| could)? (.+)$`), assignee: 1, action: 2 },
+  // "Sarah will take care of the invoices tomorrow"
+  { pattern: new RegExp(`^${NAME} (?:will|'ll|is going to|is gonna|needs to|should|has to|can) (.+)$`), assignee: 1, action: 2 },
+  // "Mike please finish the deck by 5pm" / "Mike, can you send the notes"
+  { pattern: new RegExp(`^${NAME},? (?:please|pls|can you|could you|would you|kindly) (.+)$`), assignee: 1, action: 2 },
+  // "Assign the budget review to Priya"
+  { pattern: new RegExp(`^(?:assign|give) (.+?) to ${NAME}$`, "i"), assignee: 2, action: 1 },
+  // "Action item for Dana: update the roadmap"
+  { pattern: new RegExp(`^action item(?: for ${NAME})?: (.+)$`, "i"), assignee: 1, action: 2 },
+];
+
+// Task-shaped sentences with nobody named
+const UNASSIGNED_RULES: Rule[] = [
+  { pattern: /^(?:please|pls|kindly) (.+)$/i, action: 1 },
+  { pattern: /^(?:we need to|we should|someone needs to|someone should|need to|let's make sure to|make sure to|don't forget to|remember to) (.+)$/i, action: 1 },
+  // "Complete this by next week"
+  { pattern: /^((?:complete|finish|submit|send|prepare|review|update|fix|schedule|draft|share) .+)$/i, action: 1 },
+  { pattern: /^todo:? (.+)$/i, action: 1 },
+];
+
+// "I'll send the recap" on a "Name: ..." speaker line
+const SELF_ASSIGNMENT = /^(?:i'll|i will|i am going to|i'm going to|i can|let me) (.+)$/i;
+
+// Conversational openers stripped before matching
+const FILLER = /^(?:also|so|and|then|ok(?:ay)?|alright|right|now|finally)\b,?\s*/i;
+
+// Stands in for dots inside abbreviations while sentences are split
+const PROTECTED_DOT = "\u0000";
+
+const DEADLINE_START = new RegExp(
+  [
+    "\\b(?:by|before|until|till|no later than|due|on|at)\\s+(?:the\\s+)?(?:end of|eod|cob|next|this|tomorrow|today|tonight|noon|midnight|monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|wed|thu|fri|january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec|\\d)",
+    "\\b(?:today|tonight|tomorrow|this week|next week|this month|next month|end of (?:the )?(?:day|week|month)|eod|eow|eom|asap|in \\d+ (?:days?|weeks?))\\b",
+  ].join("|"),
+  "i",
+);
+
+const PRIORITY_PATTERNS: [RegExp, string][] = [
+  [/\b(p1|priority one|priority 1|top priority|high priority|urgent|critical)\b/i, "P1"],
+  [/\b(p2|priority two|priority 2|medium priority)\b/i, "P2"],
+  [/\b(p3|priority three|priority 3|low priority)\b/i, "P3"],
+];
+
+interface Sentence {
+  speaker?: string;
+  text: string;
+}
+
+/**
+ * Rule-based extractor used when the AI is unavailable or explicitly turned
+ * off. Works sentence by sentence, looking for the same "X, you handle ...
+ * by Friday" phrasings the AI prompt describes.
+ */
+export class HeuristicExtractor implements TaskExtractor {
+  readonly name = "heuristic";
+
+  async extractTasks(transcript: string): Promise<ExtractedTask[]> {
+    const tasks: ExtractedTask[] = [];
+    for (const sentence of splitSentences(transcript)) {
+      const task = parseSentence(sentence);
+      if (task) {
+        tasks.push(task);
+      }
+    }
+    return tasks;
+  }
+}
+
+export function splitSentences(transcript: string): Sentence[] {
+  const sentences: Sentence[] = [];
+
+  for (const rawLine of transcript.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    // "Priya: I'll send the recap" style speaker labels
+    let speaker: string | undefined;
+    const speakerMatch = line.match(/^([A-Z][\w.' -]{0,40}?):\s+(.*)$/);
+    if (speakerMatch && !/^action item/i.test(line)) {
+      speaker = speakerMatch[1].trim();
+      line = speakerMatch[2];
+    }
+
+    // Protect abbreviations whose dots would otherwise end a sentence
+    const protectedLine = line
+      .replace(/\b([ap])\.m\./gi, `$1${PROTECTED_DOT}m${PROTECTED_DOT}`)
+      .replace(/\b(Mr|Mrs|Ms|Dr|vs|etc)\./g, `$1${PROTECTED_DOT}`);
+    for (const part of protectedLine.split(/(?<=[.!?;])\s+/)) {
+      const text = part.replace(/[.!?;]+$/, "").split(PROTECTED_DOT).join(".").trim();
+      if (text) {
+        sentences.push({ speaker, text });
+      }
+    }
+  }
+
+  return sentences;
+}
+
+function parseSentence(sentence: Sentence): ExtractedTask | null {
+  const text = sentence.text;
+  const match = matchAssignment(text, sentence.speaker);
+  if (!match) {
+    return null;
+  }
+
+  const { assignee, action } = match;
+
+  const { description, deadline } = splitDeadline(action);
+  if (description.split(/\s+/).length < 2) {
+    return null;
+  }
+
+  const priority = detectPriority(text);
+  return {
+    description: capitalize(stripPriority(description)),
+    assignee: assignee || UNKNOWN_FIELD_VALUE,
+    deadline: deadline || NO_DEADLINE,
+    priority: priority || "P3",
+    quote: text,
+    // Pattern matches are less certain than the AI; nobody named is the weakest signal
+    confidence: {
+      description: 0.6,
+      assignee: assignee ? 0.7 : 0.2,
+      deadline: deadline ? 0.7 : 0.6,
+      priority: priority ? 0.9 : 0.7,
+    },
+  };
+}
+
+// Tries the whole sentence, then each clause after a comma ("Also, this is P1, Mike please ...")
+function matchAssignment(text: string, speaker?: string): { assignee?: string; action: string } | null {
+  const clauses = text.split(/,\s+/);
+  const candidates = clauses.map((_, index) => clauses.slice(index).join(", ").replace(FILLER, ""));
+
+  for (const candidate of candidates) {
+    for (const rule of ASSIGNMENT_RULES) {
+      const match = candidate.match(rule.pattern);
+      const name = match && rule.assignee ? match[rule.assignee] : undefined;
+      if (match && !(name && NOT_NAMES.has(name.split(" ")[0]))) {
+        return { assignee: name, action: match[rule.action] };
+      }
+    }
+
+    const self = speaker ? candidate.match(SELF_ASSIGNMENT) : null;
+    if (self) {
+      return { assignee: speaker, action: self[1] };
+    }
+  }
+
+  for (const candidate of candidates) {
+    for (const rule of UNASSIGNED_RULES) {
+      const match = candidate.match(rule.pattern);
+      if (match) {
+        return { action: match[rule.action] };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Everything from the first time reference onwards is treated as the deadline
+function splitDeadline(action: string): { description: string; deadline?: string } {
+  const match = DEADLINE_START.exec(action);
+  if (!match) {
+    return { description: action.trim() };
+  }
+
+  const description = action.slice(0, match.index).replace(/[\s,]+$/, "").trim();
+  const deadline = action.slice(match.index).trim();
+  return { description: description || action.trim(), deadline };
+}
+
+// The explicitly mentioned priority, if any
+function detectPriority(text: string): string | undefined {
+  for (const [pattern, priority] of PRIORITY_PATTERNS) {
+    if (pattern.test(text)) {
+      return priority;
+    }
+  }
+  return undefined;
+}
+
+function stripPriority(description: string): string {
+  return description
+    .replace(/[\s,(-]*\b(it'?s |this is |as )?(a )?(p[123]|priority (one|two|three|[123])|top priority|high priority|medium priority|low priority)\b\)?/gi, "")
+    .trim();
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { ImportFileError, parseCsv, readImportFile, suggestMapping } from "./import";
+import { toCsv } from "./export";
+
+describe("parseCsv", () => {
+  it("reads quoted fields holding commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('Task,Assignee\n"Send the budget, signed","Dana ""D"" Lee"\n"Line one\nline two",Lee\n')).toEqual([
+      { line: 1, fields: ["Task", "Assignee"] },
+      { line: 2, fields: ["Send the budget, signed", 'Dana "D" Lee'] },
+      { line: 3, fields: ["Line one\nline two", "Lee"] },
+    ]);
+  });
+
+  it("accepts CRLF line endings and a missing final line break", () => {
+    expect(parseCsv("Task,Assignee\r\nSend the budget,Dana\r\nBook the room,Lee")).toEqual([
+      { line: 1, fields: ["Task", "Assignee"] },
+      { line: 2, fields: ["Send the budget", "Dana"] },
+      { line: 3, fields: ["Book the room", "Lee"] },
+    ]);
+  });
+
+  it("skips a byte order mark", () => {
+    expect(parseCsv("\uFEFFTask\nSend the budget\n")[0]).toEqual({ line: 1, fields: ["Task"] });
+  });
+
+  it("drops blank rows but numbers rows by the line they start on", () => {
+    const rows = parseCsv('Task,Notes\n\n"Send the budget","first\r\nsecond"\r\n,\nBook the room,\n');
+    expect(rows.map((row) => row.line)).toEqual([1, 3, 6]);
+  });
+
+  it("refuses a file that ends inside a quoted field", () => {
+    expect(() => parseCsv('Task\n"Send the budget\n')).toThrow(ImportFileError);
+  });
+});
+
+describe("readImportFile", () => {
+  it("reports CSV rows by their line in the file", () => {
+    const table = readImportFile('Task,Assignee\n\n"Send the\nbudget",Dana\nBook the room,Lee\n', "csv");
+    expect(table.records).toEqual([
+      { row: 3, values: { Task: "Send the\nbudget", Assignee: "Dana" } },
+      { row: 5, values: { Task: "Book the room", Assignee: "Lee" } },
+    ]);
+  });
+
+  it("numbers JSON tasks by their position", () => {
+    const table = readImportFile(JSON.stringify({ tasks: [{ description: "Send the budget" }, { title: "Book the room" }] }), "json");
+    expect(table.columns).toEqual(["description", "title"]);
+    expect(table.records.map((record) => record.row)).toEqual([1, 2]);
+  });
+
+  it("refuses files without tasks or with duplicate columns", () => {
+    expect(() => readImportFile("Task\n", "csv")).toThrow("The file has no tasks in it");
+    expect(() => readImportFile("Task,Task\nA,B\n", "csv")).toThrow(ImportFileError);
+    expect(() => readImportFile("{", "json")).toThrow("The file is not valid JSON");
+  });
+});
+
+describe("suggestMapping", () => {
+  it("maps the columns of our own CSV export", () => {
+    const [header] = parseCsv(toCsv([]));
+    expect(suggestMapping(header.fields)).toEqual({
+      description: "Task",
+      assignee: "Assigned To",
+      deadlineText: "Deadline",
+      dueAt: "Due At",
+      priority: "Priority",
+      status: "Status",
+    });
+  });
+
+  it("maps the fields of our own JSON export", () => {
+    expect(suggestMapping(["id", "description", "assignee", "deadlineText", "dueAt", "priority", "status"])).toEqual({
+      description: "description",
+      assignee: "assignee",
+      deadlineText: "deadlineText",
+      dueAt: "dueAt",
+      priority: "priority",
+      status: "status",
+    });
+  });
+
+  it("leaves unknown columns unmapped", () => {
+    expect(suggestMapping(["Notes", "Whatever"])).toEqual({});
+  });
+});
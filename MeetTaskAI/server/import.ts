@@ -0,0 +1,200 @@
+import {
+  importFields,
+  taskStatuses,
+  taskStatusLabels,
+  MAX_IMPORT_ROWS,
+  type ImportField,
+  type ImportFormat,
+  type ImportMapping,
+} from "@shared/schema";
+
+// The file could not be read at all, as opposed to individual rows being invalid
+export class ImportFileError extends Error {}
+
+export interface ImportTable {
+  columns: string[];
+  // Each record with the row number it has in the file
+  records: { row: number; values: Record<string, unknown> }[];
+}
+
+// A CSV row with the line of the file it starts on, counting from 1
+export interface CsvRow {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Splits RFC 4180 CSV into rows of fields: quoted fields may hold commas,
+ * line breaks and doubled quotes, and either line ending is accepted.
+ * Rows that are entirely blank are dropped, so a row's line is not simply
+ * its position.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowStart, fields: row });
+    }
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A lone CR, a lone LF and CRLF each end one line
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new ImportFileError("The file ends inside a quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const match = filename.toLowerCase().match(/\.(csv|json)$/);
+  return match ? (match[1] as ImportFormat) : null;
+}
+
+export function readImportFile(content: string, format: ImportFormat): ImportTable {
+  let table: ImportTable;
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new ImportFileError("The file is not valid JSON");
+    }
+    // Accept a bare array, as our JSON export writes, or an object with a tasks array
+    const items = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown })?.tasks;
+    if (!Array.isArray(items) || items.some((item) => typeof item !== "object" || item === null || Array.isArray(item))) {
+      throw new ImportFileError("Expected an array of task objects");
+    }
+    const columns = Array.from(new Set(items.flatMap((item) => Object.keys(item))));
+    table = { columns, records: items.map((values, index) => ({ row: index + 1, values })) };
+  } else {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) {
+      throw new ImportFileError("The file is empty");
+    }
+    const columns = header.fields.map((column) => column.trim());
+    if (new Set(columns).size !== columns.length) {
+      throw new ImportFileError("Column names in the header row must be unique");
+    }
+    // Rows are numbered by the line they start on, so blank lines and fields
+    // spanning several lines do not throw the numbers off
+    table = {
+      columns,
+      records: rows.map(({ line, fields }) => ({
+        row: line,
+        values: Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? ""])),
+      })),
+    };
+  }
+
+  if (table.records.length === 0) {
+    throw new ImportFileError("The file has no tasks in it");
+  }
+  if (table.records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`At most ${MAX_IMPORT_ROWS} tasks can be imported at once`);
+  }
+  return table;
+}
+
+// Header names that usually hold each field, including those of our own exports
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  description: ["description", "task", "title", "summary", "name"],
+  assignee: ["assignee", "assigned to", "owner", "assigned"],
+  deadlineText: ["deadlinetext", "deadline", "due date/time", "due"],
+  dueAt: ["dueat", "due at", "due date"],
+  priority: ["priority"],
+  status: ["status", "state"],
+};
+
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const field of importFields) {
+    const column = columns.find((name) => COLUMN_ALIASES[field].includes(name.trim().toLowerCase()));
+    if (column !== undefined) {
+      mapping[field] = column;
+    }
+  }
+  return mapping;
+}
+
+function cellText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text === "" ? undefined : text;
+}
+
+// "P1", "p2 - Medium" and "3" all name a priority level
+function normaliseImportedPriority(value: string): string {
+  const match = value.match(/^p?\s*([1-3])\b/i);
+  return match ? `P${match[1]}` : value;
+}
+
+// Statuses may be given as stored ("in_progress") or as shown ("In Progress")
+function normaliseImportedStatus(value: string): string {
+  const key = value.toLowerCase().replace(/[\s-]+/g, "_");
+  const match = taskStatuses.find((status) => status === key || taskStatusLabels[status].toLowerCase() === value.toLowerCase());
+  return match ?? value;
+}
+
+/**
+ * Picks the mapped cells out of one record, ready for validation. Empty cells
+ * count as missing; values are tidied but never guessed, so anything odd is
+ * left for the schema to report.
+ */
+export function mapImportRecord(values: Record<string, unknown>, mapping: ImportMapping): Partial<Record<ImportField, string>> {
+  const task: Partial<Record<ImportField, string>> = {};
+  for (const field of importFields) {
+    const column = mapping[field];
+    const text = column === undefined ? undefined : cellText(values[column]);
+    if (text === undefined) continue;
+    if (field === "priority") {
+      task[field] = normaliseImportedPriority(text);
+    } else if (field === "status") {
+      task[field] = normaliseImportedStatus(text);
+    } else {
+      task[field] = text;
+    }
+  }
+  return task;
+}
@@ -1,13 +1,17 @@
+// Load environment variables before any module reads them (storage picks its backend on import)
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
-import dotenv from "dotenv";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-
-// Load environment variables
-dotenv.config();
+import { issueSyncWorker, getSyncIntervalMinutes } from "./integrations/sync";
 
 const app = express();
-app.use(express.json());
+// Webhook signatures are computed over the exact bytes received, so keep them
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -70,5 +74,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    issueSyncWorker.start(getSyncIntervalMinutes());
   });
 })();
@@ -0,0 +1,151 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import {
+  integrationProviderLabels,
+  taskStatusLabels,
+  UNKNOWN_FIELD_VALUE,
+  type IntegrationProvider,
+  type SyncedFields,
+  type Task,
+  type TaskStatus,
+} from "@shared/schema";
+
+export interface ExternalIssue {
+  // What the tracker calls the issue, e.g. "OPS-42" or "acme/web#7"
+  key: string;
+  url: string;
+  fields: SyncedFields;
+}
+
+// Creates and reads issues in one tracker through its API
+export interface IssueConnector {
+  readonly provider: IntegrationProvider;
+  // The time zone is the one the task's deadline is read in, for trackers with due dates
+  createIssue(task: Task, timeZone: string): Promise<ExternalIssue>;
+  // Throws an IntegrationError with status 404 once the issue is gone
+  getIssue(key: string): Promise<ExternalIssue>;
+  // False unless a webhook secret is configured and the delivery was signed with it
+  verifyWebhook(rawBody: Buffer | undefined, headers: IncomingHttpHeaders): boolean;
+  // The issues a webhook delivery is about; empty for events the sync does not care about,
+  // and for anything that does not look like the tracker's payload
+  webhookIssueKeys(payload: unknown): string[];
+}
+
+// A request the tracker rejected or never answered; the message is safe to show to users
+export class IntegrationError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "IntegrationError";
+  }
+}
+
+// Slow trackers should fail one task, not hang the whole push
+const REQUEST_TIMEOUT_MS = 15_000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Jira, GitHub and GraphQL APIs each put their error text somewhere different
+function describeErrorBody(body: unknown): string | undefined {
+  if (!isRecord(body)) {
+    return undefined;
+  }
+  const messages: string[] = [];
+  if (typeof body.message === "string") {
+    messages.push(body.message);
+  }
+  if (Array.isArray(body.errorMessages)) {
+    messages.push(...body.errorMessages.map(String));
+  }
+  if (Array.isArray(body.errors)) {
+    messages.push(...body.errors.map((error) => (isRecord(error) && typeof error.message === "string" ? error.message : String(error))));
+  } else if (isRecord(body.errors)) {
+    messages.push(...Object.entries(body.errors).map(([field, message]) => `${field}: ${message}`));
+  }
+  return messages.length > 0 ? messages.join("; ") : undefined;
+}
+
+export async function requestJson<T>(
+  provider: IntegrationProvider,
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: unknown },
+): Promise<T> {
+  const label = integrationProviderLabels[provider];
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method,
+      headers: { Accept: "application/json", "Content-Type": "application/json", ...init.headers },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new IntegrationError(`Could not reach ${label}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = undefined;
+  }
+  if (!response.ok) {
+    const detail = describeErrorBody(body) ?? (response.statusText || "request failed");
+    throw new IntegrationError(`${label} responded with ${response.status}: ${detail}`, response.status);
+  }
+  return body as T;
+}
+
+export function issueTitle(task: Task): string {
+  // Jira summaries stop at 255 characters and GitHub titles at 256
+  return task.description.length > 255 ? `${task.description.slice(0, 254)}…` : task.description;
+}
+
+// Plain text that also reads well as Markdown
+export function issueBody(task: Task): string {
+  const lines = [
+    `Assigned to: ${task.assignee === UNKNOWN_FIELD_VALUE ? "Unassigned" : task.assignee}`,
+    `Deadline: ${task.deadlineText}`,
+    `Priority: ${task.priority}`,
+    `Status: ${taskStatusLabels[task.status as TaskStatus] ?? task.status}`,
+  ];
+  if (task.sourceQuote) {
+    lines.push("", `> ${task.sourceQuote.replace(/\s*\n\s*/g, " ")}`);
+  }
+  lines.push("", `Created from MeetTaskAI task #${task.id}.`);
+  return lines.join("\n");
+}
+
+// Trackers store due dates without a time, so take the day in the deadline time zone
+export function issueDueDate(task: Task, timeZone: string): string | null {
+  if (!task.dueAt) {
+    return null;
+  }
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(task.dueAt));
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// Trackers sign webhook deliveries with an HMAC-SHA256 of the raw body, as hex
+export function verifySignature(
+  secret: string | undefined,
+  rawBody: Buffer | undefined,
+  header: string | string[] | undefined,
+  prefix = "",
+): boolean {
+  if (!secret || !rawBody || typeof header !== "string" || !header.startsWith(prefix)) {
+    return false;
+  }
+  const expected = Buffer.from(createHmac("sha256", secret).update(rawBody).digest("hex"));
+  const received = Buffer.from(header.slice(prefix.length));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,188 @@
+import http from "http";
+import { createHmac } from "crypto";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { IntegrationError } from "./connector";
+import { JiraConnector } from "./jira";
+import { LinearConnector } from "./linear";
+import { GitHubConnector } from "./github";
+import type { Task } from "@shared/schema";
+
+interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type StubReply = { status?: number; body?: unknown };
+
+// A tracker API answering whatever the current test tells it to, and keeping what it was sent
+let reply: (request: StubRequest) => StubReply;
+let requests: StubRequest[];
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let text = "";
+    req.on("data", (chunk) => (text += chunk));
+    req.on("end", () => {
+      const request = { method: req.method!, url: req.url!, headers: req.headers, body: text ? JSON.parse(text) : undefined };
+      requests.push(request);
+      const { status = 200, body } = reply(request);
+      res.statusCode = status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(body === undefined ? "" : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = () => ({ status: 500 });
+});
+
+const task = {
+  id: 7,
+  description: "Send the budget",
+  assignee: "Dana",
+  deadlineText: "by Friday",
+  priority: "P1",
+  status: "open",
+  // Friday 23:59 in New York is already Saturday in UTC
+  dueAt: new Date("2026-10-24T03:59:00.000Z"),
+  sourceQuote: null,
+} as Task;
+
+function sign(secret: string, body: Buffer): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+describe("JiraConnector", () => {
+  let jira: JiraConnector;
+
+  beforeEach(() => {
+    jira = new JiraConnector({ baseUrl: `${baseUrl}/`, email: "bot@acme.test", apiToken: "token", projectKey: "OPS", issueType: "Task", webhookSecret: "jira-secret" });
+  });
+
+  it("creates an issue due on the day of the task's time zone and reads it back", async () => {
+    reply = ({ method }) =>
+      method === "POST"
+        ? { status: 201, body: { key: "OPS-1" } }
+        : { body: { key: "OPS-1", fields: { status: { name: "To Do", statusCategory: { key: "new" } }, assignee: null, duedate: "2026-10-23" } } };
+
+    const issue = await jira.createIssue(task, "America/New_York");
+    expect(issue).toEqual({ key: "OPS-1", url: `${baseUrl}/browse/OPS-1`, fields: { status: "open", assignee: null, dueDate: "2026-10-23" } });
+    expect(requests[0].body.fields).toMatchObject({ project: { key: "OPS" }, summary: "Send the budget", priority: { name: "High" }, duedate: "2026-10-23" });
+    expect(requests[0].headers.authorization).toBe(`Basic ${Buffer.from("bot@acme.test:token").toString("base64")}`);
+  });
+
+  it("maps blocked and done statuses", async () => {
+    reply = () => ({ body: { key: "OPS-2", fields: { status: { name: "Blocked", statusCategory: { key: "indeterminate" } } } } });
+    expect((await jira.getIssue("OPS-2")).fields.status).toBe("blocked");
+    reply = () => ({ body: { key: "OPS-2", fields: { status: { name: "Closed", statusCategory: { key: "done" } } } } });
+    expect((await jira.getIssue("OPS-2")).fields.status).toBe("done");
+  });
+
+  it("turns an error response into an IntegrationError carrying its status and message", async () => {
+    reply = () => ({ status: 404, body: { errorMessages: ["Issue does not exist or you do not have permission to see it."] } });
+    const error = await jira.getIssue("OPS-404").catch((error) => error);
+    expect(error).toBeInstanceOf(IntegrationError);
+    expect(error).toMatchObject({ status: 404, message: "Jira responded with 404: Issue does not exist or you do not have permission to see it." });
+  });
+
+  it("falls back to the status text for an error body it cannot read", async () => {
+    reply = () => ({ status: 400, body: ["not", "an", "object"] });
+    await expect(jira.getIssue("OPS-1")).rejects.toThrow("Jira responded with 400: Bad Request");
+  });
+
+  it("only accepts webhooks signed with its secret", () => {
+    const body = Buffer.from(JSON.stringify({ issue: { key: "OPS-1" } }));
+    expect(jira.verifyWebhook(body, { "x-hub-signature": `sha256=${sign("jira-secret", body)}` })).toBe(true);
+    expect(jira.verifyWebhook(body, { "x-hub-signature": `sha256=${sign("other-secret", body)}` })).toBe(false);
+    expect(jira.verifyWebhook(body, {})).toBe(false);
+  });
+
+  it("reads issue keys from webhook payloads and ignores anything else", () => {
+    expect(jira.webhookIssueKeys({ webhookEvent: "jira:issue_updated", issue: { key: "OPS-1" } })).toEqual(["OPS-1"]);
+    expect(jira.webhookIssueKeys({ issue: { key: 42 } })).toEqual([]);
+    expect(jira.webhookIssueKeys("OPS-1")).toEqual([]);
+    expect(jira.webhookIssueKeys(null)).toEqual([]);
+  });
+});
+
+describe("LinearConnector", () => {
+  let linear: LinearConnector;
+
+  beforeEach(() => {
+    linear = new LinearConnector({ apiUrl: `${baseUrl}/graphql`, apiKey: "lin_api_key", teamId: "team-1", webhookSecret: "linear-secret" });
+  });
+
+  const linearIssue = { identifier: "ENG-3", url: "https://linear.app/acme/issue/ENG-3", dueDate: "2026-10-23", assignee: { name: "Dana" }, state: { type: "started" } };
+
+  it("creates an issue through the GraphQL API", async () => {
+    reply = () => ({ body: { data: { issueCreate: { success: true, issue: linearIssue } } } });
+    const issue = await linear.createIssue(task, "America/New_York");
+    expect(issue).toEqual({ key: "ENG-3", url: linearIssue.url, fields: { status: "in_progress", assignee: "Dana", dueDate: "2026-10-23" } });
+    expect(requests[0].headers.authorization).toBe("lin_api_key");
+    expect(requests[0].body.variables.input).toMatchObject({ teamId: "team-1", priority: 2, dueDate: "2026-10-23" });
+  });
+
+  it("reports a missing issue as a 404", async () => {
+    reply = () => ({ body: { errors: [{ message: "Entity not found", extensions: { code: "ENTITY_NOT_FOUND" } }] } });
+    await expect(linear.getIssue("ENG-404")).rejects.toMatchObject({ status: 404, message: "Linear rejected the request: Entity not found" });
+  });
+
+  it("only accepts webhooks signed with its secret", () => {
+    const body = Buffer.from(JSON.stringify({ type: "Issue", data: { identifier: "ENG-3" } }));
+    expect(linear.verifyWebhook(body, { "linear-signature": sign("linear-secret", body) })).toBe(true);
+    expect(linear.verifyWebhook(body, { "linear-signature": sign("other-secret", body) })).toBe(false);
+  });
+
+  it("reads issue keys from issue events only", () => {
+    expect(linear.webhookIssueKeys({ type: "Issue", action: "update", data: { identifier: "ENG-3" } })).toEqual(["ENG-3"]);
+    expect(linear.webhookIssueKeys({ type: "Comment", data: { identifier: "ENG-3" } })).toEqual([]);
+    expect(linear.webhookIssueKeys({ type: "Issue", data: null })).toEqual([]);
+  });
+});
+
+describe("GitHubConnector", () => {
+  let github: GitHubConnector;
+
+  beforeEach(() => {
+    github = new GitHubConnector({ apiUrl: baseUrl, token: "ghp_token", repository: "acme/web", webhookSecret: "github-secret" });
+  });
+
+  it("creates an issue labelled with the priority", async () => {
+    reply = () => ({ status: 201, body: { number: 7, html_url: "https://github.com/acme/web/issues/7", state: "open", assignees: [] } });
+    const issue = await github.createIssue(task);
+    expect(issue).toEqual({ key: "acme/web#7", url: "https://github.com/acme/web/issues/7", fields: { status: "open", assignee: null, dueDate: null } });
+    expect(requests[0].url).toBe("/repos/acme/web/issues");
+    expect(requests[0].body.labels).toEqual(["priority: P1"]);
+  });
+
+  it("reads a closed issue as done", async () => {
+    reply = () => ({ body: { number: 7, html_url: "https://github.com/acme/web/issues/7", state: "closed", assignees: [{ login: "dana" }] } });
+    expect((await github.getIssue("acme/web#7")).fields).toEqual({ status: "done", assignee: "dana", dueDate: null });
+  });
+
+  it("refuses a malformed key without calling the API", async () => {
+    await expect(github.getIssue("web-7")).rejects.toMatchObject({ status: 404 });
+    expect(requests).toEqual([]);
+  });
+
+  it("reads issue keys from webhook payloads and ignores anything else", () => {
+    const body = Buffer.from("{}");
+    expect(github.verifyWebhook(body, { "x-hub-signature-256": `sha256=${sign("github-secret", body)}` })).toBe(true);
+    expect(github.webhookIssueKeys({ action: "closed", issue: { number: 7 }, repository: { full_name: "acme/web" } })).toEqual(["acme/web#7"]);
+    expect(github.webhookIssueKeys({ ref: "refs/heads/main", repository: { full_name: "acme/web" } })).toEqual([]);
+    expect(github.webhookIssueKeys({ issue: { number: "7" }, repository: { full_name: "acme/web" } })).toEqual([]);
+  });
+});
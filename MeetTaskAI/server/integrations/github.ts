@@ -0,0 +1,115 @@
+import type { IncomingHttpHeaders } from "http";
+import { z } from "zod";
+import {
+  requestJson,
+  issueTitle,
+  issueBody,
+  trimTrailingSlash,
+  verifySignature,
+  IntegrationError,
+  type ExternalIssue,
+  type IssueConnector,
+} from "./connector";
+import type { Task } from "@shared/schema";
+
+export interface GitHubConfig {
+  // https://api.github.com, or https://<host>/api/v3 for GitHub Enterprise Server
+  apiUrl: string;
+  token: string;
+  // "owner/name"
+  repository: string;
+  // The secret entered when adding the webhook to the repository
+  webhookSecret?: string;
+}
+
+interface GitHubIssue {
+  number: number;
+  html_url: string;
+  state: "open" | "closed";
+  assignees?: { login: string }[];
+}
+
+// GitHub issues have no priority field, so the priority travels as a label. GitHub
+// creates labels that do not exist yet
+function priorityLabel(task: Task): string {
+  return `priority: ${task.priority}`;
+}
+
+// Keys look like "acme/web#7"
+function parseKey(key: string): { repository: string; number: string } {
+  const match = key.match(/^([^#\s]+\/[^#\s]+)#(\d+)$/);
+  if (!match) {
+    throw new IntegrationError(`"${key}" is not a GitHub issue key`, 404);
+  }
+  return { repository: match[1], number: match[2] };
+}
+
+// "issues" events; pull request and push events have no issue
+const gitHubWebhookSchema = z.object({
+  repository: z.object({ full_name: z.string() }),
+  issue: z.object({ number: z.number().int() }),
+});
+
+export class GitHubConnector implements IssueConnector {
+  readonly provider = "github";
+  private apiUrl: string;
+
+  constructor(private config: GitHubConfig) {
+    this.apiUrl = trimTrailingSlash(config.apiUrl);
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.config.token}`,
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      // Required by the GitHub API
+      "User-Agent": "MeetTaskAI",
+    };
+  }
+
+  // GitHub has neither in-progress states nor due dates, so those never sync from it
+  private toExternalIssue(repository: string, issue: GitHubIssue): ExternalIssue {
+    return {
+      key: `${repository}#${issue.number}`,
+      url: issue.html_url,
+      fields: {
+        status: issue.state === "closed" ? "done" : "open",
+        assignee: issue.assignees?.[0]?.login ?? null,
+        dueDate: null,
+      },
+    };
+  }
+
+  async createIssue(task: Task): Promise<ExternalIssue> {
+    // The deadline is part of the body instead
+    const created = await requestJson<GitHubIssue>(
+      this.provider,
+      `${this.apiUrl}/repos/${this.config.repository}/issues`,
+      {
+        method: "POST",
+        headers: this.headers,
+        body: { title: issueTitle(task), body: issueBody(task), labels: [priorityLabel(task)] },
+      },
+    );
+    return this.toExternalIssue(this.config.repository, created);
+  }
+
+  async getIssue(key: string): Promise<ExternalIssue> {
+    const { repository, number } = parseKey(key);
+    const issue = await requestJson<GitHubIssue>(this.provider, `${this.apiUrl}/repos/${repository}/issues/${number}`, {
+      method: "GET",
+      headers: this.headers,
+    });
+    return this.toExternalIssue(repository, issue);
+  }
+
+  verifyWebhook(rawBody: Buffer | undefined, headers: IncomingHttpHeaders): boolean {
+    return verifySignature(this.config.webhookSecret, rawBody, headers["x-hub-signature-256"], "sha256=");
+  }
+
+  webhookIssueKeys(payload: unknown): string[] {
+    const parsed = gitHubWebhookSchema.safeParse(payload);
+    return parsed.success ? [`${parsed.data.repository.full_name}#${parsed.data.issue.number}`] : [];
+  }
+}
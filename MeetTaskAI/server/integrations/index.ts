@@ -0,0 +1,91 @@
+import { JiraConnector, type JiraConfig } from "./jira";
+import { LinearConnector, type LinearConfig } from "./linear";
+import { GitHubConnector, type GitHubConfig } from "./github";
+import type { IssueConnector } from "./connector";
+import { integrationProviders, type IntegrationProvider } from "@shared/schema";
+
+export { IntegrationError, type ExternalIssue, type IssueConnector } from "./connector";
+
+// A tracker is only offered when all of its required settings are present
+export interface IntegrationConfig {
+  jira?: JiraConfig;
+  linear?: LinearConfig;
+  github?: GitHubConfig;
+}
+
+export function loadIntegrationConfig(env: NodeJS.ProcessEnv = process.env): IntegrationConfig {
+  const config: IntegrationConfig = {};
+
+  if (env.JIRA_BASE_URL && env.JIRA_API_TOKEN && env.JIRA_PROJECT_KEY) {
+    config.jira = {
+      baseUrl: env.JIRA_BASE_URL,
+      email: env.JIRA_EMAIL,
+      apiToken: env.JIRA_API_TOKEN,
+      projectKey: env.JIRA_PROJECT_KEY,
+      issueType: env.JIRA_ISSUE_TYPE || "Task",
+      webhookSecret: env.JIRA_WEBHOOK_SECRET,
+    };
+  }
+  if (env.LINEAR_API_KEY && env.LINEAR_TEAM_ID) {
+    config.linear = {
+      apiUrl: env.LINEAR_API_URL || "https://api.linear.app/graphql",
+      apiKey: env.LINEAR_API_KEY,
+      teamId: env.LINEAR_TEAM_ID,
+      webhookSecret: env.LINEAR_WEBHOOK_SECRET,
+    };
+  }
+  if (env.GITHUB_TOKEN && env.GITHUB_REPOSITORY) {
+    config.github = {
+      apiUrl: env.GITHUB_API_URL || "https://api.github.com",
+      token: env.GITHUB_TOKEN,
+      repository: env.GITHUB_REPOSITORY,
+      webhookSecret: env.GITHUB_WEBHOOK_SECRET,
+    };
+  }
+  return config;
+}
+
+export function createConnector(provider: IntegrationProvider, config: IntegrationConfig): IssueConnector | undefined {
+  switch (provider) {
+    case "jira":
+      return config.jira && new JiraConnector(config.jira);
+    case "linear":
+      return config.linear && new LinearConnector(config.linear);
+    case "github":
+      return config.github && new GitHubConnector(config.github);
+  }
+}
+
+let activeConnectors: Map<IntegrationProvider, IssueConnector> | undefined;
+
+// Built on first use from the environment
+function connectors(): Map<IntegrationProvider, IssueConnector> {
+  if (!activeConnectors) {
+    const config = loadIntegrationConfig();
+    activeConnectors = new Map();
+    for (const provider of integrationProviders) {
+      const connector = createConnector(provider, config);
+      if (connector) {
+        activeConnectors.set(provider, connector);
+      }
+    }
+  }
+  return activeConnectors;
+}
+
+export function getConnector(provider: IntegrationProvider): IssueConnector | undefined {
+  return connectors().get(provider);
+}
+
+export function configuredProviders(): IntegrationProvider[] {
+  return integrationProviders.filter((provider) => connectors().has(provider));
+}
+
+// Lets tests swap in a connector, or remove one, without touching the environment
+export function setConnector(provider: IntegrationProvider, connector: IssueConnector | undefined): void {
+  if (connector) {
+    connectors().set(provider, connector);
+  } else {
+    connectors().delete(provider);
+  }
+}
@@ -0,0 +1,123 @@
+import type { IncomingHttpHeaders } from "http";
+import { z } from "zod";
+import {
+  requestJson,
+  issueTitle,
+  issueBody,
+  issueDueDate,
+  trimTrailingSlash,
+  verifySignature,
+  type ExternalIssue,
+  type IssueConnector,
+} from "./connector";
+import type { Task, TaskPriority, TaskStatus } from "@shared/schema";
+
+export interface JiraConfig {
+  // e.g. https://acme.atlassian.net
+  baseUrl: string;
+  // Jira Cloud signs in with an account email and API token; Server and Data Center
+  // take a personal access token on its own
+  email?: string;
+  apiToken: string;
+  projectKey: string;
+  issueType: string;
+  // The secret entered when registering the webhook
+  webhookSecret?: string;
+}
+
+// Jira's default priority scheme, skipping Highest and Lowest
+const JIRA_PRIORITIES: Record<TaskPriority, string> = {
+  P1: "High",
+  P2: "Medium",
+  P3: "Low",
+};
+
+interface JiraIssue {
+  key: string;
+  fields: {
+    status?: { name: string; statusCategory?: { key: string } };
+    assignee?: { displayName: string } | null;
+    duedate?: string | null;
+  };
+}
+
+// Workflows differ per project, but every status belongs to one of three categories.
+// Blocked is not a category, so it is recognised by name
+function toTaskStatus(status: JiraIssue["fields"]["status"]): TaskStatus {
+  if (status && /block/i.test(status.name)) {
+    return "blocked";
+  }
+  switch (status?.statusCategory?.key) {
+    case "done":
+      return "done";
+    case "indeterminate":
+      return "in_progress";
+    default:
+      return "open";
+  }
+}
+
+// Issue events carry the issue; other events, such as comments on their own, do not
+const jiraWebhookSchema = z.object({ issue: z.object({ key: z.string() }) });
+
+export class JiraConnector implements IssueConnector {
+  readonly provider = "jira";
+  private baseUrl: string;
+
+  constructor(private config: JiraConfig) {
+    this.baseUrl = trimTrailingSlash(config.baseUrl);
+  }
+
+  private get authorization(): string {
+    return this.config.email
+      ? `Basic ${Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString("base64")}`
+      : `Bearer ${this.config.apiToken}`;
+  }
+
+  async createIssue(task: Task, timeZone: string): Promise<ExternalIssue> {
+    const dueDate = issueDueDate(task, timeZone);
+    // Version 2 of the API still takes the description as plain text
+    const created = await requestJson<{ key: string }>(this.provider, `${this.baseUrl}/rest/api/2/issue`, {
+      method: "POST",
+      headers: { Authorization: this.authorization },
+      body: {
+        fields: {
+          project: { key: this.config.projectKey },
+          issuetype: { name: this.config.issueType },
+          summary: issueTitle(task),
+          description: issueBody(task),
+          priority: { name: JIRA_PRIORITIES[task.priority as TaskPriority] ?? JIRA_PRIORITIES.P3 },
+          ...(dueDate ? { duedate: dueDate } : {}),
+        },
+      },
+    });
+    // Creating only returns the key; projects may assign or transition new issues automatically
+    return this.getIssue(created.key);
+  }
+
+  async getIssue(key: string): Promise<ExternalIssue> {
+    const issue = await requestJson<JiraIssue>(
+      this.provider,
+      `${this.baseUrl}/rest/api/2/issue/${encodeURIComponent(key)}?fields=status,assignee,duedate`,
+      { method: "GET", headers: { Authorization: this.authorization } },
+    );
+    return {
+      key: issue.key,
+      url: `${this.baseUrl}/browse/${issue.key}`,
+      fields: {
+        status: toTaskStatus(issue.fields.status),
+        assignee: issue.fields.assignee?.displayName ?? null,
+        dueDate: issue.fields.duedate ?? null,
+      },
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer | undefined, headers: IncomingHttpHeaders): boolean {
+    return verifySignature(this.config.webhookSecret, rawBody, headers["x-hub-signature"], "sha256=");
+  }
+
+  webhookIssueKeys(payload: unknown): string[] {
+    const parsed = jiraWebhookSchema.safeParse(payload);
+    return parsed.success ? [parsed.data.issue.key] : [];
+  }
+}
@@ -0,0 +1,146 @@
+import type { IncomingHttpHeaders } from "http";
+import { z } from "zod";
+import {
+  requestJson,
+  IntegrationError,
+  issueTitle,
+  issueBody,
+  issueDueDate,
+  verifySignature,
+  type ExternalIssue,
+  type IssueConnector,
+} from "./connector";
+import type { Task, TaskPriority, TaskStatus } from "@shared/schema";
+
+export interface LinearConfig {
+  // The GraphQL endpoint, https://api.linear.app/graphql unless pointed at a stub
+  apiUrl: string;
+  apiKey: string;
+  teamId: string;
+  // The signing secret Linear shows for the webhook
+  webhookSecret?: string;
+}
+
+// Linear numbers priorities 1 (urgent) to 4 (low); 0 means none
+const LINEAR_PRIORITIES: Record<TaskPriority, number> = {
+  P1: 2,
+  P2: 3,
+  P3: 4,
+};
+
+// Workflow states are per team, but each has one of these types
+const LINEAR_STATE_STATUSES: Record<string, TaskStatus> = {
+  triage: "open",
+  backlog: "open",
+  unstarted: "open",
+  started: "in_progress",
+  completed: "done",
+  canceled: "done",
+};
+
+const ISSUE_FIELDS = "identifier url dueDate assignee { name } state { type }";
+
+const CREATE_ISSUE = `
+  mutation CreateIssue($input: IssueCreateInput!) {
+    issueCreate(input: $input) {
+      success
+      issue { ${ISSUE_FIELDS} }
+    }
+  }
+`;
+
+const GET_ISSUE = `
+  query GetIssue($id: String!) {
+    issue(id: $id) { ${ISSUE_FIELDS} }
+  }
+`;
+
+interface LinearIssue {
+  identifier: string;
+  url: string;
+  dueDate: string | null;
+  assignee: { name: string } | null;
+  state: { type: string } | null;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string; extensions?: { code?: string } }[];
+}
+
+function toExternalIssue(issue: LinearIssue): ExternalIssue {
+  return {
+    key: issue.identifier,
+    url: issue.url,
+    fields: {
+      status: LINEAR_STATE_STATUSES[issue.state?.type ?? ""] ?? "open",
+      assignee: issue.assignee?.name ?? null,
+      dueDate: issue.dueDate,
+    },
+  };
+}
+
+// Linear sends one webhook for every kind of entity; only issues are synced
+const linearWebhookSchema = z.object({
+  type: z.literal("Issue"),
+  data: z.object({ identifier: z.string() }),
+});
+
+export class LinearConnector implements IssueConnector {
+  readonly provider = "linear";
+
+  constructor(private config: LinearConfig) {}
+
+  // GraphQL reports most failures in the body of a 200 response
+  private async query<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await requestJson<GraphQLResponse<T>>(this.provider, this.config.apiUrl, {
+      method: "POST",
+      // Personal API keys are sent as they are, without a scheme
+      headers: { Authorization: this.config.apiKey },
+      body: { query, variables },
+    });
+    if (response?.errors?.length || !response?.data) {
+      const detail = response?.errors?.map((error) => error.message).join("; ") || "empty response";
+      const notFound = response?.errors?.some((error) => error.extensions?.code === "ENTITY_NOT_FOUND");
+      throw new IntegrationError(`Linear rejected the request: ${detail}`, notFound ? 404 : undefined);
+    }
+    return response.data;
+  }
+
+  async createIssue(task: Task, timeZone: string): Promise<ExternalIssue> {
+    const dueDate = issueDueDate(task, timeZone);
+    const { issueCreate } = await this.query<{
+      issueCreate: { success: boolean; issue: LinearIssue | null };
+    }>(CREATE_ISSUE, {
+      input: {
+        teamId: this.config.teamId,
+        title: issueTitle(task),
+        description: issueBody(task),
+        priority: LINEAR_PRIORITIES[task.priority as TaskPriority] ?? LINEAR_PRIORITIES.P3,
+        ...(dueDate ? { dueDate } : {}),
+      },
+    });
+    if (!issueCreate.success || !issueCreate.issue) {
+      throw new IntegrationError("Linear did not create the issue");
+    }
+    return toExternalIssue(issueCreate.issue);
+  }
+
+  async getIssue(key: string): Promise<ExternalIssue> {
+    // Linear looks issues up by identifier as well as by ID
+    const { issue } = await this.query<{ issue: LinearIssue | null }>(GET_ISSUE, { id: key });
+    if (!issue) {
+      throw new IntegrationError(`Linear has no issue ${key}`, 404);
+    }
+    return toExternalIssue(issue);
+  }
+
+  verifyWebhook(rawBody: Buffer | undefined, headers: IncomingHttpHeaders): boolean {
+    return verifySignature(this.config.webhookSecret, rawBody, headers["linear-signature"]);
+  }
+
+  webhookIssueKeys(payload: unknown): string[] {
+    const parsed = linearWebhookSchema.safeParse(payload);
+    return parsed.success ? [parsed.data.data.identifier] : [];
+  }
+}
@@ -0,0 +1,223 @@
+import type { Express } from "express";
+import { storage, MissingTasksError } from "../storage";
+import { requireAuth } from "../auth";
+import { resolveScope, requireRole, currentScope } from "../workspaces";
+import { configuredProviders, getConnector, IntegrationError } from "./index";
+import { syncTask, syncTasks, taskFields } from "./sync";
+import { taskTimeZone } from "../task-updates";
+import {
+  integrationProviders,
+  integrationProviderLabels,
+  taskPushSchema,
+  syncConflictResolutionSchema,
+  type IntegrationProvider,
+  type TaskPushReport,
+  type TaskPushResult,
+} from "@shared/schema";
+
+declare module "http" {
+  interface IncomingMessage {
+    // The request body exactly as received, kept for checking webhook signatures
+    rawBody?: Buffer;
+  }
+}
+
+function parseProvider(value: string): IntegrationProvider | null {
+  return (integrationProviders as readonly string[]).includes(value) ? (value as IntegrationProvider) : null;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+export function registerIntegrationRoutes(app: Express) {
+  // Trackers call this when a linked issue changes. They cannot log in, so it is
+  // registered ahead of the session check and trusts the signature instead
+  app.post("/api/integrations/:provider/webhook", async (req, res) => {
+    try {
+      const provider = parseProvider(req.params.provider);
+      const connector = provider && getConnector(provider);
+      if (!connector) {
+        return res.status(404).json({ message: "Unknown integration" });
+      }
+      if (!connector.verifyWebhook(req.rawBody, req.headers)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const keys = connector.webhookIssueKeys(req.body);
+      const linkedTasks = (await Promise.all(keys.map((key) => storage.getTasksByExternalKey(connector.provider, key)))).flat();
+      const report = await syncTasks(linkedTasks);
+      // The tracker only needs to know the delivery was handled
+      res.json({ message: report.message });
+    } catch (error) {
+      console.error("Error handling integration webhook:", error);
+      res.status(500).json({ message: "Failed to handle webhook" });
+    }
+  });
+
+  app.use("/api/integrations", requireAuth, resolveScope);
+
+  // The trackers this server has credentials for
+  app.get("/api/integrations", (req, res) => {
+    res.json({ providers: configuredProviders() });
+  });
+
+  // Create an issue for each selected task and remember where it went. Issues cannot be
+  // taken back once created, so unlike other bulk changes this is not all or nothing:
+  // each task succeeds or fails on its own and the report says which
+  app.post("/api/integrations/:provider/push", requireRole("editor"), async (req, res) => {
+    try {
+      const provider = parseProvider(req.params.provider);
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown integration" });
+      }
+      const label = integrationProviderLabels[provider];
+      const connector = getConnector(provider);
+      if (!connector) {
+        return res.status(400).json({ message: `${label} is not configured on this server` });
+      }
+
+      const result = taskPushSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid push request", errors: result.error.flatten().fieldErrors });
+      }
+
+      const { ids } = result.data;
+      const scope = currentScope(res);
+      const existingTasks = await storage.getTasksByIds(scope, ids);
+      if (existingTasks.length !== ids.length) {
+        const found = new Set(existingTasks.map((task) => task.id));
+        throw new MissingTasksError(ids.filter((id) => !found.has(id)));
+      }
+
+      // Pushing twice would leave a duplicate issue behind
+      const errors: Record<string, string[]> = {};
+      for (const task of existingTasks) {
+        if (task.externalKey) {
+          errors[String(task.id)] = [`Already pushed to ${integrationProviderLabels[task.externalProvider as IntegrationProvider] ?? task.externalProvider} as ${task.externalKey}`];
+        }
+      }
+      if (Object.keys(errors).length > 0) {
+        return res.status(400).json({
+          message: `${Object.keys(errors).length} of the selected tasks are already linked to an issue`,
+          errors,
+        });
+      }
+
+      const results: TaskPushResult[] = [];
+      for (const task of existingTasks) {
+        try {
+          const timeZone = await taskTimeZone(scope, task);
+          const issue = await connector.createIssue(task, timeZone);
+          const linkedTask = await storage.linkTask(scope, task.id, {
+            externalProvider: provider,
+            externalKey: issue.key,
+            externalUrl: issue.url,
+            // The baseline later syncs compare both sides against
+            externalSync: { syncedAt: new Date().toISOString(), local: taskFields(task, timeZone), remote: issue.fields, conflicts: [] },
+          });
+          results.push(
+            linkedTask
+              ? { taskId: task.id, task: linkedTask }
+              : { taskId: task.id, error: `Created ${issue.key}, but the task was deleted in the meantime` },
+          );
+        } catch (error) {
+          if (!(error instanceof IntegrationError)) {
+            console.error(`Error pushing task ${task.id} to ${label}:`, error);
+          }
+          results.push({
+            taskId: task.id,
+            error: error instanceof IntegrationError ? error.message : `Failed to create the ${label} issue`,
+          });
+        }
+      }
+
+      const pushedCount = results.filter((entry) => entry.task).length;
+      const errorCount = results.length - pushedCount;
+      const report: TaskPushReport = {
+        message: errorCount === 0
+          ? `Pushed ${pushedCount} tasks to ${label}`
+          : pushedCount === 0
+            ? `Could not push the tasks to ${label}. ${results[0].error}`
+            : `Pushed ${pushedCount} of ${results.length} tasks to ${label}`,
+        provider,
+        results,
+        pushedCount,
+        errorCount,
+      };
+      // Nothing made it across: the tracker is down or refusing every request
+      res.status(pushedCount === 0 ? 502 : 200).json(report);
+    } catch (error) {
+      if (error instanceof MissingTasksError) {
+        return res.status(404).json({ message: "Some tasks were not found", missingIds: error.ids });
+      }
+      console.error("Error pushing tasks:", error);
+      res.status(500).json({ message: "Failed to push tasks" });
+    }
+  });
+
+  // Pull the latest from every linked issue in the current workspace now, instead of
+  // waiting for the next poll
+  app.post("/api/integrations/sync", requireRole("editor"), async (req, res) => {
+    try {
+      const linkedTasks = await storage.getLinkedTasks(currentScope(res));
+      res.json(await syncTasks(linkedTasks));
+    } catch (error) {
+      console.error("Error syncing linked issues:", error);
+      res.status(500).json({ message: "Failed to sync linked issues" });
+    }
+  });
+
+  // Linked tasks whose last sync found both sides changed
+  app.get("/api/integrations/conflicts", async (req, res) => {
+    try {
+      const linkedTasks = await storage.getLinkedTasks(currentScope(res));
+      res.json(linkedTasks.filter((task) => (task.externalSync?.conflicts.length ?? 0) > 0));
+    } catch (error) {
+      console.error("Error fetching sync conflicts:", error);
+      res.status(500).json({ message: "Failed to fetch sync conflicts" });
+    }
+  });
+
+  // Settle a task's conflicts by keeping its own values or taking the issue's. Keeping
+  // the task's values does not change the issue; it only stops reporting the conflict
+  app.post("/api/integrations/conflicts/:taskId/resolve", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseId(req.params.taskId);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid task ID" });
+      }
+      const result = syncConflictResolutionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid conflict resolution", errors: result.error.flatten().fieldErrors });
+      }
+
+      const scope = currentScope(res);
+      const task = await storage.getTask(scope, id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!task.externalSync?.conflicts.length) {
+        return res.status(409).json({ message: "This task has no sync conflicts" });
+      }
+      const provider = task.externalProvider as IntegrationProvider;
+      const connector = getConnector(provider);
+      if (!connector) {
+        return res.status(400).json({ message: `${integrationProviderLabels[provider] ?? provider} is not configured on this server` });
+      }
+
+      const outcome = await syncTask(task, connector, result.data.keep);
+      if (outcome.outcome === "error") {
+        return res.status(502).json({ message: outcome.error });
+      }
+      res.json({
+        message: result.data.keep === "local" ? "Kept this task's values" : `Took the values from ${task.externalKey}`,
+        task: await storage.getTask(scope, id),
+      });
+    } catch (error) {
+      console.error("Error resolving sync conflict:", error);
+      res.status(500).json({ message: "Failed to resolve sync conflict" });
+    }
+  });
+}
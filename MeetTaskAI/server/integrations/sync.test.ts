@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { storage, type DataScope } from "../storage";
+import { syncTask, taskFields } from "./sync";
+import type { ExternalIssue, IssueConnector } from "./connector";
+import type { InsertTask, SyncedFields, Task } from "@shared/schema";
+
+// A tracker holding one issue, whose fields the test changes between syncs
+class FakeConnector implements IssueConnector {
+  readonly provider = "jira";
+  fields: SyncedFields = { status: "open", assignee: "Dana", dueDate: null };
+
+  async createIssue(): Promise<ExternalIssue> {
+    return this.getIssue("OPS-1");
+  }
+
+  async getIssue(key: string): Promise<ExternalIssue> {
+    return { key, url: `https://tracker.test/browse/${key}`, fields: { ...this.fields } };
+  }
+
+  verifyWebhook(): boolean {
+    return true;
+  }
+
+  webhookIssueKeys(): string[] {
+    return [];
+  }
+}
+
+let scope: DataScope;
+let connector: FakeConnector;
+
+beforeEach(async () => {
+  const user = await storage.createUser({ username: `sync-${Date.now()}-${Math.random()}`, password: "hashed" });
+  scope = { ownerId: user.id, workspaceId: null };
+  connector = new FakeConnector();
+});
+
+// A task linked to the fake issue, with both sides matching at the last sync
+async function linkedTask(data: Partial<InsertTask> = {}, timeZone = "UTC"): Promise<Task> {
+  const task = await storage.createTask(scope, {
+    description: "Send the budget",
+    assignee: "Dana",
+    deadlineText: "no deadline",
+    priority: "P2",
+    ...data,
+  });
+  const local = taskFields(task, timeZone);
+  connector.fields = { ...local };
+  const state = { syncedAt: new Date().toISOString(), local, remote: { ...local }, conflicts: [] };
+  return (await storage.linkTask(scope, task.id, { externalProvider: "jira", externalKey: "OPS-1", externalSync: state }))!;
+}
+
+describe("syncTask", () => {
+  it("stamps completedAt when the issue is closed", async () => {
+    const task = await linkedTask();
+    connector.fields.status = "done";
+
+    const result = await syncTask(task, connector);
+    expect(result).toMatchObject({ outcome: "updated", updated: ["status"] });
+    const saved = await storage.getTask(scope, task.id);
+    expect(saved?.status).toBe("done");
+    expect(saved?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("reports a status change the app would refuse and leaves the task alone", async () => {
+    const task = await linkedTask({ status: "blocked" });
+    connector.fields.status = "done";
+
+    const result = await syncTask(task, connector);
+    expect(result.outcome).toBe("error");
+    expect(result.error).toContain("Cannot move a task from blocked to done");
+    const saved = await storage.getTask(scope, task.id);
+    expect(saved).toMatchObject({ status: "blocked", completedAt: null });
+    expect(saved?.externalSync?.remote.status).toBe("blocked");
+  });
+
+  it("reads the issue's due date in the meeting's time zone", async () => {
+    const meeting = await storage.createMeeting(scope, {
+      title: "Planning",
+      sourceType: "text",
+      transcript: "Dana sends the budget.",
+      timeZone: "America/New_York",
+    });
+    const task = await linkedTask({ meetingId: meeting.id }, "America/New_York");
+    connector.fields.dueDate = "2026-10-23";
+
+    expect((await syncTask(task, connector)).outcome).toBe("updated");
+    const saved = await storage.getTask(scope, task.id);
+    expect(saved?.dueAt?.toISOString()).toBe("2026-10-24T03:59:00.000Z");
+    expect(saved?.deadlineText).toBe("by Fri, Oct 23");
+    expect(saved?.externalSync?.local.dueDate).toBe("2026-10-23");
+  });
+
+  it("reports a conflict when both sides changed the same field", async () => {
+    const task = await linkedTask();
+    const edited = await storage.updateTask(scope, task.id, { assignee: "Lee" }, task.version);
+    connector.fields.assignee = "Priya";
+
+    const result = await syncTask(edited!, connector);
+    expect(result).toMatchObject({ outcome: "conflict", conflicts: [{ field: "assignee", local: "Lee", remote: "Priya" }] });
+    expect((await storage.getTask(scope, task.id))?.assignee).toBe("Lee");
+  });
+});
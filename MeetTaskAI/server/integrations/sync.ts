@@ -0,0 +1,245 @@
+import { storage, VersionConflictError, type DataScope } from "../storage";
+import { resolveDueDate, NO_DEADLINE } from "../deadline";
+import { prepareTaskUpdate, taskTimeZone } from "../task-updates";
+import { configuredProviders, getConnector } from "./index";
+import { IntegrationError, issueDueDate, type IssueConnector } from "./connector";
+import {
+  syncedTaskFields,
+  integrationProviderLabels,
+  UNKNOWN_FIELD_VALUE,
+  type ExternalSyncState,
+  type InsertTask,
+  type IntegrationProvider,
+  type IssueSyncReport,
+  type SyncConflict,
+  type SyncedFields,
+  type SyncedTaskField,
+  type Task,
+  type TaskStatus,
+  type TaskSyncResult,
+} from "@shared/schema";
+
+// The side to keep when settling a conflict
+export type ConflictChoice = "local" | "remote";
+
+// The zone is the one the task's deadline is read in, so due dates compare as the same day
+export function taskFields(task: Task, timeZone: string): SyncedFields {
+  return {
+    status: task.status as TaskStatus,
+    assignee: task.assignee === UNKNOWN_FIELD_VALUE ? null : task.assignee,
+    dueDate: issueDueDate(task, timeZone),
+  };
+}
+
+// Names are typed by hand in one system and picked from a list in the other
+function sameValue(a: string | null, b: string | null): boolean {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function copyField(target: SyncedFields, source: SyncedFields, field: SyncedTaskField) {
+  Object.assign(target, { [field]: source[field] });
+}
+
+// "2026-10-23" becomes "by Fri, Oct 23", like a deadline picked on the calendar
+function deadlineTextFor(dueDate: string): string {
+  const day = new Date(`${dueDate}T00:00:00Z`);
+  return `by ${new Intl.DateTimeFormat("en-US", { timeZone: "UTC", weekday: "short", month: "short", day: "numeric" }).format(day)}`;
+}
+
+// The edit that brings one field in line with the issue, as a person would make it. It goes
+// through the same checks as an edit in the app, which stamp completedAt and the rest
+function remoteUpdates(field: SyncedTaskField, remote: SyncedFields, timeZone: string): Partial<InsertTask> {
+  switch (field) {
+    case "status":
+      return { status: remote.status };
+    case "assignee":
+      return { assignee: remote.assignee ?? UNKNOWN_FIELD_VALUE };
+    case "dueDate": {
+      // The issue's day ends when it does where the meeting happened
+      const dueAt = remote.dueDate ? resolveDueDate(remote.dueDate, timeZone) : null;
+      return dueAt
+        ? { dueAt, deadlineText: deadlineTextFor(remote.dueDate!) }
+        : { dueAt: null, deadlineText: NO_DEADLINE };
+    }
+  }
+}
+
+/**
+ * Brings a linked task up to date with its issue. Each field is compared
+ * with both sides as they were at the last sync: a field only the issue
+ * changed is copied to the task, and a field both sides changed to
+ * different values is reported as a conflict and left alone. With `keep`,
+ * conflicting fields are settled in favour of that side instead.
+ */
+export async function syncTask(task: Task, connector: IssueConnector, keep?: ConflictChoice): Promise<TaskSyncResult> {
+  const key = task.externalKey ?? "";
+  const scope: DataScope = { ownerId: task.ownerId, workspaceId: task.workspaceId };
+
+  try {
+    const issue = await connector.getIssue(key);
+    const timeZone = await taskTimeZone(scope, task);
+    const local = taskFields(task, timeZone);
+    const remote = issue.fields;
+    const base = task.externalSync;
+
+    const updates: Partial<InsertTask> = {};
+    const updated: SyncedTaskField[] = [];
+    const conflicts: SyncConflict[] = [];
+    // Without a previous sync there is nothing to compare with, so both sides become the baseline
+    if (base) {
+      for (const field of syncedTaskFields) {
+        const remoteChanged = !sameValue(remote[field], base.remote[field]);
+        if (!remoteChanged || sameValue(local[field], remote[field])) {
+          continue;
+        }
+        const localChanged = !sameValue(local[field], base.local[field]);
+        if (localChanged && keep === "local") {
+          continue;
+        }
+        if (localChanged && keep !== "remote") {
+          conflicts.push({ field, local: local[field], remote: remote[field] });
+          continue;
+        }
+        Object.assign(updates, remoteUpdates(field, remote, timeZone));
+        updated.push(field);
+      }
+    }
+
+    let saved = task;
+    if (updated.length > 0) {
+      // A change the app would refuse, such as blocked straight to done, is reported
+      // instead. The baseline stays as it was, so the next sync tries again
+      const prepared = await prepareTaskUpdate(scope, task, updates);
+      if ("error" in prepared) {
+        return { taskId: task.id, key, outcome: "error", error: `${key} has a ${prepared.field} the task cannot take: ${prepared.error}` };
+      }
+      const updatedTask = await storage.updateTask(scope, task.id, prepared.updates, task.version);
+      if (!updatedTask) {
+        return { taskId: task.id, key, outcome: "error", error: "The task was deleted while syncing" };
+      }
+      saved = updatedTask;
+    }
+
+    // Conflicting fields keep their old baseline, so they are reported again until settled
+    const state: ExternalSyncState = {
+      syncedAt: new Date().toISOString(),
+      local: taskFields(saved, timeZone),
+      remote: { ...remote },
+      conflicts,
+    };
+    for (const conflict of conflicts) {
+      copyField(state.local, base!.local, conflict.field);
+      copyField(state.remote, base!.remote, conflict.field);
+    }
+    await storage.linkTask(scope, task.id, { externalUrl: issue.url, externalSync: state });
+
+    return {
+      taskId: task.id,
+      key,
+      outcome: conflicts.length > 0 ? "conflict" : updated.length > 0 ? "updated" : "unchanged",
+      ...(updated.length > 0 ? { updated } : {}),
+      ...(conflicts.length > 0 ? { conflicts } : {}),
+    };
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return { taskId: task.id, key, outcome: "error", error: "The task was edited while syncing; it will be synced again next time" };
+    }
+    if (error instanceof IntegrationError) {
+      return {
+        taskId: task.id,
+        key,
+        outcome: "error",
+        error: error.status === 404 ? `${key} no longer exists or cannot be seen` : error.message,
+      };
+    }
+    console.error(`Error syncing task ${task.id} with ${key}:`, error);
+    return { taskId: task.id, key, outcome: "error", error: "Failed to sync the task" };
+  }
+}
+
+// One task at a time, to stay well inside the trackers' rate limits
+export async function syncTasks(tasks: Task[]): Promise<IssueSyncReport> {
+  const results: TaskSyncResult[] = [];
+  for (const task of tasks) {
+    const provider = task.externalProvider as IntegrationProvider;
+    const connector = getConnector(provider);
+    results.push(
+      connector
+        ? await syncTask(task, connector)
+        : {
+            taskId: task.id,
+            key: task.externalKey ?? "",
+            outcome: "error",
+            error: `${integrationProviderLabels[provider] ?? provider} is not configured on this server`,
+          },
+    );
+  }
+
+  const count = (outcome: TaskSyncResult["outcome"]) => results.filter((result) => result.outcome === outcome).length;
+  const updatedCount = count("updated");
+  const conflictCount = count("conflict");
+  const errorCount = count("error");
+  return {
+    message: `Synced ${results.length} linked tasks: ${updatedCount} updated, ${conflictCount} in conflict, ${errorCount} failed`,
+    results,
+    updatedCount,
+    conflictCount,
+    errorCount,
+  };
+}
+
+export function getSyncIntervalMinutes(env: NodeJS.ProcessEnv = process.env): number {
+  const minutes = Number(env.INTEGRATION_SYNC_MINUTES ?? 15);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+}
+
+/**
+ * Polls every linked issue on a timer, for trackers whose webhooks cannot
+ * reach this server. A run that is still going when the next one is due
+ * is not overlapped.
+ */
+export class IssueSyncWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  // Zero minutes, or no trackers configured, leaves polling off
+  start(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0 || configuredProviders().length === 0) {
+      return;
+    }
+    this.timer = setInterval(() => void this.runOnce(), intervalMinutes * 60 * 1000);
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async runOnce(): Promise<IssueSyncReport | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+    try {
+      // Tasks linked to a tracker that has since been unconfigured are skipped, not failed
+      const providers = configuredProviders();
+      const tasks = (await storage.getLinkedTasks()).filter((task) =>
+        providers.includes(task.externalProvider as IntegrationProvider),
+      );
+      const report = await syncTasks(tasks);
+      if (report.conflictCount > 0 || report.errorCount > 0) {
+        console.warn(`Issue sync: ${report.message}`);
+      }
+      return report;
+    } catch (error) {
+      console.error("Error syncing linked issues:", error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const issueSyncWorker = new IssueSyncWorker();
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JobCancelledError, JobManager, type JobContext } from "./jobs";
+
+// A job body that waits until the test lets it finish
+function controlledRun() {
+  let context!: JobContext;
+  let finish!: (result: unknown) => void;
+  let fail!: (error: unknown) => void;
+  const run = (jobContext: JobContext) => {
+    context = jobContext;
+    return new Promise((resolve, reject) => {
+      finish = resolve;
+      fail = reject;
+    });
+  };
+  return { run, context: () => context, finish: (result?: unknown) => finish(result), fail: (error: unknown) => fail(error) };
+}
+
+// Lets the promise callbacks JobManager attached to the run settle
+async function settle() {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("JobManager", () => {
+  it("reports each stage and the progress within it until the job completes", async () => {
+    const jobs = new JobManager();
+    const body = controlledRun();
+    const job = jobs.start(1, body.run);
+    expect(job).toMatchObject({ status: "running", stage: "uploaded", progress: 0 });
+
+    body.context().setStage("transcribing", "2 segments");
+    expect(jobs.get(job.id, 1)).toMatchObject({ stage: "transcribing", progress: 20, detail: "2 segments" });
+
+    body.context().setStageProgress(1, 2, "Segment 1 of 2");
+    expect(jobs.get(job.id, 1)).toMatchObject({ stage: "transcribing", progress: 45, detail: "Segment 1 of 2" });
+
+    body.context().setStageProgress(5, 2);
+    expect(jobs.get(job.id, 1)?.progress).toBe(70);
+
+    body.finish({ saved: 3 });
+    await settle();
+    expect(jobs.get(job.id, 1)).toMatchObject({ status: "completed", progress: 100, result: { saved: 3 } });
+    expect(jobs.get(job.id, 1)?.detail).toBeUndefined();
+  });
+
+  it("records why a job failed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const jobs = new JobManager();
+    const body = controlledRun();
+    const job = jobs.start(1, body.run);
+
+    body.fail(new Error("No speech detected in audio file"));
+    await settle();
+    expect(jobs.get(job.id, 1)).toMatchObject({ status: "failed", error: "No speech detected in audio file" });
+  });
+
+  it("aborts the worker's signal on cancel and keeps later stages from overwriting it", async () => {
+    const jobs = new JobManager();
+    const body = controlledRun();
+    const job = jobs.start(1, body.run);
+    body.context().setStage("transcribing");
+
+    expect(jobs.cancel(job.id, 1)).toMatchObject({ status: "cancelled", stage: "transcribing" });
+    expect(body.context().signal.aborted).toBe(true);
+    expect(() => body.context().setStage("extracting_tasks")).toThrow(JobCancelledError);
+    expect(() => body.context().setStageProgress(1, 2)).toThrow(JobCancelledError);
+    expect(() => body.context().throwIfCancelled()).toThrow(JobCancelledError);
+
+    // A worker that ignores the signal and finishes anyway does not revive the job
+    body.finish({ saved: 3 });
+    await settle();
+    const cancelled = jobs.get(job.id, 1);
+    expect(cancelled).toMatchObject({ status: "cancelled", stage: "transcribing" });
+    expect(cancelled?.result).toBeUndefined();
+  });
+
+  it("refuses to cancel a job that is already saving", async () => {
+    const jobs = new JobManager();
+    const body = controlledRun();
+    const job = jobs.start(1, body.run);
+    body.context().setStage("saving");
+
+    expect(jobs.cancel(job.id, 1)).toMatchObject({ status: "running", stage: "saving" });
+    expect(body.context().signal.aborted).toBe(false);
+
+    body.finish({ saved: 1 });
+    await settle();
+    expect(jobs.get(job.id, 1)?.status).toBe("completed");
+  });
+
+  it("only shows and cancels a job for the user who started it", async () => {
+    const jobs = new JobManager();
+    const body = controlledRun();
+    const job = jobs.start(1, body.run);
+
+    expect(jobs.get(job.id, 2)).toBeUndefined();
+    expect(jobs.cancel(job.id, 2)).toBeUndefined();
+    expect(body.context().signal.aborted).toBe(false);
+    expect(jobs.get(job.id, 1)?.status).toBe("running");
+  });
+
+  it("forgets finished jobs an hour after they end, but never running ones", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-01-01T09:00:00Z"));
+    const jobs = new JobManager();
+    const finished = controlledRun();
+    const running = controlledRun();
+    const finishedJob = jobs.start(1, finished.run);
+    const runningJob = jobs.start(1, running.run);
+    finished.finish();
+    await settle();
+
+    vi.setSystemTime(new Date("2030-01-01T09:59:00Z"));
+    jobs.start(1, controlledRun().run);
+    expect(jobs.get(finishedJob.id, 1)?.status).toBe("completed");
+
+    vi.setSystemTime(new Date("2030-01-01T10:01:00Z"));
+    jobs.start(1, controlledRun().run);
+    expect(jobs.get(finishedJob.id, 1)).toBeUndefined();
+    expect(jobs.get(runningJob.id, 1)?.status).toBe("running");
+  });
+});
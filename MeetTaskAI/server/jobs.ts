@@ -0,0 +1,148 @@
+import { randomUUID } from "crypto";
+import type { JobStage, ProcessingJob } from "@shared/schema";
+
+// Where each stage starts on the overall progress bar; work inside a stage fills the gap to the next
+const STAGE_PROGRESS: Record<JobStage, number> = {
+  uploaded: 0,
+  extracting_audio: 5,
+  transcribing: 20,
+  extracting_tasks: 70,
+  saving: 90,
+};
+const STAGE_END: Record<JobStage, number> = {
+  uploaded: 5,
+  extracting_audio: 20,
+  transcribing: 70,
+  extracting_tasks: 90,
+  saving: 100,
+};
+
+// Finished jobs are kept this long so a slow poller still sees the outcome
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setStage(stage: JobStage, detail?: string): void;
+  // Reports `done` of `total` units of work within the current stage
+  setStageProgress(done: number, total: number, detail?: string): void;
+  // Throws JobCancelledError once the job has been cancelled
+  throwIfCancelled(): void;
+}
+
+interface JobRecord {
+  // The user who started the job; nobody else can see or cancel it
+  ownerId: number;
+  job: ProcessingJob;
+  controller: AbortController;
+}
+
+/**
+ * Runs long uploads in the background so the HTTP request can return
+ * straight away. Jobs live in memory only; a restart forgets them, which is
+ * fine because the client simply resubmits.
+ */
+export class JobManager {
+  private jobs = new Map<string, JobRecord>();
+
+  start(ownerId: number, run: (context: JobContext) => Promise<unknown>): ProcessingJob {
+    this.prune();
+
+    const now = new Date().toISOString();
+    const record: JobRecord = {
+      ownerId,
+      job: { id: randomUUID(), status: "running", stage: "uploaded", progress: 0, createdAt: now, updatedAt: now },
+      controller: new AbortController(),
+    };
+    this.jobs.set(record.job.id, record);
+
+    const { signal } = record.controller;
+    const context: JobContext = {
+      signal,
+      setStage: (stage, detail) => {
+        this.throwIfAborted(signal);
+        this.update(record, { stage, detail, progress: STAGE_PROGRESS[stage] });
+      },
+      setStageProgress: (done, total, detail) => {
+        this.throwIfAborted(signal);
+        const start = STAGE_PROGRESS[record.job.stage];
+        const span = STAGE_END[record.job.stage] - start;
+        const fraction = total > 0 ? Math.min(done / total, 1) : 0;
+        this.update(record, { detail, progress: Math.round(start + span * fraction) });
+      },
+      throwIfCancelled: () => this.throwIfAborted(signal),
+    };
+
+    run(context).then(
+      (result) => {
+        if (record.job.status === "running") {
+          this.update(record, { status: "completed", progress: 100, detail: undefined, result });
+        }
+      },
+      (error) => {
+        if (record.job.status !== "running") {
+          return;
+        }
+        if (error instanceof JobCancelledError || signal.aborted) {
+          this.update(record, { status: "cancelled" });
+        } else {
+          console.error(`Job ${record.job.id} failed:`, error);
+          this.update(record, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+    );
+
+    return { ...record.job };
+  }
+
+  get(id: string, ownerId: number): ProcessingJob | undefined {
+    const record = this.find(id, ownerId);
+    return record ? { ...record.job } : undefined;
+  }
+
+  // Returns the job as it stands after the request, or undefined when it does not exist
+  cancel(id: string, ownerId: number): ProcessingJob | undefined {
+    const record = this.find(id, ownerId);
+    if (!record) {
+      return undefined;
+    }
+    // Saving writes the meeting and its tasks; stopping halfway would leave a partial import
+    if (record.job.status === "running" && record.job.stage !== "saving") {
+      this.update(record, { status: "cancelled" });
+      record.controller.abort();
+    }
+    return { ...record.job };
+  }
+
+  private find(id: string, ownerId: number): JobRecord | undefined {
+    const record = this.jobs.get(id);
+    return record?.ownerId === ownerId ? record : undefined;
+  }
+
+  private update(record: JobRecord, changes: Partial<ProcessingJob>): void {
+    record.job = { ...record.job, ...changes, updatedAt: new Date().toISOString() };
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new JobCancelledError();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    this.jobs.forEach((record, id) => {
+      if (record.job.status !== "running" && Date.parse(record.job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+export const jobManager = new JobManager();
@@ -0,0 +1,34 @@
+import fs from "fs";
+import type { AiProvider, ExtractedTask, TranscriptionResult } from "./ai";
+
+export interface MockFixtures {
+  // The first entry whose `match` appears in the transcript supplies the tasks
+  extractions?: { match: string; tasks: ExtractedTask[] }[];
+  // The first entry whose `match` appears in the filename supplies the text
+  transcriptions?: { match: string; text: string }[];
+}
+
+// Deterministic, network-free provider for local development and CI
+export class MockProvider implements AiProvider {
+  readonly name = "mock";
+
+  constructor(private fixtures: MockFixtures = {}) {}
+
+  static fromFile(fixturesPath?: string): MockProvider {
+    if (!fixturesPath) {
+      return new MockProvider();
+    }
+    const fixtures = JSON.parse(fs.readFileSync(fixturesPath, "utf-8")) as MockFixtures;
+    return new MockProvider(fixtures);
+  }
+
+  async extractTasks(transcript: string): Promise<ExtractedTask[]> {
+    const fixture = this.fixtures.extractions?.find((entry) => transcript.includes(entry.match));
+    return fixture ? fixture.tasks.map((task) => ({ ...task })) : [];
+  }
+
+  async transcribe(_audio: Buffer, filename: string): Promise<TranscriptionResult> {
+    const fixture = this.fixtures.transcriptions?.find((entry) => filename.includes(entry.match));
+    return { text: fixture ? fixture.text : `Mock transcript for ${filename}` };
+  }
+}
@@ -1,22 +1,26 @@
 import OpenAI from "openai";
-import { spawn } from "child_process";
-import fs from "fs";
-import path from "path";
+import type { AiConfig, AiProvider, ExtractedTask, TranscriptionResult } from "./ai";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || "enter ur api here"
-});
+type OpenAIProviderOptions = Pick<AiConfig, "apiKey" | "baseURL" | "model" | "transcriptionModel">;
 
-export interface ExtractedTask {
-  description: string;
-  assignee: string;
-  deadline: string;
-  priority: string;
-}
+// Talks to OpenAI, or to any server exposing the same chat and transcription API
+export class OpenAIProvider implements AiProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+  private transcriptionModel: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+    this.name = options.baseURL ? "openai-compatible" : "openai";
+    this.model = options.model;
+    this.transcriptionModel = options.transcriptionModel;
+  }
 
-export async function extractTasksFromTranscript(transcript: string): Promise<ExtractedTask[]> {
-  try {
+  async extractTasks(transcript: string): Promise<ExtractedTask[]> {
     const prompt = `
 Analyze the following meeting transcript and extract all actionable tasks. Pay special attention to deadlines and time references.
 
@@ -41,7 +45,9 @@ Return the results as a JSON object with a "tasks" array:
       "description": "brief task description",
       "assignee": "person assigned to the task",
       "deadline": "exact deadline mentioned (preserve original phrasing)",
-      "priority": "P3"
+      "priority": "P3",
+      "quote": "the sentence from the transcript this task comes from, copied word for word",
+      "confidence": { "description": 0.9, "assignee": 0.8, "deadline": 0.6, "priority": 0.9 }
     }
   ]
 }
@@ -49,11 +55,11 @@ Return the results as a JSON object with a "tasks" array:
 Meeting transcript:
 ${transcript}
 
-IMPORTANT: Capture the exact deadline phrasing from the transcript. If no specific deadline is mentioned, write "No deadline specified". Always default priority to P3 unless P1 or P2 is explicitly mentioned.
+IMPORTANT: Capture the exact deadline phrasing from the transcript. If no specific deadline is mentioned, write "No deadline specified". Always default priority to P3 unless P1 or P2 is explicitly mentioned. The quote must be copied exactly from the transcript, without paraphrasing or fixing typos, so it can be found in the text. Score each field's confidence from 0 to 1 by how clearly the transcript states it. If nobody is clearly assigned, leave the assignee as an empty string instead of guessing.
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await this.client.chat.completions.create({
+      model: this.model,
       messages: [
         {
           role: "system",
@@ -69,134 +75,33 @@ IMPORTANT: Capture the exact deadline phrasing from the transcript. If no specif
     });
 
     const result = JSON.parse(response.choices[0].message.content || '{"tasks": []}');
-    
-    // Debug logging
-    console.log("AI Response:", response.choices[0].message.content);
-    console.log("Parsed result:", result);
-    
+
     // Handle both direct array and object with tasks array
-    const tasks = Array.isArray(result) ? result : (result.tasks || []);
-    
-    console.log("Extracted tasks:", tasks);
-    
-    return tasks.map((task: any) => ({
-      description: task.description || "",
-      assignee: task.assignee || "",
-      deadline: task.deadline || "",
-      priority: task.priority || "P3"
-    }));
-  } catch (error) {
-    console.error("Error extracting tasks from transcript:", error);
-    throw new Error("Failed to process transcript with AI: " + (error as Error).message);
+    return Array.isArray(result) ? result : (result.tasks || []);
   }
-}
 
-async function extractAudioFromVideo(videoBuffer: Buffer, filename: string): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const tempVideoPath = path.join('/tmp', `video_${Date.now()}_${filename}`);
-    const tempAudioPath = path.join('/tmp', `audio_${Date.now()}.mp3`);
-    
-    console.log(`Starting audio extraction from video: ${filename}`);
-    console.log(`Temp video path: ${tempVideoPath}`);
-    console.log(`Temp audio path: ${tempAudioPath}`);
-    
-    try {
-      // Write video buffer to temporary file
-      fs.writeFileSync(tempVideoPath, videoBuffer);
-      console.log(`Video file written successfully, size: ${videoBuffer.length} bytes`);
-    } catch (error) {
-      console.error('Failed to write video file:', error);
-      reject(new Error('Failed to write video file to disk'));
-      return;
-    }
-    
-    // Use FFmpeg to extract audio
-    const ffmpeg = spawn('ffmpeg', [
-      '-i', tempVideoPath,
-      '-vn', // No video
-      '-acodec', 'libmp3lame', // Use libmp3lame for MP3 encoding
-      '-ab', '128k',
-      '-ar', '44100',
-      '-y', // Overwrite output file
-      tempAudioPath
-    ]);
-    
-    let stderr = '';
-    
-    ffmpeg.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-    
-    ffmpeg.on('close', (code) => {
-      console.log(`FFmpeg process finished with code: ${code}`);
-      if (stderr) {
-        console.log('FFmpeg stderr:', stderr);
-      }
-      
-      // Clean up input file
-      try {
-        fs.unlinkSync(tempVideoPath);
-      } catch (error) {
-        console.warn('Failed to clean up input file:', error);
-      }
-      
-      if (code === 0) {
-        try {
-          if (fs.existsSync(tempAudioPath)) {
-            const audioBuffer = fs.readFileSync(tempAudioPath);
-            console.log(`Audio extracted successfully, size: ${audioBuffer.length} bytes`);
-            fs.unlinkSync(tempAudioPath); // Clean up output file
-            resolve(audioBuffer);
-          } else {
-            reject(new Error('Audio file was not created by FFmpeg'));
-          }
-        } catch (error) {
-          console.error('Failed to read extracted audio:', error);
-          reject(new Error('Failed to read extracted audio file'));
-        }
-      } else {
-        reject(new Error(`FFmpeg process failed with code ${code}. Error: ${stderr}`));
-      }
-    });
-    
-    ffmpeg.on('error', (error) => {
-      console.error('FFmpeg spawn error:', error);
-      // Clean up files on error
-      try { fs.unlinkSync(tempVideoPath); } catch {}
-      try { fs.unlinkSync(tempAudioPath); } catch {}
-      reject(new Error(`FFmpeg execution error: ${error.message}`));
-    });
-  });
-}
-
-export async function transcribeAudio(audioBuffer: Buffer, filename: string): Promise<string> {
-  try {
-    let processedAudioBuffer = audioBuffer;
-    let processedFilename = filename;
-    
-    // Check if it's a video file and extract audio
-    const isVideo = filename.match(/\.(mp4|avi|mov|webm)$/i);
-    if (isVideo) {
-      console.log(`Extracting audio from video file: ${filename}`);
-      processedAudioBuffer = await extractAudioFromVideo(audioBuffer, filename);
-      processedFilename = filename.replace(/\.(mp4|avi|mov|webm)$/i, '.mp3');
-    }
-    
+  async transcribe(audio: Buffer, filename: string): Promise<TranscriptionResult> {
     // Create a file-like object for OpenAI
-    const file = new File([processedAudioBuffer], processedFilename, { 
-      type: processedFilename.endsWith('.mp3') ? 'audio/mp3' : 
-           processedFilename.endsWith('.wav') ? 'audio/wav' : 
-           processedFilename.endsWith('.m4a') ? 'audio/m4a' : 'audio/mpeg'
+    const file = new File([audio], filename, { 
+      type: filename.endsWith('.mp3') ? 'audio/mp3' : 
+           filename.endsWith('.wav') ? 'audio/wav' : 
+           filename.endsWith('.m4a') ? 'audio/m4a' : 'audio/mpeg'
     });
 
-    const transcription = await openai.audio.transcriptions.create({
+    // verbose_json adds per-segment timestamps so long recordings can be stitched back together
+    const transcription = await this.client.audio.transcriptions.create({
       file: file,
-      model: "whisper-1",
+      model: this.transcriptionModel,
+      response_format: "verbose_json",
     });
 
-    return transcription.text;
-  } catch (error) {
-    console.error("Error transcribing audio:", error);
-    throw new Error("Failed to transcribe audio: " + (error as Error).message);
+    return {
+      text: transcription.text,
+      segments: transcription.segments?.map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+      })),
+    };
   }
 }
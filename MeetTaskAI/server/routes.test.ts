@@ -0,0 +1,607 @@
+import ExcelJS from "exceljs";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { startTestServer, type TestClient, type TestServer } from "./test-utils";
+import { setAiProvider } from "./ai";
+import { MockProvider } from "./mock-provider";
+import { MAX_BULK_TASKS, needsReview, type ProcessingJob, type Task } from "@shared/schema";
+
+let server: TestServer;
+let client: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  client = await server.signUp("route-tester");
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function createTask(deadlineText = "by Friday"): Promise<Task> {
+  const response = await client.request("POST", "/api/tasks/bulk-create", {
+    tasks: [{ description: "Send the budget", assignee: "Dana", deadlineText, priority: "P2" }],
+  });
+  expect(response.status).toBe(201);
+  return response.body.tasks[0];
+}
+
+describe("PATCH /api/tasks/:id", () => {
+  it("keeps a moved due date when the deadline wording is sent back unchanged", async () => {
+    const task = await createTask();
+    const movedTo = "2026-11-03T14:30:00.000Z";
+    const moved = await client.request<Task>("PATCH", `/api/tasks/${task.id}`, { dueAt: movedTo, version: task.version });
+    expect(moved.status).toBe(200);
+
+    const edited = await client.request<Task>("PATCH", `/api/tasks/${task.id}`, {
+      description: "Send the revised budget",
+      deadlineText: task.deadlineText,
+      version: moved.body.version,
+    });
+    expect(edited.status).toBe(200);
+    expect(edited.body.description).toBe("Send the revised budget");
+    expect(new Date(edited.body.dueAt!).toISOString()).toBe(movedTo);
+  });
+
+  it("resolves the deadline again when it is reworded", async () => {
+    const task = await createTask("no deadline");
+    expect(task.dueAt).toBeNull();
+
+    const edited = await client.request<Task>("PATCH", `/api/tasks/${task.id}`, { deadlineText: "2030-01-15", version: task.version });
+    expect(edited.status).toBe(200);
+    expect(edited.body.dueAt).not.toBeNull();
+    expect(edited.body.deadlineText).toBe("2030-01-15");
+  });
+});
+
+describe("GET /api/tasks", () => {
+  it("lists only tasks needing review below the given confidence", async () => {
+    const reviewer = await server.signUp("review-tester");
+    await reviewer.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{ description: "Entered by hand", assignee: "Dana", deadlineText: "today", priority: "P2" }],
+    });
+    const extracted = await reviewer.request("POST", "/api/process-transcript", {
+      transcript: "Dana will send the revised budget by Friday. We need to book the offsite venue.",
+      mode: "heuristic",
+    });
+    expect(extracted.status).toBe(200);
+
+    const all = await reviewer.request("GET", "/api/tasks");
+    const queue = await reviewer.request("GET", "/api/tasks?reviewBelow=0.6");
+    expect(queue.status).toBe(200);
+    expect(queue.body.tasks.map((task: Task) => task.description)).toEqual(
+      all.body.tasks.filter((task: Task) => needsReview(task, 0.6)).map((task: Task) => task.description),
+    );
+    expect(queue.body.tasks.map((task: Task) => task.assignee)).toEqual(["Unknown"]);
+    expect((await reviewer.request("GET", "/api/tasks?reviewBelow=2")).status).toBe(400);
+  });
+
+  it("lists only the tasks without a due date when asked", async () => {
+    const lister = await server.signUp("due-date-tester");
+    await lister.request("POST", "/api/tasks/bulk-create", {
+      tasks: [
+        { description: "Dated", assignee: "Dana", deadlineText: "2030-01-15", priority: "P2" },
+        { description: "Undated", assignee: "Dana", deadlineText: "", priority: "P2" },
+      ],
+    });
+
+    const undated = await lister.request("GET", "/api/tasks?hasDueDate=false");
+    expect(undated.body.tasks.map((task: Task) => task.description)).toEqual(["Undated"]);
+    const dated = await lister.request("GET", "/api/tasks?hasDueDate=true");
+    expect(dated.body.tasks.map((task: Task) => task.description)).toEqual(["Dated"]);
+    expect((await lister.request("GET", "/api/tasks?hasDueDate=maybe")).status).toBe(400);
+  });
+
+  it("answers 400 for a cursor it did not issue or made for another ordering", async () => {
+    await createTask();
+    await createTask();
+    const first = await client.request("GET", "/api/tasks?sort=dueAt&order=asc&limit=1");
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const forged = await client.request("GET", "/api/tasks?cursor=not-a-cursor");
+    expect(forged.status).toBe(400);
+    expect(Object.keys(forged.body.errors)).toEqual(["cursor"]);
+    const replayed = await client.request("GET", `/api/tasks?sort=priority&order=asc&limit=1&cursor=${first.body.nextCursor}`);
+    expect(replayed.status).toBe(400);
+    expect((await client.request("GET", `/api/tasks?sort=dueAt&order=asc&limit=1&cursor=${first.body.nextCursor}`)).status).toBe(200);
+  });
+});
+
+describe("GET /api/tasks/export", () => {
+  let exporter: TestClient;
+
+  beforeAll(async () => {
+    exporter = await server.signUp("export-tester");
+    await exporter.request("POST", "/api/tasks/bulk-create", {
+      tasks: [
+        { description: 'Send the "final" budget, signed', assignee: "Dana", deadlineText: "2030-01-15", priority: "P1" },
+        { description: "Book the room", assignee: "Lee", deadlineText: "2030-01-16", priority: "P3" },
+      ],
+    });
+  });
+
+  it("exports CSV with only the filtered tasks", async () => {
+    const file = await exporter.download("/api/tasks/export?format=csv&assignee=Dana");
+    expect(file.status).toBe(200);
+    expect(file.contentType).toContain("text/csv");
+    const lines = file.body.toString("utf8").trimEnd().split("\r\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('"Send the ""final"" budget, signed",Dana');
+  });
+
+  it("exports JSON with only the filtered tasks", async () => {
+    const file = await exporter.download("/api/tasks/export?format=json&assignee=Dana");
+    expect(file.contentType).toContain("application/json");
+    expect(JSON.parse(file.body.toString("utf8")).map((task: Task) => task.assignee)).toEqual(["Dana"]);
+  });
+
+  it("exports a Markdown checklist with only the filtered tasks", async () => {
+    const file = await exporter.download("/api/tasks/export?format=markdown&q=room");
+    expect(file.contentType).toContain("text/markdown");
+    const text = file.body.toString("utf8");
+    expect(text).toContain("- [ ] **Book the room**");
+    expect(text).not.toContain("budget");
+  });
+
+  it("exports a spreadsheet with only the filtered tasks", async () => {
+    const file = await exporter.download("/api/tasks/export?format=xlsx&priority=P3");
+    expect(file.contentType).toContain("spreadsheetml");
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.body);
+    const sheet = workbook.getWorksheet("Tasks")!;
+    expect(sheet.rowCount).toBe(2);
+    expect(sheet.getRow(2).getCell(2).value).toBe("Book the room");
+  });
+
+  it("exports a calendar with only the filtered tasks", async () => {
+    const file = await exporter.download("/api/tasks/export?format=ics&assignee=Lee");
+    expect(file.contentType).toContain("text/calendar");
+    const text = file.body.toString("utf8");
+    expect(text.match(/BEGIN:VTODO/g)).toHaveLength(1);
+    expect(text).toContain("SUMMARY:Book the room");
+  });
+
+  it("answers 400 for an unknown format", async () => {
+    expect((await exporter.request("GET", "/api/tasks/export?format=pdf")).status).toBe(400);
+  });
+});
+
+describe("POST /api/tasks/import", () => {
+  it("reports each row of a dry run by its line in the file and saves nothing", async () => {
+    const importer = await server.signUp("import-tester");
+    const csv = 'Task,Assigned To,Priority\r\nSend the budget,Dana,P1\r\n\r\n"Book the\r\nroom",Lee,urgent\r\n,Sam,P2\r\n';
+    const form = new FormData();
+    form.append("file", new Blob([csv], { type: "text/csv" }), "tasks.csv");
+    form.append("dryRun", "true");
+
+    const response = await importer.request("POST", "/api/tasks/import", form);
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ dryRun: true, format: "csv", validCount: 1, errorCount: 2, importedCount: 0 });
+    const rows = response.body.rows as { row: number; task?: unknown; errors?: Record<string, string[]> }[];
+    expect(rows.map((row) => row.row)).toEqual([2, 4, 6]);
+    expect(rows[0].task).toMatchObject({ description: "Send the budget", assignee: "Dana", priority: "P1" });
+    expect(Object.keys(rows[1].errors!)).toEqual(["priority"]);
+    expect(Object.keys(rows[2].errors!)).toEqual(["description"]);
+    expect((await importer.request("GET", "/api/tasks")).body.tasks).toEqual([]);
+  });
+});
+
+describe("POST /api/tasks/bulk-create", () => {
+  const transcript = "Dana: I will send the revised budget to finance by Friday. Lee: Sounds good.";
+  let meetingId: number;
+
+  beforeAll(async () => {
+    const meeting = await client.request("POST", "/api/meetings", { title: "Budget", sourceType: "text", transcript });
+    meetingId = meeting.body.id;
+  });
+
+  it("only takes the reviewable fields from each candidate", async () => {
+    const response = await client.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{
+        meetingId,
+        description: "Send the revised budget",
+        assignee: "Dana",
+        deadlineText: "by Friday",
+        priority: "P1",
+        status: "done",
+        confidence: { description: 1, assignee: 1, deadline: 1, priority: 1 },
+        extractionEngine: "ai",
+        dueAt: "2001-01-01T00:00:00.000Z",
+      }],
+    });
+    expect(response.status).toBe(201);
+    const [task] = response.body.tasks as Task[];
+    expect(task).toMatchObject({ status: "open", completedAt: null, confidence: null, extractionEngine: null, priority: "P1" });
+    expect(new Date(task.dueAt!).getFullYear()).toBeGreaterThan(2001);
+  });
+
+  it("keeps a quote only where it is found in the meeting's transcript", async () => {
+    const response = await client.request("POST", "/api/tasks/bulk-create", {
+      tasks: [
+        {
+          meetingId,
+          description: "Send the revised budget",
+          assignee: "Dana",
+          deadlineText: "by Friday",
+          sourceQuote: "send the revised budget to finance by Friday",
+          sourceStart: 0,
+          sourceEnd: 3,
+        },
+        {
+          meetingId,
+          description: "Approve the budget",
+          assignee: "Lee",
+          deadlineText: "by Friday",
+          sourceQuote: "Lee: I approve the whole budget right now",
+        },
+      ],
+    });
+    expect(response.status).toBe(201);
+    const [found, invented] = response.body.tasks as Task[];
+    const start = transcript.indexOf("send the revised budget");
+    expect(found).toMatchObject({ sourceStart: start, sourceEnd: start + "send the revised budget to finance by Friday".length });
+    expect(invented).toMatchObject({ sourceQuote: null, sourceStart: null, sourceEnd: null });
+  });
+
+  it("refuses more than MAX_BULK_TASKS candidates", async () => {
+    const task = { description: "Too many", assignee: "Dana", deadlineText: "today" };
+    const response = await client.request("POST", "/api/tasks/bulk-create", { tasks: Array(MAX_BULK_TASKS + 1).fill(task) });
+    expect(response.status).toBe(400);
+    expect(Object.keys(response.body.errors)).toEqual(["tasks"]);
+  });
+
+  it("reports an invalid candidate by its position in the batch", async () => {
+    const response = await client.request("POST", "/api/tasks/bulk-create", {
+      tasks: [
+        { description: "Send the budget", assignee: "Dana", deadlineText: "today", priority: "P2" },
+        { description: "Book the room", assignee: "Lee", deadlineText: "today", priority: "urgent" },
+      ],
+    });
+    expect(response.status).toBe(400);
+    expect(Object.keys(response.body.errors)).toEqual(["tasks.1.priority"]);
+  });
+});
+
+describe("POST and PUT /api/meetings", () => {
+  it("answers 400 with field errors for an invalid meeting", async () => {
+    const created = await client.request("POST", "/api/meetings", { title: "", sourceType: "fax", transcript: "Notes." });
+    expect(created.status).toBe(400);
+    expect(created.body.message).toBe("Invalid meeting data");
+    expect(Object.keys(created.body.errors).sort()).toEqual(["sourceType", "title"]);
+
+    const meeting = await client.request("POST", "/api/meetings", { title: "Planning", sourceType: "text", transcript: "Notes." });
+    const updated = await client.request("PUT", `/api/meetings/${meeting.body.id}`, {
+      transcriptSegments: [{ start: "soon", end: 1, text: "Hello" }],
+    });
+    expect(updated.status).toBe(400);
+    expect(Object.keys(updated.body.errors)).toEqual(["transcriptSegments.0.start"]);
+  });
+});
+
+describe("POST /api/tasks/bulk", () => {
+  let editor: TestClient;
+
+  beforeAll(async () => {
+    editor = await server.signUp("bulk-tester");
+  });
+
+  async function createTasks(count: number): Promise<number[]> {
+    const created = await editor.request("POST", "/api/tasks/bulk-create", {
+      tasks: Array.from({ length: count }, (_, index) => ({
+        description: `Bulk task ${index + 1}`,
+        assignee: "Dana",
+        deadlineText: "",
+        priority: "P3",
+      })),
+    });
+    expect(created.status).toBe(201);
+    return created.body.tasks.map((task: Task) => task.id);
+  }
+
+  async function editorTasks(ids: number[]): Promise<Task[]> {
+    const page = await editor.request("GET", "/api/tasks?limit=100");
+    return page.body.tasks.filter((task: Task) => ids.includes(task.id));
+  }
+
+  it("updates, moves and deletes every selected task", async () => {
+    const ids = await createTasks(2);
+
+    const update = await editor.request("POST", "/api/tasks/bulk", { action: "update", ids, changes: { priority: "P1" } });
+    expect(update.status).toBe(200);
+    const status = await editor.request("POST", "/api/tasks/bulk", { action: "status", ids, status: "done" });
+    expect(status.status).toBe(200);
+    expect(await editorTasks(ids)).toEqual(
+      expect.arrayContaining(ids.map((id) => expect.objectContaining({ id, priority: "P1", status: "done", completedAt: expect.any(String) }))),
+    );
+
+    const remove = await editor.request("POST", "/api/tasks/bulk", { action: "delete", ids });
+    expect(remove.body.deletedIds).toEqual(expect.arrayContaining(ids));
+    expect(await editorTasks(ids)).toEqual([]);
+  });
+
+  it("changes nothing when an id does not exist, and reports it", async () => {
+    const ids = await createTasks(2);
+    const missingId = Math.max(...ids) + 1000;
+
+    for (const operation of [
+      { action: "update", changes: { priority: "P1" } },
+      { action: "status", status: "done" },
+      { action: "delete" },
+    ]) {
+      const response = await editor.request("POST", "/api/tasks/bulk", { ...operation, ids: [...ids, missingId] });
+      expect(response.status).toBe(404);
+      expect(response.body.missingIds).toEqual([missingId]);
+    }
+    expect(await editorTasks(ids)).toHaveLength(2);
+    expect((await editorTasks(ids)).every((task) => task.priority === "P3" && task.status === "open")).toBe(true);
+  });
+
+  it("changes nothing when one task cannot make the move, and says which", async () => {
+    const [openId, blockedId] = await createTasks(2);
+    expect((await editor.request("PATCH", `/api/tasks/${blockedId}`, { status: "blocked" })).status).toBe(200);
+
+    const response = await editor.request("POST", "/api/tasks/bulk", { action: "status", ids: [openId, blockedId], status: "done" });
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual({ [String(blockedId)]: ["Cannot move a task from blocked to done"] });
+    expect((await editorTasks([openId])).map((task) => task.status)).toEqual(["open"]);
+  });
+
+  it("answers 403 to a viewer, changing nothing", async () => {
+    const workspace = await editor.request("POST", "/api/workspaces", { name: "Bulk" });
+    const viewer = await server.signUp("bulk-viewer");
+    await editor.request("POST", `/api/workspaces/${workspace.body.id}/members`, { username: "bulk-viewer", role: "viewer" });
+    await editor.request("POST", "/api/workspaces/select", { workspaceId: workspace.body.id });
+    await viewer.request("POST", "/api/workspaces/select", { workspaceId: workspace.body.id });
+    try {
+      const ids = await createTasks(1);
+
+      for (const operation of [
+        { action: "update", changes: { priority: "P1" } },
+        { action: "status", status: "done" },
+        { action: "delete" },
+      ]) {
+        expect((await viewer.request("POST", "/api/tasks/bulk", { ...operation, ids })).status).toBe(403);
+      }
+      expect(await editorTasks(ids)).toMatchObject([{ priority: "P3", status: "open" }]);
+    } finally {
+      await editor.request("POST", "/api/workspaces/select", { workspaceId: null });
+    }
+  });
+});
+
+describe("scope isolation", () => {
+  let alice: TestClient;
+  let bob: TestClient;
+  let meetingId: number;
+  let taskId: number;
+
+  beforeAll(async () => {
+    alice = await server.signUp("alice");
+    bob = await server.signUp("bob");
+    const meeting = await alice.request("POST", "/api/meetings", { title: "Planning", sourceType: "text", transcript: "Dana sends the budget." });
+    expect(meeting.status).toBe(201);
+    meetingId = meeting.body.id;
+    const created = await alice.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{ meetingId, description: "Send the budget", assignee: "Dana", deadlineText: "by Friday", priority: "P2" }],
+    });
+    expect(created.status).toBe(201);
+    taskId = created.body.tasks[0].id;
+  });
+
+  async function aliceTask(): Promise<Task | undefined> {
+    const page = await alice.request("GET", "/api/tasks");
+    return page.body.tasks.find((task: Task) => task.id === taskId);
+  }
+
+  it("hides another user's meetings", async () => {
+    expect((await bob.request("GET", "/api/meetings")).body).toEqual([]);
+    expect((await bob.request("GET", `/api/meetings/${meetingId}`)).status).toBe(404);
+    expect((await bob.request("GET", `/api/meetings/${meetingId}/tasks`)).status).toBe(404);
+  });
+
+  it("refuses to update or delete another user's meeting", async () => {
+    expect((await bob.request("PUT", `/api/meetings/${meetingId}`, { title: "Taken" })).status).toBe(404);
+    expect((await bob.request("DELETE", `/api/meetings/${meetingId}`)).status).toBe(404);
+    expect((await alice.request("GET", `/api/meetings/${meetingId}`)).body.title).toBe("Planning");
+  });
+
+  it("refuses to attach tasks to another user's meeting", async () => {
+    const response = await bob.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{ meetingId, description: "Sneak in", assignee: "Bob", deadlineText: "today", priority: "P3" }],
+    });
+    expect(response.status).toBe(400);
+    expect((await alice.request("GET", `/api/meetings/${meetingId}/tasks`)).body).toHaveLength(1);
+  });
+
+  it("hides another user's tasks", async () => {
+    const page = await bob.request("GET", "/api/tasks");
+    expect(page.status).toBe(200);
+    expect(page.body.tasks).toEqual([]);
+  });
+
+  it("refuses to update or delete another user's task", async () => {
+    expect((await bob.request("PATCH", `/api/tasks/${taskId}`, { description: "Taken" })).status).toBe(404);
+    expect((await bob.request("PUT", `/api/tasks/${taskId}`, { description: "Taken" })).status).toBe(404);
+    expect((await bob.request("DELETE", `/api/tasks/${taskId}`)).status).toBe(404);
+    expect(await aliceTask()).toMatchObject({ description: "Send the budget" });
+  });
+
+  it("refuses bulk changes that name another user's task, changing nothing", async () => {
+    const created = await bob.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{ description: "Book the room", assignee: "Bob", deadlineText: "today", priority: "P3" }],
+    });
+    const bobTaskId = created.body.tasks[0].id;
+    const ids = [bobTaskId, taskId];
+
+    const update = await bob.request("POST", "/api/tasks/bulk", { action: "update", ids, changes: { priority: "P1" } });
+    expect(update.status).toBe(404);
+    expect(update.body.missingIds).toEqual([taskId]);
+    const status = await bob.request("POST", "/api/tasks/bulk", { action: "status", ids, status: "done" });
+    expect(status.status).toBe(404);
+    const remove = await bob.request("POST", "/api/tasks/bulk", { action: "delete", ids });
+    expect(remove.status).toBe(404);
+
+    expect(await aliceTask()).toMatchObject({ priority: "P2", status: "open" });
+    expect((await bob.request("GET", "/api/tasks")).body.tasks).toMatchObject([{ id: bobTaskId, priority: "P3", status: "open" }]);
+  });
+
+  it("only clears tasks in the caller's scope", async () => {
+    expect((await bob.request("DELETE", "/api/tasks")).status).toBe(200);
+    expect(await aliceTask()).toBeDefined();
+  });
+
+  it("does not let a non-member switch to another user's workspace", async () => {
+    const workspace = await alice.request("POST", "/api/workspaces", { name: "Ops" });
+    expect(workspace.status).toBe(201);
+    expect((await bob.request("POST", "/api/workspaces/select", { workspaceId: workspace.body.id })).status).toBe(404);
+  });
+});
+
+describe("POST /api/process-transcript", () => {
+  it("saves the tasks the AI provider extracts, with their evidence", async () => {
+    setAiProvider(new MockProvider({
+      extractions: [{
+        match: "offsite",
+        tasks: [{
+          description: "Book the offsite venue",
+          assignee: "Lee",
+          deadline: "2030-03-01",
+          priority: "P1",
+          quote: "Lee will book the offsite venue",
+          confidence: { description: 0.9, assignee: 0.9, deadline: 0.9, priority: 0.9 },
+        }],
+      }],
+    }));
+    const transcript = "Planning call. Lee will book the offsite venue by March 1st.";
+    try {
+      const response = await client.request("POST", "/api/process-transcript", { transcript, mode: "ai" });
+      expect(response.status).toBe(200);
+      const [task] = response.body.tasks as Task[];
+      expect(task).toMatchObject({
+        description: "Book the offsite venue",
+        assignee: "Lee",
+        priority: "P1",
+        extractionEngine: "ai",
+        sourceStart: transcript.indexOf("Lee will"),
+      });
+      expect(new Date(task.dueAt!).toISOString().slice(0, 10)).toBe("2030-03-01");
+    } finally {
+      setAiProvider(undefined);
+    }
+  });
+
+  it("answers 400 with field errors for an invalid request", async () => {
+    const response = await client.request("POST", "/api/process-transcript", { transcript: "", mode: "psychic" });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Invalid transcript request");
+    expect(Object.keys(response.body.errors)).toEqual(expect.arrayContaining(["transcript", "mode"]));
+  });
+});
+
+describe("POST /api/process-audio", () => {
+  it("answers 400 with field errors for invalid form fields", async () => {
+    const form = new FormData();
+    form.append("audio", new Blob([Buffer.from("not really audio")], { type: "audio/mpeg" }), "standup.mp3");
+    form.append("draft", "maybe");
+    const response = await client.request("POST", "/api/process-audio", form);
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Invalid audio request");
+    expect(Object.keys(response.body.errors)).toEqual(["draft"]);
+  });
+
+  function audioForm(filename: string) {
+    const form = new FormData();
+    form.append("audio", new Blob([Buffer.from("small enough to skip ffmpeg")], { type: "audio/mpeg" }), filename);
+    form.append("mode", "ai");
+    return form;
+  }
+
+  async function waitForJob(jobId: string): Promise<ProcessingJob> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const response = await client.request<ProcessingJob>("GET", `/api/jobs/${jobId}`);
+      expect(response.status).toBe(200);
+      if (response.body.status !== "running") {
+        return response.body;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${jobId} did not finish`);
+  }
+
+  it("answers 202 with a job that the caller polls until the tasks are saved", async () => {
+    setAiProvider(new MockProvider({
+      transcriptions: [{ match: "retro", text: "Retro. Kim will update the runbook by Friday." }],
+      extractions: [{ match: "runbook", tasks: [{ description: "Update the runbook", assignee: "Kim", deadline: "by Friday", priority: "P2" }] }],
+    }));
+    try {
+      const started = await client.request("POST", "/api/process-audio", audioForm("retro.mp3"));
+      expect(started.status).toBe(202);
+      expect(started.body.job).toMatchObject({ id: started.body.jobId, status: "running" });
+
+      const job = await waitForJob(started.body.jobId);
+      expect(job).toMatchObject({ status: "completed", stage: "saving", progress: 100 });
+      const result = job.result as { transcript: string; tasks: Task[]; meeting: { sourceType: string; audioFilename: string } };
+      expect(result.transcript).toBe("Retro. Kim will update the runbook by Friday.");
+      expect(result.meeting).toMatchObject({ sourceType: "audio", audioFilename: "retro.mp3" });
+      expect(result.tasks.map((task) => task.description)).toEqual(["Update the runbook"]);
+    } finally {
+      setAiProvider(undefined);
+    }
+  });
+
+  it("stops a cancelled job before it saves anything", async () => {
+    // Transcription reports the cancelled segment as an error on its way out
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    let releaseTranscription!: () => void;
+    const transcribing = new Promise<void>((resolve) => {
+      releaseTranscription = resolve;
+    });
+    let transcriptionStarted!: () => void;
+    const started = new Promise<void>((resolve) => {
+      transcriptionStarted = resolve;
+    });
+    setAiProvider({
+      name: "slow",
+      extractTasks: async () => [{ description: "Should never be saved", assignee: "Kim", deadline: "", priority: "P3" }],
+      transcribe: async () => {
+        transcriptionStarted();
+        await transcribing;
+        return { text: "Kim will write the postmortem." };
+      },
+    });
+    try {
+      const meetingsBefore = (await client.request("GET", "/api/meetings")).body.length;
+      const response = await client.request("POST", "/api/process-audio", audioForm("postmortem.mp3"));
+      expect(response.status).toBe(202);
+      await started;
+
+      const cancelled = await client.request<ProcessingJob>("POST", `/api/jobs/${response.body.jobId}/cancel`);
+      expect(cancelled.status).toBe(200);
+      expect(cancelled.body.status).toBe("cancelled");
+
+      releaseTranscription();
+      const job = await waitForJob(response.body.jobId);
+      expect(job.status).toBe("cancelled");
+      expect(job.result).toBeUndefined();
+      expect((await client.request("GET", "/api/meetings")).body.length).toBe(meetingsBefore);
+    } finally {
+      releaseTranscription();
+      setAiProvider(undefined);
+      logged.mockRestore();
+    }
+  });
+
+  it("hides a job from other users", async () => {
+    setAiProvider(new MockProvider());
+    try {
+      const response = await client.request("POST", "/api/process-audio", audioForm("standup.mp3"));
+      expect(response.status).toBe(202);
+      const outsider = await server.signUp("job-outsider");
+
+      expect((await outsider.request("GET", `/api/jobs/${response.body.jobId}`)).status).toBe(404);
+      expect((await outsider.request("POST", `/api/jobs/${response.body.jobId}/cancel`)).status).toBe(404);
+      expect((await waitForJob(response.body.jobId)).status).not.toBe("cancelled");
+    } finally {
+      setAiProvider(undefined);
+    }
+  });
+});
@@ -1,13 +1,45 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
-import { extractTasksFromTranscript, transcribeAudio } from "./openai";
-import { transcriptProcessSchema, insertTaskSchema } from "@shared/schema";
+import { storage, findAllTasks, VersionConflictError, MissingTasksError, type DataScope, type TaskChange } from "./storage";
+import { setupAuth, requireAuth, currentUserId } from "./auth";
+import { registerWorkspaceRoutes, resolveScope, requireRole, currentScope } from "./workspaces";
+import { registerCalendarFeedRoutes } from "./calendar-feeds";
+import { registerIntegrationRoutes } from "./integrations/routes";
+import { extractTasks, transcribeAudio, type ExtractionResult } from "./ai";
+import { resolveDeadline } from "./deadline";
+import { jobManager, JobCancelledError } from "./jobs";
+import { locateQuote, timestampAt } from "./evidence";
+import { prepareTaskUpdate, resolveMeetingDeadline } from "./task-updates";
+import { scoreExtractedTask } from "./confidence";
+import { InvalidCursorError } from "./task-query";
+import { exportTasks } from "./export";
+import { ImportFileError, detectImportFormat, readImportFile, suggestMapping, mapImportRecord } from "./import";
+import type { ZodError } from "zod";
+import {
+  transcriptProcessSchema,
+  audioProcessSchema,
+  insertTaskSchema,
+  updateTaskSchema,
+  taskQuerySchema,
+  taskExportQuerySchema,
+  taskImportSchema,
+  insertMeetingSchema,
+  bulkCreateTasksSchema,
+  bulkTaskOperationSchema,
+  UNKNOWN_FIELD_VALUE,
+  NO_DEADLINE,
+  type ExtractionEngine,
+  type InsertTask,
+  type Meeting,
+  type Task,
+  type ImportRowReport,
+  type TaskImportReport,
+} from "@shared/schema";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
-  limits: { fileSize: 100 * 1024 * 1024 }, // 100MB limit for video files
+  limits: { fileSize: 250 * 1024 * 1024 }, // 250MB limit, matching the client; long recordings are split before transcription
   fileFilter: (req, file, cb) => {
     const allowedAudioTypes = ['audio/mp3', 'audio/mpeg', 'audio/wav', 'audio/m4a'];
     const allowedVideoTypes = ['video/mp4', 'video/avi', 'video/mov', 'video/quicktime', 'video/webm'];
@@ -23,44 +55,309 @@ const upload = multer({
   }
 });
 
+// Spreadsheets and JSON exports are small; anything larger is not a task list
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// Turns extractor output into validated tasks for the meeting, without saving them
+function buildTaskCandidates(extraction: ExtractionResult, meeting: Meeting): InsertTask[] {
+  const candidates: InsertTask[] = [];
+  for (const extracted of extraction.tasks) {
+    // Missing fields are kept as "Unknown" with zero confidence instead of dropping the task
+    const taskData = scoreExtractedTask(extracted);
+    if (taskData) {
+      const { dueAt, ambiguous } = resolveMeetingDeadline(taskData.deadline, meeting, meeting.date);
+      // Quotes that cannot be found in the transcript are dropped rather than shown as evidence
+      const source = locateQuote(meeting.transcript, extracted.quote);
+      candidates.push(insertTaskSchema.parse({
+        meetingId: meeting.id,
+        description: taskData.description,
+        assignee: taskData.assignee,
+        deadlineText: taskData.deadline,
+        dueAt,
+        deadlineAmbiguous: ambiguous,
+        priority: taskData.priority,
+        extractionEngine: extraction.engine,
+        confidence: taskData.confidence,
+        sourceQuote: source?.quote ?? null,
+        sourceStart: source?.start ?? null,
+        sourceEnd: source?.end ?? null,
+        sourceTimestamp: source ? timestampAt(meeting.transcript, meeting.transcriptSegments, source.start) : null,
+      }));
+    }
+  }
+  return candidates;
+}
+
+async function saveTasks(scope: DataScope, candidates: InsertTask[]): Promise<Task[]> {
+  const savedTasks = [];
+  for (const candidate of candidates) {
+    savedTasks.push(await storage.createTask(scope, candidate));
+  }
+  return savedTasks;
+}
+
+// The response for a processed meeting: saved tasks, or unsaved candidates in draft mode
+async function completeExtraction(extraction: ExtractionResult, meeting: Meeting, draft: boolean, source = "") {
+  // Tasks land in the same space as the meeting they came from
+  const scope: DataScope = { ownerId: meeting.ownerId, workspaceId: meeting.workspaceId };
+  const candidates = buildTaskCandidates(extraction, meeting);
+  const summary = {
+    engine: extraction.engine,
+    fallbackReason: extraction.fallbackReason,
+    chunks: extraction.chunks,
+    meeting,
+  };
+
+  if (draft) {
+    return {
+      ...summary,
+      message: describeExtraction(candidates.length, extraction, source, true),
+      draft: true,
+      candidates,
+    };
+  }
+
+  const savedTasks = await saveTasks(scope, candidates);
+  return {
+    ...summary,
+    message: describeExtraction(savedTasks.length, extraction, source),
+    draft: false,
+    tasks: savedTasks,
+  };
+}
+
+function describeExtraction(count: number, extraction: ExtractionResult, source = "", draft = false): string {
+  const engineLabels: Record<ExtractionEngine, string> = { ai: "AI", heuristic: "rule-based" };
+  const message = draft
+    ? `Found ${count} candidate tasks${source} to review`
+    : `Successfully extracted ${count} tasks${source}`;
+  return extraction.fallbackReason
+    ? `${message} using ${engineLabels[extraction.engine]} extraction because the AI service was unavailable`
+    : message;
+}
+
+// The message a failed audio job reports to the client
+function describeAudioError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Failed to process audio file";
+  }
+  if (error.message.includes("OpenAI") || error.message.includes("API")) {
+    return "AI service is currently unavailable. Please check your API key and try again.";
+  }
+  if (error.message.includes("transcribe")) {
+    return "Failed to transcribe audio. Please ensure it's a valid audio file with clear speech.";
+  }
+  return error.message;
+}
+
+// Field-level messages for a failed validation, keyed by the dotted path of the field.
+// Keys the schema does not allow are reported against the key itself
+function describeValidationErrors(error: ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const add = (path: (string | number)[], message: string) => {
+    const field = path.join(".") || "body";
+    errors[field] = [...(errors[field] ?? []), message];
+  };
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      issue.keys.forEach((key) => add([...issue.path, key], "This field cannot be changed"));
+    } else {
+      add(issue.path, issue.message);
+    }
+  }
+  return errors;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all tasks
+  setupAuth(app);
+  registerWorkspaceRoutes(app);
+  registerCalendarFeedRoutes(app);
+  registerIntegrationRoutes(app);
+
+  // Everything that reads or writes meeting data needs a logged-in user, and
+  // works on the workspace selected in their session
+  app.use(["/api/tasks", "/api/meetings", "/api/process-transcript", "/api/process-audio", "/api/jobs"], requireAuth, resolveScope);
+
+  // List tasks, filtered and sorted by the query string, one page at a time
   app.get("/api/tasks", async (req, res) => {
     try {
-      const tasks = await storage.getAllTasks();
-      res.json(tasks);
+      const result = taskQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid task query",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+
+      const page = await storage.findTasks(currentScope(res), result.data);
+      res.json(page);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message, errors: { cursor: [error.message] } });
+      }
       console.error("Error fetching tasks:", error);
       res.status(500).json({ message: "Failed to fetch tasks" });
     }
   });
 
+  // Download the tasks matching the list filters as CSV, JSON, Markdown, XLSX or iCalendar
+  app.get("/api/tasks/export", async (req, res) => {
+    try {
+      const result = taskExportQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid export query",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+
+      const { format, ...query } = result.data;
+      const tasks = await findAllTasks(currentScope(res), query);
+      const file = await exportTasks(tasks, format);
+      const filename = `tasks-${new Date().toISOString().split("T")[0]}.${file.extension}`;
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting tasks:", error);
+      res.status(500).json({ message: "Failed to export tasks" });
+    }
+  });
+
+  // Import tasks from a CSV or JSON file. Columns are mapped to task fields and every
+  // row is validated on its own; a dry run only reports what would be saved. Rows with
+  // errors block the import unless skipInvalid is set
+  app.post("/api/tasks/import", requireRole("editor"), importUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+
+      const result = taskImportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid import request",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+      const { dryRun, skipInvalid, timeZone } = result.data;
+      const format = result.data.format ?? detectImportFormat(req.file.originalname);
+      if (!format) {
+        return res.status(400).json({ message: "Only CSV and JSON files can be imported" });
+      }
+
+      const table = readImportFile(req.file.buffer.toString("utf8"), format);
+      const mapping = result.data.mapping ?? suggestMapping(table.columns);
+      const mappingErrors: Record<string, string[]> = {};
+      for (const [field, column] of Object.entries(mapping)) {
+        if (!table.columns.includes(column)) {
+          mappingErrors[`mapping.${field}`] = [`The file has no column named "${column}"`];
+        }
+      }
+      if (Object.keys(mappingErrors).length > 0) {
+        return res.status(400).json({ message: "Invalid column mapping", errors: mappingErrors });
+      }
+
+      // Rows without an assignee or deadline are kept, marked the same way extraction marks them
+      const importedAt = new Date();
+      const rows: ImportRowReport[] = table.records.map(({ row, values }) => {
+        const parsed = insertTaskSchema.safeParse({
+          assignee: UNKNOWN_FIELD_VALUE,
+          deadlineText: NO_DEADLINE,
+          ...mapImportRecord(values, mapping),
+        });
+        if (!parsed.success) {
+          return { row, errors: describeValidationErrors(parsed.error) };
+        }
+
+        const task = { ...parsed.data };
+        if (task.dueAt === undefined) {
+          const { dueAt, ambiguous } = resolveDeadline(task.deadlineText, { referenceDate: importedAt, timeZone });
+          task.dueAt = dueAt;
+          task.deadlineAmbiguous = ambiguous;
+        }
+        if (task.status === "done") {
+          task.completedAt = importedAt;
+        }
+        return { row, task };
+      });
+
+      const validTasks = rows.flatMap((row) => (row.task ? [row.task] : []));
+      const errorCount = rows.length - validTasks.length;
+      const report: TaskImportReport = {
+        message: "",
+        dryRun,
+        format,
+        columns: table.columns,
+        mapping,
+        rows,
+        validCount: validTasks.length,
+        errorCount,
+        importedCount: 0,
+      };
+
+      if (dryRun) {
+        report.message = errorCount > 0
+          ? `${validTasks.length} of ${rows.length} rows are ready to import; ${errorCount} have errors`
+          : `All ${rows.length} rows are ready to import`;
+        return res.json(report);
+      }
+      if (validTasks.length === 0 || (errorCount > 0 && !skipInvalid)) {
+        report.message = validTasks.length === 0
+          ? "None of the rows can be imported"
+          : `${errorCount} rows have errors. Fix them, or skip them to import the other ${validTasks.length}`;
+        return res.status(400).json(report);
+      }
+
+      const savedTasks = await saveTasks(currentScope(res), validTasks);
+      report.importedCount = savedTasks.length;
+      report.message = errorCount > 0
+        ? `Imported ${savedTasks.length} tasks and skipped ${errorCount} rows with errors`
+        : `Imported ${savedTasks.length} tasks`;
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing tasks:", error);
+      res.status(500).json({ message: "Failed to import tasks" });
+    }
+  });
+
   // Process transcript and extract tasks
-  app.post("/api/process-transcript", async (req, res) => {
+  app.post("/api/process-transcript", requireRole("editor"), async (req, res) => {
     try {
-      const { transcript } = transcriptProcessSchema.parse(req.body);
+      const result = transcriptProcessSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid transcript request",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+      const { transcript, title, meetingDate, timeZone, mode, draft } = result.data;
       
       if (!transcript.trim()) {
         return res.status(400).json({ message: "Transcript cannot be empty" });
       }
 
-      // Extract tasks using OpenAI
-      const extractedTasks = await extractTasksFromTranscript(transcript);
-      
-      // Save tasks to storage
-      const savedTasks = [];
-      for (const taskData of extractedTasks) {
-        if (taskData.description && taskData.assignee && taskData.deadline) {
-          const validatedTask = insertTaskSchema.parse(taskData);
-          const savedTask = await storage.createTask(validatedTask);
-          savedTasks.push(savedTask);
-        }
-      }
+      // Extract tasks with the AI, or the rule-based extractor when asked or as a fallback
+      const extraction = await extractTasks(transcript, mode);
 
-      res.json({ 
-        message: `Successfully extracted ${savedTasks.length} tasks`,
-        tasks: savedTasks 
+      // Keep the transcript so tasks can be traced back to their meeting
+      const date = meetingDate || new Date();
+      const meeting = await storage.createMeeting(currentScope(res), {
+        title: title?.trim() || `Meeting on ${date.toLocaleDateString()}`,
+        date,
+        sourceType: "text",
+        transcript,
+        timeZone,
       });
+      
+      // Save tasks to storage, or hand them back for review in draft mode
+      res.json(await completeExtraction(extraction, meeting, draft));
     } catch (error) {
       console.error("Error processing transcript:", error);
       
@@ -80,66 +377,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process audio file
-  app.post("/api/process-audio", upload.single('audio'), async (req, res) => {
+  // Process audio file in the background; the client polls the returned job
+  app.post("/api/process-audio", requireRole("editor"), upload.single('audio'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
       }
 
-      // Transcribe audio using OpenAI Whisper
-      const transcript = await transcribeAudio(req.file.buffer, req.file.originalname);
-      
-      if (!transcript.trim()) {
-        return res.status(400).json({ message: "No speech detected in audio file" });
+      const result = audioProcessSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid audio request",
+          errors: describeValidationErrors(result.error),
+        });
       }
+      const { title, meetingDate, timeZone, mode, draft } = result.data;
+      const { buffer, originalname } = req.file;
+      // The job keeps saving into the workspace it was started from, even if the user switches away
+      const scope = currentScope(res);
 
-      // Extract tasks from transcript
-      const extractedTasks = await extractTasksFromTranscript(transcript);
-      
-      // Save tasks to storage
-      const savedTasks = [];
-      for (const taskData of extractedTasks) {
-        if (taskData.description && taskData.assignee && taskData.deadline) {
-          const validatedTask = insertTaskSchema.parse(taskData);
-          const savedTask = await storage.createTask(validatedTask);
-          savedTasks.push(savedTask);
+      const job = jobManager.start(scope.ownerId, async (context) => {
+        try {
+          context.setStage("extracting_audio");
+
+          // Transcribe audio using OpenAI Whisper
+          const { text: transcript, segments } = await transcribeAudio(buffer, originalname, {
+            signal: context.signal,
+            onProgress: ({ segment, totalSegments }) => {
+              if (segment === 0) {
+                context.setStage("transcribing", totalSegments > 1 ? `${totalSegments} segments` : undefined);
+              } else {
+                context.setStageProgress(segment, totalSegments, `Segment ${segment} of ${totalSegments}`);
+              }
+            },
+          });
+
+          if (!transcript.trim()) {
+            throw new Error("No speech detected in audio file");
+          }
+
+          // Extract tasks from transcript
+          context.setStage("extracting_tasks");
+          const extraction = await extractTasks(transcript, mode, {
+            signal: context.signal,
+            onProgress: ({ chunk, totalChunks }) => {
+              context.setStageProgress(chunk, totalChunks, totalChunks > 1 ? `Chunk ${chunk} of ${totalChunks}` : undefined);
+            },
+          });
+
+          // Past this point the work is committed, so a late cancel no longer applies
+          context.setStage("saving");
+          const meeting = await storage.createMeeting(scope, {
+            title: title?.trim() || originalname,
+            date: meetingDate || new Date(),
+            sourceType: "audio",
+            transcript,
+            audioFilename: originalname,
+            transcriptSegments: segments,
+            timeZone,
+          });
+
+          return { transcript, ...(await completeExtraction(extraction, meeting, draft, " from audio")) };
+        } catch (error) {
+          if (error instanceof JobCancelledError || context.signal.aborted) {
+            throw error;
+          }
+          console.error("Error processing audio:", error);
+          throw new Error(describeAudioError(error));
         }
+      });
+
+      res.status(202).json({ jobId: job.id, job });
+    } catch (error) {
+      console.error("Error starting audio job:", error);
+      res.status(500).json({ message: describeAudioError(error) });
+    }
+  });
+
+  // Poll the progress of a processing job
+  app.get("/api/jobs/:id", async (req, res) => {
+    const job = jobManager.get(req.params.id, currentUserId(req));
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Cancel a processing job; finished jobs are returned unchanged
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    const job = jobManager.cancel(req.params.id, currentUserId(req));
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Save the candidates a reviewer accepted from a draft extraction
+  app.post("/api/tasks/bulk-create", requireRole("editor"), async (req, res) => {
+    try {
+      const result = bulkCreateTasksSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid tasks",
+          errors: describeValidationErrors(result.error),
+        });
       }
 
-      res.json({ 
-        transcript,
-        message: `Successfully extracted ${savedTasks.length} tasks from audio`,
-        tasks: savedTasks 
-      });
+      const scope = currentScope(res);
+      const meetings = new Map<number, Meeting | undefined>();
+      const candidates: InsertTask[] = [];
+      for (const task of result.data.tasks) {
+        if (task.meetingId && !meetings.has(task.meetingId)) {
+          meetings.set(task.meetingId, await storage.getMeeting(scope, task.meetingId));
+        }
+        const meeting = task.meetingId ? meetings.get(task.meetingId) : undefined;
+        // Tasks may only be attached to meetings in the same workspace
+        if (task.meetingId && !meeting) {
+          return res.status(400).json({ message: `Meeting ${task.meetingId} not found` });
+        }
+
+        // Resolved and located the same way extraction did, so a reworded deadline or an
+        // edited quote cannot carry a date or evidence the meeting does not back up
+        const { dueAt, ambiguous } = resolveMeetingDeadline(task.deadlineText, meeting, new Date());
+        const source = meeting ? locateQuote(meeting.transcript, task.sourceQuote ?? undefined) : null;
+        candidates.push({
+          ...task,
+          dueAt,
+          deadlineAmbiguous: ambiguous,
+          sourceQuote: source?.quote ?? null,
+          sourceStart: source?.start ?? null,
+          sourceEnd: source?.end ?? null,
+          sourceTimestamp: source && meeting ? timestampAt(meeting.transcript, meeting.transcriptSegments, source.start) : null,
+        });
+      }
+
+      const savedTasks = await saveTasks(scope, candidates);
+      res.status(201).json({ message: `Saved ${savedTasks.length} tasks`, tasks: savedTasks });
     } catch (error) {
-      console.error("Error processing audio:", error);
-      
-      if (error instanceof Error) {
-        if (error.message.includes("OpenAI") || error.message.includes("API")) {
-          res.status(502).json({ 
-            message: "AI service is currently unavailable. Please check your API key and try again." 
-          });
-        } else if (error.message.includes("transcribe")) {
-          res.status(400).json({ message: "Failed to transcribe audio. Please ensure it's a valid audio file with clear speech." });
+      console.error("Error saving reviewed tasks:", error);
+      res.status(500).json({ message: "Failed to save tasks" });
+    }
+  });
+
+  // Apply one update, status change or delete to many tasks at once. Every task is
+  // checked first and the change is applied in a single transaction, so it either
+  // succeeds for all of them or changes nothing
+  app.post("/api/tasks/bulk", requireRole("editor"), async (req, res) => {
+    try {
+      const result = bulkTaskOperationSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid bulk operation",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+
+      const operation = result.data;
+      const scope = currentScope(res);
+      const existingTasks = await storage.getTasksByIds(scope, operation.ids);
+      if (existingTasks.length !== operation.ids.length) {
+        const found = new Set(existingTasks.map((task) => task.id));
+        throw new MissingTasksError(operation.ids.filter((id) => !found.has(id)));
+      }
+
+      if (operation.action === "delete") {
+        const deletedIds = await storage.deleteTasks(scope, operation.ids);
+        return res.json({ message: `Deleted ${deletedIds.length} tasks`, deletedIds });
+      }
+
+      const changes: TaskChange[] = [];
+      const errors: Record<string, string[]> = {};
+      for (const task of existingTasks) {
+        const requested = operation.action === "status" ? { status: operation.status } : operation.changes;
+        const prepared = await prepareTaskUpdate(scope, task, requested);
+        if ("error" in prepared) {
+          errors[String(task.id)] = [prepared.error];
         } else {
-          res.status(500).json({ message: error.message });
+          changes.push({ id: task.id, updates: prepared.updates });
         }
-      } else {
-        res.status(500).json({ message: "Failed to process audio file" });
       }
+      if (Object.keys(errors).length > 0) {
+        return res.status(400).json({
+          message: `${Object.keys(errors).length} of the selected tasks cannot be changed this way`,
+          errors,
+        });
+      }
+
+      const updatedTasks = await storage.updateTasks(scope, changes);
+      res.json({ message: `Updated ${updatedTasks.length} tasks`, tasks: updatedTasks });
+    } catch (error) {
+      if (error instanceof MissingTasksError) {
+        return res.status(404).json({ message: "Some tasks were not found", missingIds: error.ids });
+      }
+      console.error("Error applying bulk task operation:", error);
+      res.status(500).json({ message: "Failed to update tasks" });
     }
   });
 
   // Delete a specific task
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.delete("/api/tasks/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid task ID" });
       }
 
-      const deleted = await storage.deleteTask(id);
+      const deleted = await storage.deleteTask(currentScope(res), id);
       if (!deleted) {
         return res.status(404).json({ message: "Task not found" });
       }
@@ -151,16 +594,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update a specific task
-  app.put("/api/tasks/:id", async (req, res) => {
+  // Update a specific task. Only the fields in updateTaskSchema can be changed, and an
+  // edit based on an out-of-date version is refused with 409
+  const updateTask: RequestHandler = async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid task ID" });
       }
 
-      const updates = req.body;
-      const updatedTask = await storage.updateTask(id, updates);
+      const result = updateTaskSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid task update",
+          errors: describeValidationErrors(result.error),
+        });
+      }
+      const { version, ...updates } = result.data;
+
+      const scope = currentScope(res);
+      const existingTask = await storage.getTask(scope, id);
+      if (!existingTask) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (version !== undefined && version !== existingTask.version) {
+        throw new VersionConflictError(existingTask);
+      }
+      if (Object.keys(updates).length === 0) {
+        return res.json(existingTask);
+      }
+
+      const prepared = await prepareTaskUpdate(scope, existingTask, updates);
+      if ("error" in prepared) {
+        return res.status(400).json({ message: prepared.error, errors: { [prepared.field]: [prepared.error] } });
+      }
+
+      // Checked against the version read above, so an edit made in between is not overwritten
+      const updatedTask = await storage.updateTask(scope, id, prepared.updates, existingTask.version);
       
       if (!updatedTask) {
         return res.status(404).json({ message: "Task not found" });
@@ -168,15 +638,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(updatedTask);
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({
+          message: "This task was changed by someone else. Review the latest version and try again.",
+          task: error.current,
+        });
+      }
       console.error("Error updating task:", error);
       res.status(500).json({ message: "Failed to update task" });
     }
-  });
+  };
 
-  // Clear all tasks
-  app.delete("/api/tasks", async (req, res) => {
+  app.patch("/api/tasks/:id", requireRole("editor"), updateTask);
+  // Kept for older clients; validated exactly like PATCH
+  app.put("/api/tasks/:id", requireRole("editor"), updateTask);
+
+  // Clear every task in the current workspace; only owners can wipe a shared board
+  app.delete("/api/tasks", requireRole("owner"), async (req, res) => {
     try {
-      await storage.clearAllTasks();
+      await storage.clearAllTasks(currentScope(res));
       res.json({ message: "All tasks cleared successfully" });
     } catch (error) {
       console.error("Error clearing tasks:", error);
@@ -184,6 +664,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get all meetings
+  app.get("/api/meetings", async (req, res) => {
+    try {
+      const meetings = await storage.getAllMeetings(currentScope(res));
+      res.json(meetings);
+    } catch (error) {
+      console.error("Error fetching meetings:", error);
+      res.status(500).json({ message: "Failed to fetch meetings" });
+    }
+  });
+
+  // Get a specific meeting
+  app.get("/api/meetings/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid meeting ID" });
+      }
+
+      const meeting = await storage.getMeeting(currentScope(res), id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      res.json(meeting);
+    } catch (error) {
+      console.error("Error fetching meeting:", error);
+      res.status(500).json({ message: "Failed to fetch meeting" });
+    }
+  });
+
+  // Get the tasks extracted from a meeting
+  app.get("/api/meetings/:id/tasks", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid meeting ID" });
+      }
+
+      const scope = currentScope(res);
+      const meeting = await storage.getMeeting(scope, id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      const tasks = await storage.getTasksByMeeting(scope, id);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching meeting tasks:", error);
+      res.status(500).json({ message: "Failed to fetch meeting tasks" });
+    }
+  });
+
+  // Create a meeting
+  app.post("/api/meetings", requireRole("editor"), async (req, res) => {
+    try {
+      const result = insertMeetingSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid meeting data", errors: describeValidationErrors(result.error) });
+      }
+
+      const meeting = await storage.createMeeting(currentScope(res), result.data);
+      res.status(201).json(meeting);
+    } catch (error) {
+      console.error("Error creating meeting:", error);
+      res.status(500).json({ message: "Failed to create meeting" });
+    }
+  });
+
+  // Update a meeting
+  app.put("/api/meetings/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid meeting ID" });
+      }
+
+      const result = insertMeetingSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid meeting data", errors: describeValidationErrors(result.error) });
+      }
+
+      const updatedMeeting = await storage.updateMeeting(currentScope(res), id, result.data);
+      if (!updatedMeeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      res.json(updatedMeeting);
+    } catch (error) {
+      console.error("Error updating meeting:", error);
+      res.status(500).json({ message: "Failed to update meeting" });
+    }
+  });
+
+  // Delete a meeting (its tasks are kept and unlinked)
+  app.delete("/api/meetings/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid meeting ID" });
+      }
+
+      const deleted = await storage.deleteMeeting(currentScope(res), id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      res.json({ message: "Meeting deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting meeting:", error);
+      res.status(500).json({ message: "Failed to delete meeting" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
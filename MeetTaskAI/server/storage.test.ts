@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DatabaseStorage, MemStorage, MissingTasksError, type DataScope, type IStorage } from "./storage";
+import { createDatabase } from "./db";
+import { createTestPool } from "./test-utils";
+import { InvalidCursorError } from "./task-query";
+import type { InsertTask, Meeting, Task, TaskQuery } from "@shared/schema";
+
+const taskData: InsertTask = {
+  description: "Send the budget",
+  assignee: "Dana",
+  deadlineText: "by Friday",
+  priority: "P2",
+};
+
+/**
+ * Checks that one user's meetings and tasks cannot be reached from another
+ * user's scope, or from the same user's personal space when they belong to
+ * a workspace. Every backend has to pass the same checks.
+ */
+function describeScopeIsolation(name: string, createStorage: () => Promise<IStorage>) {
+  describe(`${name} scope isolation`, () => {
+    let storage: IStorage;
+    let alice: DataScope;
+    let bob: DataScope;
+    let aliceMeeting: Meeting;
+    let aliceTask: Task;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      const aliceUser = await storage.createUser({ username: "alice", password: "hashed" });
+      const bobUser = await storage.createUser({ username: "bob", password: "hashed" });
+      alice = { ownerId: aliceUser.id, workspaceId: null };
+      bob = { ownerId: bobUser.id, workspaceId: null };
+      aliceMeeting = await storage.createMeeting(alice, { title: "Planning", sourceType: "text", transcript: "Dana sends the budget." });
+      aliceTask = await storage.createTask(alice, { ...taskData, meetingId: aliceMeeting.id });
+    });
+
+    it("hides another user's meetings", async () => {
+      expect(await storage.getAllMeetings(bob)).toEqual([]);
+      expect(await storage.getMeeting(bob, aliceMeeting.id)).toBeUndefined();
+      expect(await storage.getTasksByMeeting(bob, aliceMeeting.id)).toEqual([]);
+    });
+
+    it("refuses to update or delete another user's meeting", async () => {
+      expect(await storage.updateMeeting(bob, aliceMeeting.id, { title: "Taken" })).toBeNull();
+      expect(await storage.deleteMeeting(bob, aliceMeeting.id)).toBe(false);
+      expect((await storage.getMeeting(alice, aliceMeeting.id))?.title).toBe("Planning");
+    });
+
+    it("hides another user's tasks", async () => {
+      expect(await storage.getAllTasks(bob)).toEqual([]);
+      expect(await storage.getTask(bob, aliceTask.id)).toBeUndefined();
+      expect(await storage.getTasksByIds(bob, [aliceTask.id])).toEqual([]);
+      expect((await storage.findTasks(bob, { sort: "createdAt", order: "desc", limit: 50 })).tasks).toEqual([]);
+    });
+
+    it("refuses to update or delete another user's task", async () => {
+      expect(await storage.updateTask(bob, aliceTask.id, { description: "Taken" })).toBeNull();
+      expect(await storage.deleteTask(bob, aliceTask.id)).toBe(false);
+      expect(await storage.linkTask(bob, aliceTask.id, { externalKey: "OPS-1" })).toBeUndefined();
+      expect(await storage.getTask(alice, aliceTask.id)).toMatchObject({ description: taskData.description, externalKey: null });
+    });
+
+    it("refuses a bulk update that names another user's task, changing nothing", async () => {
+      const bobTask = await storage.createTask(bob, taskData);
+      await expect(
+        storage.updateTasks(bob, [
+          { id: bobTask.id, updates: { priority: "P1" } },
+          { id: aliceTask.id, updates: { priority: "P1" } },
+        ]),
+      ).rejects.toThrow(MissingTasksError);
+      expect((await storage.getTask(bob, bobTask.id))?.priority).toBe("P2");
+      expect((await storage.getTask(alice, aliceTask.id))?.priority).toBe("P2");
+    });
+
+    it("refuses a bulk delete that names another user's task, deleting nothing", async () => {
+      const bobTask = await storage.createTask(bob, taskData);
+      await expect(storage.deleteTasks(bob, [bobTask.id, aliceTask.id])).rejects.toThrow(MissingTasksError);
+      expect(await storage.getTask(bob, bobTask.id)).toBeDefined();
+      expect(await storage.getTask(alice, aliceTask.id)).toBeDefined();
+    });
+
+    it("only clears tasks in the caller's scope", async () => {
+      await storage.clearAllTasks(bob);
+      expect(await storage.getTask(alice, aliceTask.id)).toBeDefined();
+    });
+
+    it("keeps workspace records out of the owner's personal space", async () => {
+      const workspace = await storage.createWorkspace("Ops", alice.ownerId);
+      const team: DataScope = { ownerId: alice.ownerId, workspaceId: workspace.id };
+      const teamTask = await storage.createTask(team, taskData);
+
+      expect(await storage.getTask(alice, teamTask.id)).toBeUndefined();
+      expect(await storage.getTask(team, aliceTask.id)).toBeUndefined();
+      expect((await storage.getAllTasks(alice)).map((task) => task.id)).toEqual([aliceTask.id]);
+    });
+  });
+}
+
+/**
+ * Pages through a small board whose sort keys tie, checking each backend
+ * returns every matching task exactly once, in the order the cursor encodes.
+ */
+function describeTaskPagination(name: string, createStorage: () => Promise<IStorage>) {
+  describe(`${name} task pagination`, () => {
+    let storage: IStorage;
+    let scope: DataScope;
+    // In creation order, so ids ascend
+    let board: Task[];
+
+    const rows: Partial<InsertTask>[] = [
+      { description: "Send the budget", dueAt: new Date("2030-01-02T12:00:00Z"), priority: "P2" },
+      { description: "Book the venue", dueAt: new Date("2030-01-01T12:00:00Z"), priority: "P1" },
+      { description: "Review the budget draft", dueAt: new Date("2030-01-02T12:00:00Z"), priority: "P2" },
+      { description: "Order catering", dueAt: null, priority: "P3" },
+      { description: "Approve the budget", dueAt: new Date("2030-01-02T12:00:00Z"), priority: "P1" },
+      { description: "Print the agenda", dueAt: null, priority: "P2" },
+      { description: "Send invites", dueAt: new Date("2030-01-03T12:00:00Z"), priority: "P3" },
+    ];
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      const user = await storage.createUser({ username: "pager", password: "hashed" });
+      scope = { ownerId: user.id, workspaceId: null };
+      board = [];
+      for (const row of rows) {
+        board.push(await storage.createTask(scope, { ...taskData, ...row }));
+      }
+    });
+
+    // Follows nextCursor to the end and returns the board positions in the order they came
+    async function pageThrough(query: Omit<TaskQuery, "cursor" | "limit">, limit = 2): Promise<number[]> {
+      const seen: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.findTasks(scope, { ...query, cursor, limit });
+        expect(page.tasks.length).toBeLessThanOrEqual(limit);
+        seen.push(...page.tasks.map((task) => board.findIndex((entry) => entry.id === task.id)));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return seen;
+    }
+
+    it("pages by due date in either direction, breaking ties by id and keeping undated tasks last", async () => {
+      expect(await pageThrough({ sort: "dueAt", order: "asc" })).toEqual([1, 0, 2, 4, 6, 3, 5]);
+      expect(await pageThrough({ sort: "dueAt", order: "desc" })).toEqual([6, 4, 2, 0, 1, 5, 3]);
+    });
+
+    it("pages by priority in either direction, breaking ties by id", async () => {
+      expect(await pageThrough({ sort: "priority", order: "asc" })).toEqual([1, 4, 0, 2, 5, 3, 6]);
+      expect(await pageThrough({ sort: "priority", order: "desc" })).toEqual([6, 3, 5, 2, 0, 4, 1]);
+    });
+
+    it("pages by creation time without duplicates or gaps when tasks share a timestamp", async () => {
+      expect(await pageThrough({ sort: "createdAt", order: "desc" }, 3)).toEqual([6, 5, 4, 3, 2, 1, 0]);
+      expect(await pageThrough({ sort: "createdAt", order: "asc" }, 3)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    });
+
+    it("applies a due date range across pages", async () => {
+      const range = { dueFrom: new Date("2030-01-02T00:00:00Z"), dueTo: new Date("2030-01-02T23:59:59Z") };
+      expect(await pageThrough({ ...range, sort: "dueAt", order: "asc" }, 1)).toEqual([0, 2, 4]);
+    });
+
+    it("keeps only the tasks with, or without, a due date", async () => {
+      expect(await pageThrough({ hasDueDate: true, sort: "dueAt", order: "asc" })).toEqual([1, 0, 2, 4, 6]);
+      expect(await pageThrough({ hasDueDate: false, sort: "createdAt", order: "asc" }, 1)).toEqual([3, 5]);
+    });
+
+    it("applies a search across pages", async () => {
+      expect(await pageThrough({ q: "BUDGET", sort: "priority", order: "asc" }, 1)).toEqual([4, 0, 2]);
+      expect(await pageThrough({ q: "the budget", sort: "dueAt", order: "desc" }, 1)).toEqual([4, 2, 0]);
+    });
+
+    it("rejects a cursor it did not issue, or one made for another ordering", async () => {
+      const first = await storage.findTasks(scope, { sort: "dueAt", order: "asc", limit: 2 });
+      expect(first.nextCursor).not.toBeNull();
+      await expect(storage.findTasks(scope, { sort: "dueAt", order: "asc", limit: 2, cursor: "not-a-cursor" }))
+        .rejects.toThrow(InvalidCursorError);
+      await expect(storage.findTasks(scope, { sort: "dueAt", order: "desc", limit: 2, cursor: first.nextCursor! }))
+        .rejects.toThrow(InvalidCursorError);
+      await expect(storage.findTasks(scope, { sort: "priority", order: "asc", limit: 2, cursor: first.nextCursor! }))
+        .rejects.toThrow(InvalidCursorError);
+    });
+  });
+}
+
+describeScopeIsolation("MemStorage", async () => new MemStorage());
+describeScopeIsolation("DatabaseStorage", async () => new DatabaseStorage(createDatabase(await createTestPool())));
+describeTaskPagination("MemStorage", async () => new MemStorage());
+describeTaskPagination("DatabaseStorage", async () => new DatabaseStorage(createDatabase(await createTestPool())));
@@ -1,28 +1,230 @@
-import { users, tasks, type User, type InsertUser, type Task, type InsertTask } from "@shared/schema";
+import {
+  users,
+  workspaces,
+  workspaceMembers,
+  meetings,
+  tasks,
+  calendarFeeds,
+  taskConfidenceFields,
+  type User,
+  type InsertUser,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+  type WorkspaceMemberWithUser,
+  type Meeting,
+  type InsertMeeting,
+  type Task,
+  type InsertTask,
+  type TaskPage,
+  type TaskLink,
+  type IntegrationProvider,
+  type CalendarFeed,
+  type TaskQuery,
+  type TaskSortField,
+  type SortOrder,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { db, pool, type Database } from "./db";
+import {
+  compareTasks,
+  decodeCursor,
+  matchesTaskQuery,
+  searchTerms,
+  sortValue,
+  toTaskPage,
+  type TaskCursor,
+} from "./task-query";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Expired sessions are swept once a day
+const SESSION_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Whose data a call works on: a workspace shared by its members, or the
+// user's personal space when workspaceId is null
+export interface DataScope {
+  ownerId: number;
+  workspaceId: number | null;
+}
+
+// Thrown when an update names a version of the task that is no longer current
+export class VersionConflictError extends Error {
+  constructor(public readonly current: Task) {
+    super(`Task ${current.id} has been changed and is now at version ${current.version}`);
+  }
+}
+
+// Thrown when a bulk change names tasks that are not in scope; nothing is changed
+export class MissingTasksError extends Error {
+  constructor(public readonly ids: number[]) {
+    super(`Tasks not found: ${ids.join(", ")}`);
+  }
+}
+
+// One task's share of a bulk update
+export interface TaskChange {
+  id: number;
+  updates: Partial<InsertTask>;
+}
+
+// Feeds are personal even in a shared workspace: each member manages only their own
+function isFeedInScope(feed: CalendarFeed, scope: DataScope): boolean {
+  return feed.ownerId === scope.ownerId && feed.workspaceId === scope.workspaceId;
+}
+
+function feedScopeFilter(scope: DataScope): SQL | undefined {
+  return and(
+    eq(calendarFeeds.ownerId, scope.ownerId),
+    scope.workspaceId !== null ? eq(calendarFeeds.workspaceId, scope.workspaceId) : isNull(calendarFeeds.workspaceId),
+  );
+}
+
+function inScope(record: { ownerId: number; workspaceId: number | null }, scope: DataScope): boolean {
+  return scope.workspaceId !== null
+    ? record.workspaceId === scope.workspaceId
+    : record.workspaceId === null && record.ownerId === scope.ownerId;
+}
+
+function scopeFilter(table: typeof meetings | typeof tasks, scope: DataScope) {
+  return scope.workspaceId !== null
+    ? eq(table.workspaceId, scope.workspaceId)
+    : and(eq(table.ownerId, scope.ownerId), isNull(table.workspaceId));
+}
+
+// The database side of sortValue: timestamps become whole epoch milliseconds
+function sortExpression(sort: TaskSortField): SQL {
+  switch (sort) {
+    case "priority":
+      return sql`${tasks.priority}`;
+    case "dueAt":
+      return sql`(extract(epoch from date_trunc('milliseconds', ${tasks.dueAt})) * 1000)::bigint`;
+    case "updatedAt":
+      return sql`(extract(epoch from date_trunc('milliseconds', ${tasks.updatedAt})) * 1000)::bigint`;
+    case "createdAt":
+    default:
+      return sql`(extract(epoch from date_trunc('milliseconds', ${tasks.createdAt})) * 1000)::bigint`;
+  }
+}
+
+// Rows that sort after the cursor, matching compareTasks; null values come last
+function afterCursor(key: SQL, cursor: TaskCursor, order: SortOrder): SQL | undefined {
+  const idAfter = order === "asc" ? gt(tasks.id, cursor.id) : lt(tasks.id, cursor.id);
+  if (cursor.value === null) {
+    return and(sql`${key} is null`, idAfter);
+  }
+  const beyond = order === "asc" ? sql`${key} > ${cursor.value}` : sql`${key} < ${cursor.value}`;
+  return or(beyond, and(sql`${key} = ${cursor.value}`, idAfter), sql`${key} is null`);
+}
+
+// LIKE treats % and _ as wildcards, so they are escaped in search terms
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// The database side of matchesTaskQuery
+function taskQueryFilters(query: TaskQuery): (SQL | undefined)[] {
+  return [
+    query.assignee ? sql`lower(${tasks.assignee}) = ${query.assignee.toLowerCase()}` : undefined,
+    query.priority ? eq(tasks.priority, query.priority) : undefined,
+    query.status ? eq(tasks.status, query.status) : undefined,
+    query.meetingId ? eq(tasks.meetingId, query.meetingId) : undefined,
+    query.hasDueDate === undefined ? undefined : query.hasDueDate ? isNotNull(tasks.dueAt) : isNull(tasks.dueAt),
+    query.dueFrom ? gte(tasks.dueAt, query.dueFrom) : undefined,
+    query.dueTo ? lte(tasks.dueAt, query.dueTo) : undefined,
+    // Tasks entered by hand have no confidence, so least() is null and they never match
+    query.reviewBelow !== undefined
+      ? sql`least(${sql.join(taskConfidenceFields.map((field) => sql`(${tasks.confidence}->>${field})::float8`), sql`, `)}) < ${query.reviewBelow}`
+      : undefined,
+    ...searchTerms(query.q).map((term) => ilike(tasks.description, `%${escapeLike(term)}%`)),
+  ];
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Creating a workspace makes its creator the first owner
+  createWorkspace(name: string, userId: number): Promise<WorkspaceWithRole>;
+  getWorkspacesForUser(userId: number): Promise<WorkspaceWithRole[]>;
+  getMembership(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]>;
+  addWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember>;
+  updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember | null>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean>;
+
+  // Meetings and tasks are always read and written within a scope; records
+  // outside it behave as if they did not exist
+  getAllMeetings(scope: DataScope): Promise<Meeting[]>;
+  getMeeting(scope: DataScope, id: number): Promise<Meeting | undefined>;
+  createMeeting(scope: DataScope, meeting: InsertMeeting): Promise<Meeting>;
+  updateMeeting(scope: DataScope, id: number, updates: Partial<InsertMeeting>): Promise<Meeting | null>;
+  deleteMeeting(scope: DataScope, id: number): Promise<boolean>;
+  getTasksByMeeting(scope: DataScope, meetingId: number): Promise<Task[]>;
   
-  getAllTasks(): Promise<Task[]>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | null>;
-  deleteTask(id: number): Promise<boolean>;
-  clearAllTasks(): Promise<void>;
+  getAllTasks(scope: DataScope): Promise<Task[]>;
+  // Filtered, sorted and paginated; throws InvalidCursorError for a cursor it did not issue
+  findTasks(scope: DataScope, query: TaskQuery): Promise<TaskPage>;
+  getTask(scope: DataScope, id: number): Promise<Task | undefined>;
+  createTask(scope: DataScope, task: InsertTask): Promise<Task>;
+  // With expectedVersion, throws VersionConflictError unless the task is still at that version
+  updateTask(scope: DataScope, id: number, updates: Partial<InsertTask>, expectedVersion?: number): Promise<Task | null>;
+  deleteTask(scope: DataScope, id: number): Promise<boolean>;
+  getTasksByIds(scope: DataScope, ids: number[]): Promise<Task[]>;
+  // All or nothing: throws MissingTasksError, changing nothing, if any task is not in scope
+  updateTasks(scope: DataScope, changes: TaskChange[]): Promise<Task[]>;
+  deleteTasks(scope: DataScope, ids: number[]): Promise<number[]>;
+  clearAllTasks(scope: DataScope): Promise<void>;
+  // Records the issue a task was pushed to and how it last synced. Not an edit: the version stays the same
+  linkTask(scope: DataScope, id: number, link: Partial<TaskLink>): Promise<Task | undefined>;
+  // Without a scope, every user's linked tasks: the sync worker runs for all of them
+  getLinkedTasks(scope?: DataScope): Promise<Task[]>;
+  // Looked up without a scope: a webhook names an issue, not a user
+  getTasksByExternalKey(provider: IntegrationProvider, key: string): Promise<Task[]>;
+
+  createCalendarFeed(scope: DataScope, token: string, assignee: string | null): Promise<CalendarFeed>;
+  getCalendarFeeds(scope: DataScope): Promise<CalendarFeed[]>;
+  // Looked up without a scope: the token is the only credential a feed request carries
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  deleteCalendarFeed(scope: DataScope, id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private workspaces: Map<number, Workspace>;
+  private workspaceMembers: WorkspaceMember[];
+  private meetings: Map<number, Meeting>;
   private tasks: Map<number, Task>;
+  private calendarFeeds: Map<number, CalendarFeed>;
   private currentUserId: number;
+  private currentWorkspaceId: number;
+  private currentMeetingId: number;
   private currentTaskId: number;
+  private currentCalendarFeedId: number;
 
   constructor() {
     this.users = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = [];
+    this.meetings = new Map();
     this.tasks = new Map();
+    this.calendarFeeds = new Map();
     this.currentUserId = 1;
+    this.currentWorkspaceId = 1;
+    this.currentMeetingId = 1;
     this.currentTaskId = 1;
+    this.currentCalendarFeedId = 1;
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -42,46 +244,611 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getAllTasks(): Promise<Task[]> {
-    return Array.from(this.tasks.values()).sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  async createWorkspace(name: string, userId: number): Promise<WorkspaceWithRole> {
+    const id = this.currentWorkspaceId++;
+    const workspace: Workspace = { id, name, createdBy: userId, createdAt: new Date() };
+    this.workspaces.set(id, workspace);
+    await this.addWorkspaceMember(id, userId, "owner");
+    return { ...workspace, role: "owner" };
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<WorkspaceWithRole[]> {
+    return this.workspaceMembers
+      .filter((member) => member.userId === userId)
+      .map((member) => ({ ...this.workspaces.get(member.workspaceId)!, role: member.role as WorkspaceRole }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getMembership(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return this.workspaceMembers.find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
     );
   }
 
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    return this.workspaceMembers
+      .filter((member) => member.workspaceId === workspaceId)
+      .map((member) => ({
+        userId: member.userId,
+        username: this.users.get(member.userId)?.username ?? "",
+        role: member.role as WorkspaceRole,
+      }))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async addWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const member: WorkspaceMember = { workspaceId, userId, role, createdAt: new Date() };
+    this.workspaceMembers.push(member);
+    return member;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember | null> {
+    const member = await this.getMembership(workspaceId, userId);
+    if (!member) {
+      return null;
+    }
+    member.role = role;
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const member = await this.getMembership(workspaceId, userId);
+    if (!member) {
+      return false;
+    }
+    this.workspaceMembers = this.workspaceMembers.filter((other) => other !== member);
+    return true;
+  }
+
+  async getAllMeetings(scope: DataScope): Promise<Meeting[]> {
+    return Array.from(this.meetings.values())
+      .filter((meeting) => inScope(meeting, scope))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  async getMeeting(scope: DataScope, id: number): Promise<Meeting | undefined> {
+    const meeting = this.meetings.get(id);
+    return meeting && inScope(meeting, scope) ? meeting : undefined;
+  }
+
+  async createMeeting(scope: DataScope, insertMeeting: InsertMeeting): Promise<Meeting> {
+    const id = this.currentMeetingId++;
+    const meeting: Meeting = {
+      ...insertMeeting,
+      id,
+      ownerId: scope.ownerId,
+      workspaceId: scope.workspaceId,
+      date: insertMeeting.date || new Date(),
+      audioFilename: insertMeeting.audioFilename ?? null,
+      transcriptSegments: insertMeeting.transcriptSegments ?? null,
+      timeZone: insertMeeting.timeZone ?? null,
+      createdAt: new Date()
+    };
+    this.meetings.set(id, meeting);
+    return meeting;
+  }
+
+  async updateMeeting(scope: DataScope, id: number, updates: Partial<InsertMeeting>): Promise<Meeting | null> {
+    const existingMeeting = await this.getMeeting(scope, id);
+    if (!existingMeeting) {
+      return null;
+    }
+
+    const updatedMeeting: Meeting = {
+      ...existingMeeting,
+      ...updates
+    };
+
+    this.meetings.set(id, updatedMeeting);
+    return updatedMeeting;
+  }
+
+  async deleteMeeting(scope: DataScope, id: number): Promise<boolean> {
+    if (!(await this.getMeeting(scope, id))) {
+      return false;
+    }
+    this.meetings.delete(id);
+
+    // Mirror the ON DELETE SET NULL foreign key
+    this.tasks.forEach((task) => {
+      if (task.meetingId === id) {
+        task.meetingId = null;
+      }
+    });
+    return true;
+  }
+
+  async getTasksByMeeting(scope: DataScope, meetingId: number): Promise<Task[]> {
+    return (await this.getAllTasks(scope)).filter((task) => task.meetingId === meetingId);
+  }
+
+  async getAllTasks(scope: DataScope): Promise<Task[]> {
+    return Array.from(this.tasks.values())
+      .filter((task) => inScope(task, scope))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async findTasks(scope: DataScope, query: TaskQuery): Promise<TaskPage> {
+    const after = query.cursor ? decodeCursor(query.cursor, query) : null;
+    const sorted = (await this.getAllTasks(scope))
+      .filter((task) => matchesTaskQuery(task, query))
+      .map((task) => ({ task, id: task.id, value: sortValue(task, query.sort) }))
+      .sort((a, b) => compareTasks(a, b, query.order))
+      .filter((entry) => !after || compareTasks(entry, after, query.order) > 0)
+      .map((entry) => entry.task);
+    return toTaskPage(sorted.slice(0, query.limit + 1), query);
+  }
+
+  async getTask(scope: DataScope, id: number): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    return task && inScope(task, scope) ? task : undefined;
+  }
+
+  async createTask(scope: DataScope, insertTask: InsertTask): Promise<Task> {
     const id = this.currentTaskId++;
+    const now = new Date();
     const task: Task = { 
       ...insertTask, 
       id, 
+      ownerId: scope.ownerId,
+      workspaceId: scope.workspaceId,
+      meetingId: insertTask.meetingId ?? null,
       priority: insertTask.priority || "P3",
-      createdAt: new Date() 
+      dueAt: insertTask.dueAt ?? null,
+      deadlineAmbiguous: insertTask.deadlineAmbiguous ?? false,
+      status: insertTask.status || "open",
+      completedAt: insertTask.completedAt ?? null,
+      extractionEngine: insertTask.extractionEngine ?? null,
+      sourceQuote: insertTask.sourceQuote ?? null,
+      sourceStart: insertTask.sourceStart ?? null,
+      sourceEnd: insertTask.sourceEnd ?? null,
+      sourceTimestamp: insertTask.sourceTimestamp ?? null,
+      confidence: insertTask.confidence ?? null,
+      version: 1,
+      externalProvider: null,
+      externalKey: null,
+      externalUrl: null,
+      externalSync: null,
+      createdAt: now,
+      updatedAt: now
     };
     this.tasks.set(id, task);
     return task;
   }
 
-  async updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | null> {
-    const existingTask = this.tasks.get(id);
+  async updateTask(scope: DataScope, id: number, updates: Partial<InsertTask>, expectedVersion?: number): Promise<Task | null> {
+    const existingTask = await this.getTask(scope, id);
     if (!existingTask) {
       return null;
     }
+    if (expectedVersion !== undefined && existingTask.version !== expectedVersion) {
+      throw new VersionConflictError(existingTask);
+    }
     
     const updatedTask: Task = {
       ...existingTask,
-      ...updates
+      ...updates,
+      version: existingTask.version + 1,
+      updatedAt: new Date()
     };
     
     this.tasks.set(id, updatedTask);
     return updatedTask;
   }
 
-  async deleteTask(id: number): Promise<boolean> {
-    return this.tasks.delete(id);
+  async deleteTask(scope: DataScope, id: number): Promise<boolean> {
+    return (await this.getTask(scope, id)) ? this.tasks.delete(id) : false;
+  }
+
+  async getTasksByIds(scope: DataScope, ids: number[]): Promise<Task[]> {
+    const found: Task[] = [];
+    for (const id of ids) {
+      const task = await this.getTask(scope, id);
+      if (task) {
+        found.push(task);
+      }
+    }
+    return found;
+  }
+
+  async updateTasks(scope: DataScope, changes: TaskChange[]): Promise<Task[]> {
+    await this.requireTasks(scope, changes.map((change) => change.id));
+    const updatedTasks: Task[] = [];
+    for (const { id, updates } of changes) {
+      updatedTasks.push((await this.updateTask(scope, id, updates))!);
+    }
+    return updatedTasks;
+  }
+
+  async deleteTasks(scope: DataScope, ids: number[]): Promise<number[]> {
+    await this.requireTasks(scope, ids);
+    ids.forEach((id) => this.tasks.delete(id));
+    return ids;
+  }
+
+  // Checked up front so a bulk change never stops half way
+  private async requireTasks(scope: DataScope, ids: number[]) {
+    const found = new Set((await this.getTasksByIds(scope, ids)).map((task) => task.id));
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new MissingTasksError(missing);
+    }
+  }
+
+  async clearAllTasks(scope: DataScope): Promise<void> {
+    this.tasks.forEach((task, id) => {
+      if (inScope(task, scope)) {
+        this.tasks.delete(id);
+      }
+    });
   }
 
-  async clearAllTasks(): Promise<void> {
-    this.tasks.clear();
+  async linkTask(scope: DataScope, id: number, link: Partial<TaskLink>): Promise<Task | undefined> {
+    const task = await this.getTask(scope, id);
+    if (!task) {
+      return undefined;
+    }
+    const linkedTask: Task = { ...task, ...link };
+    this.tasks.set(id, linkedTask);
+    return linkedTask;
+  }
+
+  async getLinkedTasks(scope?: DataScope): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) => task.externalKey !== null && (!scope || inScope(task, scope)),
+    );
+  }
+
+  async getTasksByExternalKey(provider: IntegrationProvider, key: string): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) => task.externalProvider === provider && task.externalKey === key,
+    );
+  }
+
+  async createCalendarFeed(scope: DataScope, token: string, assignee: string | null): Promise<CalendarFeed> {
+    const id = this.currentCalendarFeedId++;
+    const feed: CalendarFeed = {
+      id,
+      token,
+      ownerId: scope.ownerId,
+      workspaceId: scope.workspaceId,
+      assignee,
+      createdAt: new Date(),
+    };
+    this.calendarFeeds.set(id, feed);
+    return feed;
+  }
+
+  async getCalendarFeeds(scope: DataScope): Promise<CalendarFeed[]> {
+    return Array.from(this.calendarFeeds.values()).filter((feed) => isFeedInScope(feed, scope));
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find((feed) => feed.token === token);
+  }
+
+  async deleteCalendarFeed(scope: DataScope, id: number): Promise<boolean> {
+    const feed = this.calendarFeeds.get(id);
+    if (!feed || !isFeedInScope(feed, scope)) {
+      return false;
+    }
+    return this.calendarFeeds.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  // Sessions live in Postgres alongside the data when a pool is available
+  constructor(private db: Database, sessionPool?: pg.Pool) {
+    this.sessionStore = sessionPool
+      ? new PostgresSessionStore({ pool: sessionPool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createWorkspace(name: string, userId: number): Promise<WorkspaceWithRole> {
+    return this.db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(workspaces).values({ name, createdBy: userId }).returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId, role: "owner" });
+      return { ...workspace, role: "owner" as const };
+    });
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<WorkspaceWithRole[]> {
+    const rows = await this.db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map(({ workspace, role }) => ({ ...workspace, role: role as WorkspaceRole }));
+  }
+
+  async getMembership(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await this.db
+      .select({ userId: workspaceMembers.userId, username: users.username, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(users.username));
+    return rows.map((row) => ({ ...row, role: row.role as WorkspaceRole }));
+  }
+
+  async addWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const [member] = await this.db.insert(workspaceMembers).values({ workspaceId, userId, role }).returning();
+    return member;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember | null> {
+    const [member] = await this.db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return member ?? null;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ userId: workspaceMembers.userId });
+    return deleted.length > 0;
+  }
+
+  async getAllMeetings(scope: DataScope): Promise<Meeting[]> {
+    return this.db
+      .select()
+      .from(meetings)
+      .where(scopeFilter(meetings, scope))
+      .orderBy(desc(meetings.date), desc(meetings.id));
+  }
+
+  async getMeeting(scope: DataScope, id: number): Promise<Meeting | undefined> {
+    const [meeting] = await this.db
+      .select()
+      .from(meetings)
+      .where(and(eq(meetings.id, id), scopeFilter(meetings, scope)));
+    return meeting;
+  }
+
+  async createMeeting(scope: DataScope, insertMeeting: InsertMeeting): Promise<Meeting> {
+    const [meeting] = await this.db.insert(meetings).values({ ...insertMeeting, ownerId: scope.ownerId, workspaceId: scope.workspaceId }).returning();
+    return meeting;
+  }
+
+  async updateMeeting(scope: DataScope, id: number, updates: Partial<InsertMeeting>): Promise<Meeting | null> {
+    if (Object.keys(updates).length === 0) {
+      return (await this.getMeeting(scope, id)) ?? null;
+    }
+
+    const [updatedMeeting] = await this.db
+      .update(meetings)
+      .set(updates)
+      .where(and(eq(meetings.id, id), scopeFilter(meetings, scope)))
+      .returning();
+    return updatedMeeting ?? null;
+  }
+
+  async deleteMeeting(scope: DataScope, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(meetings)
+      .where(and(eq(meetings.id, id), scopeFilter(meetings, scope)))
+      .returning({ id: meetings.id });
+    return deleted.length > 0;
+  }
+
+  async getTasksByMeeting(scope: DataScope, meetingId: number): Promise<Task[]> {
+    return this.db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.meetingId, meetingId), scopeFilter(tasks, scope)))
+      .orderBy(desc(tasks.createdAt), desc(tasks.id));
+  }
+
+  async getAllTasks(scope: DataScope): Promise<Task[]> {
+    return this.db
+      .select()
+      .from(tasks)
+      .where(scopeFilter(tasks, scope))
+      .orderBy(desc(tasks.createdAt), desc(tasks.id));
+  }
+
+  async findTasks(scope: DataScope, query: TaskQuery): Promise<TaskPage> {
+    const after = query.cursor ? decodeCursor(query.cursor, query) : null;
+    const key = sortExpression(query.sort);
+    const rows = await this.db
+      .select()
+      .from(tasks)
+      .where(and(
+        scopeFilter(tasks, scope),
+        ...taskQueryFilters(query),
+        after ? afterCursor(key, after, query.order) : undefined,
+      ))
+      .orderBy(
+        query.order === "asc" ? sql`${key} asc nulls last` : sql`${key} desc nulls last`,
+        query.order === "asc" ? asc(tasks.id) : desc(tasks.id),
+      )
+      .limit(query.limit + 1);
+    return toTaskPage(rows, query);
+  }
+
+  async getTask(scope: DataScope, id: number): Promise<Task | undefined> {
+    const [task] = await this.db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, id), scopeFilter(tasks, scope)));
+    return task;
+  }
+
+  async createTask(scope: DataScope, insertTask: InsertTask): Promise<Task> {
+    const [task] = await this.db.insert(tasks).values({ ...insertTask, ownerId: scope.ownerId, workspaceId: scope.workspaceId }).returning();
+    return task;
+  }
+
+  async updateTask(scope: DataScope, id: number, updates: Partial<InsertTask>, expectedVersion?: number): Promise<Task | null> {
+    // The version check is part of the UPDATE itself, so two racing writers cannot both succeed
+    const [updatedTask] = await this.db
+      .update(tasks)
+      .set({ ...updates, version: sql`${tasks.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(tasks.id, id),
+        scopeFilter(tasks, scope),
+        expectedVersion !== undefined ? eq(tasks.version, expectedVersion) : undefined,
+      ))
+      .returning();
+    if (updatedTask) {
+      return updatedTask;
+    }
+
+    const current = await this.getTask(scope, id);
+    if (current && expectedVersion !== undefined) {
+      throw new VersionConflictError(current);
+    }
+    return null;
+  }
+
+  async deleteTask(scope: DataScope, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tasks)
+      .where(and(eq(tasks.id, id), scopeFilter(tasks, scope)))
+      .returning({ id: tasks.id });
+    return deleted.length > 0;
+  }
+
+  async getTasksByIds(scope: DataScope, ids: number[]): Promise<Task[]> {
+    return this.db
+      .select()
+      .from(tasks)
+      .where(and(inArray(tasks.id, ids), scopeFilter(tasks, scope)));
+  }
+
+  async updateTasks(scope: DataScope, changes: TaskChange[]): Promise<Task[]> {
+    // Throwing inside the transaction rolls back the updates already made
+    return this.db.transaction(async (tx) => {
+      const updatedTasks: Task[] = [];
+      const missing: number[] = [];
+      for (const { id, updates } of changes) {
+        const [updatedTask] = await tx
+          .update(tasks)
+          .set({ ...updates, version: sql`${tasks.version} + 1`, updatedAt: new Date() })
+          .where(and(eq(tasks.id, id), scopeFilter(tasks, scope)))
+          .returning();
+        if (updatedTask) {
+          updatedTasks.push(updatedTask);
+        } else {
+          missing.push(id);
+        }
+      }
+      if (missing.length > 0) {
+        throw new MissingTasksError(missing);
+      }
+      return updatedTasks;
+    });
+  }
+
+  async deleteTasks(scope: DataScope, ids: number[]): Promise<number[]> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(tasks)
+        .where(and(inArray(tasks.id, ids), scopeFilter(tasks, scope)))
+        .returning({ id: tasks.id });
+      const deletedIds = new Set(deleted.map((row) => row.id));
+      const missing = ids.filter((id) => !deletedIds.has(id));
+      if (missing.length > 0) {
+        throw new MissingTasksError(missing);
+      }
+      return ids;
+    });
+  }
+
+  async clearAllTasks(scope: DataScope): Promise<void> {
+    await this.db.delete(tasks).where(scopeFilter(tasks, scope));
+  }
+
+  async linkTask(scope: DataScope, id: number, link: Partial<TaskLink>): Promise<Task | undefined> {
+    const [linkedTask] = await this.db
+      .update(tasks)
+      .set(link)
+      .where(and(eq(tasks.id, id), scopeFilter(tasks, scope)))
+      .returning();
+    return linkedTask;
+  }
+
+  async getLinkedTasks(scope?: DataScope): Promise<Task[]> {
+    return this.db
+      .select()
+      .from(tasks)
+      .where(and(isNotNull(tasks.externalKey), scope ? scopeFilter(tasks, scope) : undefined));
+  }
+
+  async getTasksByExternalKey(provider: IntegrationProvider, key: string): Promise<Task[]> {
+    return this.db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.externalProvider, provider), eq(tasks.externalKey, key)));
+  }
+
+  async createCalendarFeed(scope: DataScope, token: string, assignee: string | null): Promise<CalendarFeed> {
+    const [feed] = await this.db
+      .insert(calendarFeeds)
+      .values({ token, ownerId: scope.ownerId, workspaceId: scope.workspaceId, assignee })
+      .returning();
+    return feed;
+  }
+
+  async getCalendarFeeds(scope: DataScope): Promise<CalendarFeed[]> {
+    return this.db.select().from(calendarFeeds).where(feedScopeFilter(scope)).orderBy(asc(calendarFeeds.id));
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async deleteCalendarFeed(scope: DataScope, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, id), feedScopeFilter(scope)))
+      .returning({ id: calendarFeeds.id });
+    return deleted.length > 0;
   }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when DATABASE_URL is configured, otherwise keep everything in memory
+export const storage: IStorage = db ? new DatabaseStorage(db, pool) : new MemStorage();
+
+// Every task matching the query, gathered a page at a time in the query's order
+export async function findAllTasks(scope: DataScope, query: Omit<TaskQuery, "cursor" | "limit">): Promise<Task[]> {
+  const found: Task[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.findTasks(scope, { ...query, cursor, limit: 100 });
+    found.push(...page.tasks);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return found;
+}
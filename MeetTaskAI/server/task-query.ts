@@ -0,0 +1,112 @@
+import { needsReview, type Task, type TaskPage, type TaskQuery, type TaskSortField, type SortOrder } from "@shared/schema";
+
+// Where a page ended: the sort value and id of its last task
+export interface TaskCursor {
+  value: string | number | null;
+  id: number;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid or expired cursor");
+  }
+}
+
+/**
+ * The value a task is ordered by. Timestamps are compared as whole
+ * milliseconds, which is all a cursor can carry, so the in-memory and
+ * database orderings agree.
+ */
+export function sortValue(task: Task, sort: TaskSortField): string | number | null {
+  switch (sort) {
+    case "priority":
+      return task.priority;
+    case "dueAt":
+      return task.dueAt ? new Date(task.dueAt).getTime() : null;
+    case "updatedAt":
+      return new Date(task.updatedAt).getTime();
+    case "createdAt":
+    default:
+      return new Date(task.createdAt).getTime();
+  }
+}
+
+// The cursor records the ordering it was made for, so it cannot be replayed against another
+export function encodeCursor(task: Task, query: Pick<TaskQuery, "sort" | "order">): string {
+  const payload = { s: query.sort, o: query.order, v: sortValue(task, query.sort), id: task.id };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, query: Pick<TaskQuery, "sort" | "order">): TaskCursor {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const valueType = query.sort === "priority" ? "string" : "number";
+    if (
+      payload.s !== query.sort ||
+      payload.o !== query.order ||
+      !Number.isInteger(payload.id) ||
+      (payload.v !== null && typeof payload.v !== valueType)
+    ) {
+      throw new InvalidCursorError();
+    }
+    return { value: payload.v, id: payload.id };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Orders by the sort field, then id, with missing values last in either direction
+export function compareTasks(
+  a: { value: string | number | null; id: number },
+  b: { value: string | number | null; id: number },
+  order: SortOrder,
+): number {
+  const direction = order === "asc" ? 1 : -1;
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    return (a.value < b.value ? -1 : 1) * direction;
+  }
+  return (a.id - b.id) * direction;
+}
+
+// Trims a sorted run of tasks, fetched one past the limit, to a page
+export function toTaskPage(sorted: Task[], query: Pick<TaskQuery, "sort" | "order" | "limit">): TaskPage {
+  const tasks = sorted.slice(0, query.limit);
+  const hasMore = sorted.length > query.limit;
+  return { tasks, nextCursor: hasMore ? encodeCursor(tasks[tasks.length - 1], query) : null };
+}
+
+export function searchTerms(q: string | undefined): string[] {
+  return q ? q.toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+// The in-memory equivalent of the database filters
+export function matchesTaskQuery(task: Task, query: TaskQuery): boolean {
+  if (query.assignee && task.assignee.toLowerCase() !== query.assignee.toLowerCase()) {
+    return false;
+  }
+  if (query.priority && task.priority !== query.priority) {
+    return false;
+  }
+  if (query.status && task.status !== query.status) {
+    return false;
+  }
+  if (query.meetingId && task.meetingId !== query.meetingId) {
+    return false;
+  }
+  if (query.hasDueDate !== undefined && (task.dueAt !== null) !== query.hasDueDate) {
+    return false;
+  }
+  if (query.dueFrom || query.dueTo) {
+    const dueAt = task.dueAt ? new Date(task.dueAt).getTime() : null;
+    if (dueAt === null) return false;
+    if (query.dueFrom && dueAt < query.dueFrom.getTime()) return false;
+    if (query.dueTo && dueAt > query.dueTo.getTime()) return false;
+  }
+  if (query.reviewBelow !== undefined && !needsReview(task, query.reviewBelow)) {
+    return false;
+  }
+  const description = task.description.toLowerCase();
+  return searchTerms(query.q).every((term) => description.includes(term));
+}
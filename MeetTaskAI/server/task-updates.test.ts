@@ -0,0 +1,101 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { prepareTaskUpdate, resolveStatusTransition } from "./task-updates";
+import { storage, type DataScope } from "./storage";
+import type { InsertTask, Task } from "@shared/schema";
+
+const taskData: InsertTask = {
+  description: "Send the budget",
+  assignee: "Dana",
+  deadlineText: "by Friday",
+  priority: "P2",
+};
+
+let scope: DataScope;
+
+beforeAll(async () => {
+  const user = await storage.createUser({ username: "updater", password: "hashed" });
+  scope = { ownerId: user.id, workspaceId: null };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createTask(overrides: Partial<InsertTask> = {}): Promise<Task> {
+  return storage.createTask(scope, { ...taskData, ...overrides });
+}
+
+describe("resolveStatusTransition", () => {
+  it("stamps completedAt when a task is done", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-01-15T10:00:00Z"));
+    expect(resolveStatusTransition(await createTask(), "done")).toEqual({
+      status: "done",
+      completedAt: new Date("2030-01-15T10:00:00Z"),
+    });
+  });
+
+  it("clears completedAt when a done task is reopened", async () => {
+    const task = await createTask({ status: "done", completedAt: new Date("2030-01-15T10:00:00Z") });
+    expect(resolveStatusTransition(task, "open")).toEqual({ status: "open", completedAt: null });
+    expect(resolveStatusTransition(task, "in_progress")).toEqual({ status: "in_progress", completedAt: null });
+  });
+
+  it("keeps completedAt when the status does not change", async () => {
+    const completedAt = new Date("2030-01-15T10:00:00Z");
+    const task = await createTask({ status: "done", completedAt });
+    expect(resolveStatusTransition(task, "done")).toEqual({ status: "done", completedAt });
+  });
+
+  it("rejects a status that does not exist", async () => {
+    const task = await createTask();
+    expect(resolveStatusTransition(task, "archived")).toEqual({
+      error: "Invalid status. Expected one of: open, in_progress, blocked, done",
+    });
+    expect(resolveStatusTransition(task, undefined)).toHaveProperty("error");
+  });
+
+  it("rejects a move the workflow does not allow", async () => {
+    const task = await createTask({ status: "blocked" });
+    expect(resolveStatusTransition(task, "done")).toEqual({ error: "Cannot move a task from blocked to done" });
+  });
+});
+
+describe("prepareTaskUpdate", () => {
+  it("stamps completedAt when an update marks the task done, and clears it on reopen", async () => {
+    const task = await createTask();
+    const done = await prepareTaskUpdate(scope, task, { status: "done" });
+    expect(done).toEqual({ updates: { status: "done", completedAt: expect.any(Date) } });
+
+    const finished = await createTask({ status: "done", completedAt: new Date("2030-01-15T10:00:00Z") });
+    expect(await prepareTaskUpdate(scope, finished, { status: "open" })).toEqual({
+      updates: { status: "open", completedAt: null },
+    });
+  });
+
+  it("reports an invalid status against the status field", async () => {
+    const task = await createTask();
+    expect(await prepareTaskUpdate(scope, task, { status: "archived" })).toEqual({
+      field: "status",
+      error: "Invalid status. Expected one of: open, in_progress, blocked, done",
+    });
+    expect(await prepareTaskUpdate(scope, await createTask({ status: "blocked" }), { status: "done" })).toEqual({
+      field: "status",
+      error: "Cannot move a task from blocked to done",
+    });
+  });
+
+  it("leaves completedAt alone when the status is not part of the update", async () => {
+    const task = await createTask({ status: "done", completedAt: new Date("2030-01-15T10:00:00Z") });
+    expect(await prepareTaskUpdate(scope, task, { priority: "P1" })).toEqual({ updates: { priority: "P1" } });
+  });
+
+  it("refuses to move a task to a meeting outside the scope", async () => {
+    const other = await storage.createUser({ username: "outsider", password: "hashed" });
+    const meeting = await storage.createMeeting({ ownerId: other.id, workspaceId: null }, { title: "Theirs", sourceType: "text" });
+    expect(await prepareTaskUpdate(scope, await createTask(), { meetingId: meeting.id })).toEqual({
+      field: "meetingId",
+      error: "Meeting not found",
+    });
+  });
+});
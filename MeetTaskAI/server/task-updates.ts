@@ -0,0 +1,121 @@
+import { storage, type DataScope } from "./storage";
+import { resolveDeadline, getDefaultTimeZone, isValidTimeZone } from "./deadline";
+import {
+  taskStatuses,
+  canTransitionStatus,
+  taskConfidenceFields,
+  type InsertTask,
+  type Meeting,
+  type Task,
+  type TaskStatus,
+  type TaskConfidence,
+  type TaskConfidenceField,
+} from "@shared/schema";
+
+// Spoken deadlines are relative to when the meeting happened, in the zone it happened in
+export function resolveMeetingDeadline(deadlineText: string, meeting: Meeting | undefined, fallbackDate: Date) {
+  return resolveDeadline(deadlineText, {
+    referenceDate: meeting?.date ?? fallbackDate,
+    timeZone: meeting?.timeZone ?? undefined,
+  });
+}
+
+// Raises the confidence of every extracted field the update changes to certain
+function confirmEditedFields(task: Task, updates: Partial<InsertTask>): TaskConfidence | null {
+  if (!task.confidence) {
+    return null;
+  }
+
+  const edited: Record<TaskConfidenceField, boolean> = {
+    description: updates.description !== undefined && updates.description !== task.description,
+    assignee: updates.assignee !== undefined && updates.assignee !== task.assignee,
+    deadline: (updates.deadlineText !== undefined && updates.deadlineText !== task.deadlineText) || updates.dueAt !== undefined,
+    priority: updates.priority !== undefined && updates.priority !== task.priority,
+  };
+  if (!taskConfidenceFields.some((field) => edited[field])) {
+    return null;
+  }
+
+  const confidence = { ...task.confidence };
+  for (const field of taskConfidenceFields) {
+    if (edited[field]) {
+      confidence[field] = 1;
+    }
+  }
+  return confidence;
+}
+
+/**
+ * Applies the rules every task edit follows: a status change is checked and
+ * stamps completedAt, a reworded deadline is resolved again unless a
+ * timestamp was given, and edited fields are marked as confirmed.
+ */
+export async function prepareTaskUpdate(
+  scope: DataScope,
+  task: Task,
+  changes: Partial<InsertTask>,
+): Promise<{ updates: Partial<InsertTask> } | { field: string; error: string }> {
+  const updates = { ...changes };
+
+  if (updates.meetingId !== undefined && updates.meetingId !== null && !(await storage.getMeeting(scope, updates.meetingId))) {
+    return { field: "meetingId", error: "Meeting not found" };
+  }
+
+  if (updates.status !== undefined) {
+    const transition = resolveStatusTransition(task, updates.status);
+    if ("error" in transition) {
+      return { field: "status", error: transition.error };
+    }
+    Object.assign(updates, transition);
+  }
+
+  // A reworded deadline is re-resolved unless the client pinned an explicit timestamp. The
+  // same wording sent back unchanged keeps the current timestamp, which may have been moved
+  // on the calendar or synced from a tracker since the phrase was last resolved
+  const reworded = updates.deadlineText !== undefined && updates.deadlineText !== task.deadlineText;
+  if (reworded && updates.dueAt === undefined) {
+    const meeting = task.meetingId ? await storage.getMeeting(scope, task.meetingId) : undefined;
+    const { dueAt, ambiguous } = resolveMeetingDeadline(updates.deadlineText!, meeting, task.createdAt);
+    updates.dueAt = dueAt;
+    updates.deadlineAmbiguous = ambiguous;
+  } else if (updates.dueAt !== undefined) {
+    updates.deadlineAmbiguous = false;
+  }
+
+  // A field a person has corrected is no longer in doubt
+  if (task.confidence && updates.confidence === undefined) {
+    const confirmed = confirmEditedFields(task, updates);
+    if (confirmed) {
+      updates.confidence = confirmed;
+    }
+  }
+
+  return { updates };
+}
+
+// Validates a status change and stamps or clears completedAt to match it
+export function resolveStatusTransition(
+  task: Task,
+  nextStatus: unknown,
+): { status: TaskStatus; completedAt: Date | null } | { error: string } {
+  if (!taskStatuses.includes(nextStatus as TaskStatus)) {
+    return { error: `Invalid status. Expected one of: ${taskStatuses.join(", ")}` };
+  }
+
+  const from = task.status as TaskStatus;
+  const to = nextStatus as TaskStatus;
+  if (!canTransitionStatus(from, to)) {
+    return { error: `Cannot move a task from ${from} to ${to}` };
+  }
+
+  if (from === to) {
+    return { status: to, completedAt: task.completedAt };
+  }
+  return { status: to, completedAt: to === "done" ? new Date() : null };
+}
+
+// The zone a task's deadline is read in: its meeting's, or the server default
+export async function taskTimeZone(scope: DataScope, task: Task): Promise<string> {
+  const meeting = task.meetingId ? await storage.getMeeting(scope, task.meetingId) : undefined;
+  return meeting?.timeZone && isValidTimeZone(meeting.timeZone) ? meeting.timeZone : getDefaultTimeZone();
+}
@@ -0,0 +1,141 @@
+import express from "express";
+import { createRequire } from "module";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type pg from "pg";
+import { DataType, newDb, type IBackup } from "pg-mem";
+import { registerRoutes } from "./routes";
+import * as schema from "@shared/schema";
+
+// Only drizzle-kit's CommonJS build can be loaded at runtime
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+export interface TestResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+// A signed-in user talking to the test server, carrying its session cookie along
+export class TestClient {
+  constructor(private baseUrl: string, private cookie = "") {}
+
+  // Form data is sent as a multipart upload, anything else as JSON
+  async request<T = any>(method: string, path: string, body?: unknown): Promise<TestResponse<T>> {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && !isForm ? { "Content-Type": "application/json" } : {}),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+      },
+      body: isForm ? body : body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) {
+      this.cookie = setCookie.split(";")[0];
+    }
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  }
+
+  // For responses that are files rather than JSON
+  async download(path: string): Promise<{ status: number; contentType: string | null; body: Buffer }> {
+    const response = await fetch(`${this.baseUrl}${path}`, { headers: this.cookie ? { Cookie: this.cookie } : {} });
+    return {
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+      body: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+}
+
+export interface TestServer {
+  url: string;
+  // Registers a new account and returns a client signed in as it
+  signUp(username: string): Promise<TestClient>;
+  close(): Promise<void>;
+}
+
+// The app as server/index.ts builds it, minus Vite, on a free port
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }));
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    async signUp(username: string) {
+      const client = new TestClient(url);
+      const response = await client.request("POST", "/api/auth/register", { username, password: "correct horse battery" });
+      if (response.status !== 201 && response.status !== 200) {
+        throw new Error(`Could not register ${username}: ${JSON.stringify(response.body)}`);
+      }
+      return client;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+// An in-memory Postgres with the tables db:push would create, for running DatabaseStorage without a server
+export async function createTestPool(): Promise<pg.Pool> {
+  const database = newDb();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    database.public.none(statement);
+  }
+  // Cursors compare timestamps to the millisecond, which is all a JavaScript date holds anyway
+  for (const type of [DataType.timestamp, DataType.timestamptz]) {
+    database.public.registerFunction({
+      name: "date_trunc",
+      args: [DataType.text, type],
+      returns: type,
+      implementation: (unit: string, value: Date) => {
+        if (unit !== "milliseconds") {
+          throw new Error(`date_trunc to ${unit} is not available in tests`);
+        }
+        return value;
+      },
+    });
+  }
+
+  const { Pool } = database.adapters.createPg();
+  // pg-mem refuses two options drizzle sets on every query: type parsers that leave timestamps
+  // as text, when pg-mem returns them parsed anyway, and rows as arrays, which are rebuilt here
+  // from the column order. It also ignores ROLLBACK, so a transaction restores a snapshot
+  // instead. connect() hands back the pool itself, so all of this covers transactions too
+  class TestPool extends Pool {
+    private snapshot?: IBackup;
+
+    async query(query: unknown, ...args: unknown[]) {
+      const { types: _types, rowMode, ...rest } = (typeof query === "string" ? { text: query } : query) as {
+        text: string;
+        types?: unknown;
+        rowMode?: string;
+      };
+      switch (rest.text.trim().toLowerCase()) {
+        case "begin":
+          this.snapshot = database.backup();
+          return { rows: [], rowCount: 0 };
+        case "commit":
+          this.snapshot = undefined;
+          return { rows: [], rowCount: 0 };
+        case "rollback":
+          this.snapshot?.restore();
+          this.snapshot = undefined;
+          return { rows: [], rowCount: 0 };
+      }
+      const result = await super.query(rest, ...args);
+      return rowMode === "array"
+        ? { ...result, rows: result.rows.map((row: Record<string, unknown>) => Object.values(row)) }
+        : result;
+    }
+  }
+  // Only the query and connect methods drizzle calls are there
+  return new TestPool() as unknown as pg.Pool;
+}
@@ -0,0 +1,152 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestClient, type TestServer } from "./test-utils";
+import type { Task, WorkspaceRole } from "@shared/schema";
+
+let server: TestServer;
+let members: Record<WorkspaceRole, TestClient>;
+let userIds: Record<WorkspaceRole, number>;
+let workspaceId: number;
+let invited = 0;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  members = {
+    owner: await server.signUp("team-owner"),
+    editor: await server.signUp("team-editor"),
+    viewer: await server.signUp("team-viewer"),
+  };
+  const workspace = await members.owner.request("POST", "/api/workspaces", { name: "Ops" });
+  expect(workspace.status).toBe(201);
+  workspaceId = workspace.body.id;
+
+  const editor = await members.owner.request("POST", `/api/workspaces/${workspaceId}/members`, { username: "team-editor", role: "editor" });
+  const viewer = await members.owner.request("POST", `/api/workspaces/${workspaceId}/members`, { username: "team-viewer", role: "viewer" });
+  userIds = { owner: workspace.body.createdBy, editor: editor.body.userId, viewer: viewer.body.userId };
+  for (const client of Object.values(members)) {
+    expect((await client.request("POST", "/api/workspaces/select", { workspaceId })).status).toBe(200);
+  }
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function createSharedTask(description = "Send the budget"): Promise<Task> {
+  const created = await members.owner.request("POST", "/api/tasks/bulk-create", {
+    tasks: [{ description, assignee: "Dana", deadlineText: "", priority: "P3" }],
+  });
+  expect(created.status).toBe(201);
+  return created.body.tasks[0];
+}
+
+// What each role may do in a shared workspace, as [action, owner, editor, viewer] statuses
+const matrix: [string, (client: TestClient) => Promise<number>, number, number, number][] = [
+  ["list tasks", async (client) => (await client.request("GET", "/api/tasks")).status, 200, 200, 200],
+  ["list meetings", async (client) => (await client.request("GET", "/api/meetings")).status, 200, 200, 200],
+  ["list members", async (client) => (await client.request("GET", `/api/workspaces/${workspaceId}/members`)).status, 200, 200, 200],
+  ["create a calendar feed", async (client) => (await client.request("POST", "/api/calendar-feeds", {})).status, 201, 201, 201],
+  ["create tasks", async (client) => (await client.request("POST", "/api/tasks/bulk-create", {
+    tasks: [{ description: "Book the room", assignee: "Lee", deadlineText: "", priority: "P2" }],
+  })).status, 201, 201, 403],
+  ["edit a task", async (client) => {
+    const task = await createSharedTask();
+    return (await client.request("PATCH", `/api/tasks/${task.id}`, { priority: "P1" })).status;
+  }, 200, 200, 403],
+  ["delete a task", async (client) => {
+    const task = await createSharedTask();
+    return (await client.request("DELETE", `/api/tasks/${task.id}`)).status;
+  }, 200, 200, 403],
+  ["change tasks in bulk", async (client) => {
+    const task = await createSharedTask();
+    return (await client.request("POST", "/api/tasks/bulk", { action: "status", ids: [task.id], status: "done" })).status;
+  }, 200, 200, 403],
+  ["create a meeting", async (client) => (await client.request("POST", "/api/meetings", { title: "Standup", sourceType: "text", transcript: "Quick sync." })).status, 201, 201, 403],
+  ["extract tasks from a transcript", async (client) => (await client.request("POST", "/api/process-transcript", {
+    transcript: "Dana will send the budget by Friday.",
+    mode: "heuristic",
+  })).status, 200, 200, 403],
+  ["invite a member", async (client) => {
+    const username = `team-invitee-${++invited}`;
+    await server.signUp(username);
+    return (await client.request("POST", `/api/workspaces/${workspaceId}/members`, { username, role: "viewer" })).status;
+  }, 201, 403, 403],
+  ["change a member's role", async (client) => (await client.request("PATCH", `/api/workspaces/${workspaceId}/members/${userIds.viewer}`, { role: "viewer" })).status, 200, 403, 403],
+  ["clear the board", async (client) => (await client.request("DELETE", "/api/tasks")).status, 200, 403, 403],
+];
+
+describe("workspace permissions", () => {
+  describe.each(matrix)("%s", (_action, attempt, owner, editor, viewer) => {
+    it.each([
+      ["owner", owner],
+      ["editor", editor],
+      ["viewer", viewer],
+    ] as [WorkspaceRole, number][])("as %s answers %i", async (role, status) => {
+      expect(await attempt(members[role])).toBe(status);
+    });
+  });
+
+  it("leaves the task alone when a viewer is refused", async () => {
+    const task = await createSharedTask();
+    await members.viewer.request("PATCH", `/api/tasks/${task.id}`, { priority: "P1" });
+    await members.viewer.request("DELETE", `/api/tasks/${task.id}`);
+    const page = await members.owner.request("GET", "/api/tasks?limit=100");
+    expect(page.body.tasks.find((entry: Task) => entry.id === task.id)).toMatchObject({ priority: "P3" });
+  });
+});
+
+describe("shared task board", () => {
+  it("shows every member the tasks any member adds", async () => {
+    const created = await members.editor.request("POST", "/api/tasks/bulk-create", {
+      tasks: [{ description: "Draft the hiring plan", assignee: "Kim", deadlineText: "", priority: "P2" }],
+    });
+    const id = created.body.tasks[0].id;
+    for (const client of Object.values(members)) {
+      const page = await client.request("GET", "/api/tasks?q=hiring");
+      expect(page.body.tasks.map((task: Task) => task.id)).toContain(id);
+    }
+  });
+
+  it("keeps workspace tasks out of a member's personal space", async () => {
+    const task = await createSharedTask("Workspace only");
+    expect((await members.owner.request("GET", "/api/tasks?q=workspace")).body.tasks).toMatchObject([{ id: task.id }]);
+
+    await members.owner.request("POST", "/api/workspaces/select", { workspaceId: null });
+    try {
+      expect((await members.owner.request("GET", "/api/tasks?q=workspace")).body.tasks).toEqual([]);
+    } finally {
+      await members.owner.request("POST", "/api/workspaces/select", { workspaceId });
+    }
+  });
+});
+
+describe("workspace membership", () => {
+  it("keeps the last owner from being demoted", async () => {
+    const response = await members.owner.request("PATCH", `/api/workspaces/${workspaceId}/members/${userIds.owner}`, { role: "editor" });
+    expect(response.status).toBe(409);
+    expect((await members.owner.request("DELETE", `/api/workspaces/${workspaceId}/members/${userIds.owner}`)).status).toBe(409);
+  });
+
+  it("lets an editor leave but not remove anyone else", async () => {
+    const leaver = await server.signUp("team-leaver");
+    const added = await members.owner.request("POST", `/api/workspaces/${workspaceId}/members`, { username: "team-leaver", role: "editor" });
+    expect((await leaver.request("POST", "/api/workspaces/select", { workspaceId })).status).toBe(200);
+
+    expect((await leaver.request("DELETE", `/api/workspaces/${workspaceId}/members/${userIds.viewer}`)).status).toBe(403);
+    expect((await leaver.request("DELETE", `/api/workspaces/${workspaceId}/members/${added.body.userId}`)).status).toBe(200);
+    // Back in their personal space, which holds none of the workspace's tasks
+    expect((await leaver.request("GET", "/api/tasks?q=budget")).body.tasks).toEqual([]);
+    expect((await leaver.request("POST", "/api/workspaces/select", { workspaceId })).status).toBe(404);
+  });
+
+  it("lets an owner remove a member, who then loses access", async () => {
+    const removed = await server.signUp("team-removed");
+    const added = await members.owner.request("POST", `/api/workspaces/${workspaceId}/members`, { username: "team-removed", role: "editor" });
+    await removed.request("POST", "/api/workspaces/select", { workspaceId });
+    await createSharedTask("Visible to the team");
+    expect((await removed.request("GET", "/api/tasks?q=visible")).body.tasks).toHaveLength(1);
+
+    expect((await members.owner.request("DELETE", `/api/workspaces/${workspaceId}/members/${added.body.userId}`)).status).toBe(200);
+    expect((await removed.request("GET", "/api/tasks?q=visible")).body.tasks).toEqual([]);
+    expect((await removed.request("GET", `/api/workspaces/${workspaceId}/members`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,280 @@
+import type { Express, RequestHandler, Response } from "express";
+import { storage, type DataScope } from "./storage";
+import { currentUserId, requireAuth } from "./auth";
+import {
+  insertWorkspaceSchema,
+  workspaceInviteSchema,
+  workspaceRoleUpdateSchema,
+  workspaceSelectSchema,
+  workspaceRoleLabels,
+  hasWorkspaceRole,
+  type WorkspaceRole,
+} from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // The workspace the user is working in; unset or null for their personal space
+    workspaceId?: number | null;
+  }
+}
+
+function setScope(res: Response, scope: DataScope, role: WorkspaceRole) {
+  res.locals.scope = scope;
+  res.locals.role = role;
+}
+
+/**
+ * Works out which data the request acts on from the workspace selected in
+ * the session. The personal space behaves as a workspace the user owns, so
+ * role checks apply the same way everywhere. Only valid behind requireAuth.
+ */
+export const resolveScope: RequestHandler = async (req, res, next) => {
+  try {
+    const userId = currentUserId(req);
+    const workspaceId = req.session.workspaceId ?? null;
+
+    if (workspaceId !== null) {
+      const membership = await storage.getMembership(workspaceId, userId);
+      if (membership) {
+        setScope(res, { ownerId: userId, workspaceId }, membership.role as WorkspaceRole);
+        return next();
+      }
+      // Removed from the workspace since selecting it
+      req.session.workspaceId = null;
+    }
+
+    setScope(res, { ownerId: userId, workspaceId: null }, "owner");
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Only valid behind resolveScope
+export function currentScope(res: Response): DataScope {
+  if (!res.locals.scope) {
+    throw new Error("No data scope resolved for the request");
+  }
+  return res.locals.scope;
+}
+
+export function currentRole(res: Response): WorkspaceRole {
+  return res.locals.role ?? "viewer";
+}
+
+// Rejects requests from members below the given role in the current workspace
+export function requireRole(required: WorkspaceRole): RequestHandler {
+  return (req, res, next) => {
+    if (!hasWorkspaceRole(currentRole(res), required)) {
+      return res.status(403).json({
+        message: `This needs ${workspaceRoleLabels[required].toLowerCase()} access to the workspace`,
+      });
+    }
+    next();
+  };
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// A workspace always keeps at least one owner who can manage it
+async function isLastOwner(workspaceId: number, userId: number): Promise<boolean> {
+  const owners = (await storage.getWorkspaceMembers(workspaceId)).filter((member) => member.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+export function registerWorkspaceRoutes(app: Express) {
+  app.use("/api/workspaces", requireAuth);
+
+  // The caller's workspaces and the one currently selected
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const userId = currentUserId(req);
+      const workspaces = await storage.getWorkspacesForUser(userId);
+      const selected = req.session.workspaceId ?? null;
+      res.json({
+        workspaces,
+        currentWorkspaceId: workspaces.some((workspace) => workspace.id === selected) ? selected : null,
+      });
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  // Create a workspace owned by the caller
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid workspace", errors: result.error.flatten().fieldErrors });
+      }
+
+      const workspace = await storage.createWorkspace(result.data.name, currentUserId(req));
+      res.status(201).json(workspace);
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  // Switch the session to a workspace, or back to the personal space with null
+  app.post("/api/workspaces/select", async (req, res) => {
+    try {
+      const result = workspaceSelectSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid workspace", errors: result.error.flatten().fieldErrors });
+      }
+
+      const { workspaceId } = result.data;
+      let role: WorkspaceRole = "owner";
+      if (workspaceId !== null) {
+        const membership = await storage.getMembership(workspaceId, currentUserId(req));
+        if (!membership) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        role = membership.role as WorkspaceRole;
+      }
+
+      req.session.workspaceId = workspaceId;
+      res.json({ currentWorkspaceId: workspaceId, role });
+    } catch (error) {
+      console.error("Error selecting workspace:", error);
+      res.status(500).json({ message: "Failed to select workspace" });
+    }
+  });
+
+  // List the members of a workspace the caller belongs to
+  app.get("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const workspaceId = parseId(req.params.id);
+      if (workspaceId === null) {
+        return res.status(400).json({ message: "Invalid workspace ID" });
+      }
+
+      if (!(await storage.getMembership(workspaceId, currentUserId(req)))) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      res.json(await storage.getWorkspaceMembers(workspaceId));
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ message: "Failed to fetch workspace members" });
+    }
+  });
+
+  // Invite an existing user by username; owners only
+  app.post("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const workspaceId = parseId(req.params.id);
+      if (workspaceId === null) {
+        return res.status(400).json({ message: "Invalid workspace ID" });
+      }
+
+      const membership = await storage.getMembership(workspaceId, currentUserId(req));
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (membership.role !== "owner") {
+        return res.status(403).json({ message: "Only owners can invite members" });
+      }
+
+      const result = workspaceInviteSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid invitation", errors: result.error.flatten().fieldErrors });
+      }
+
+      const user = await storage.getUserByUsername(result.data.username);
+      if (!user) {
+        return res.status(404).json({ message: `No user named "${result.data.username}"` });
+      }
+      if (await storage.getMembership(workspaceId, user.id)) {
+        return res.status(409).json({ message: `${user.username} is already a member` });
+      }
+
+      await storage.addWorkspaceMember(workspaceId, user.id, result.data.role);
+      res.status(201).json({ userId: user.id, username: user.username, role: result.data.role });
+    } catch (error) {
+      console.error("Error inviting workspace member:", error);
+      res.status(500).json({ message: "Failed to invite member" });
+    }
+  });
+
+  // Change a member's role; owners only
+  app.patch("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const workspaceId = parseId(req.params.id);
+      const memberId = parseId(req.params.userId);
+      if (workspaceId === null || memberId === null) {
+        return res.status(400).json({ message: "Invalid workspace or user ID" });
+      }
+
+      const membership = await storage.getMembership(workspaceId, currentUserId(req));
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (membership.role !== "owner") {
+        return res.status(403).json({ message: "Only owners can change roles" });
+      }
+
+      const result = workspaceRoleUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid role", errors: result.error.flatten().fieldErrors });
+      }
+
+      if (result.data.role !== "owner" && (await isLastOwner(workspaceId, memberId))) {
+        return res.status(409).json({ message: "A workspace needs at least one owner" });
+      }
+
+      const updated = await storage.updateWorkspaceMemberRole(workspaceId, memberId, result.data.role);
+      if (!updated) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating workspace member:", error);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  // Remove a member; owners can remove anyone and every member can leave
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const workspaceId = parseId(req.params.id);
+      const memberId = parseId(req.params.userId);
+      if (workspaceId === null || memberId === null) {
+        return res.status(400).json({ message: "Invalid workspace or user ID" });
+      }
+
+      const userId = currentUserId(req);
+      const membership = await storage.getMembership(workspaceId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (memberId !== userId && membership.role !== "owner") {
+        return res.status(403).json({ message: "Only owners can remove members" });
+      }
+
+      if (await isLastOwner(workspaceId, memberId)) {
+        return res.status(409).json({ message: "A workspace needs at least one owner" });
+      }
+
+      const removed = await storage.removeWorkspaceMember(workspaceId, memberId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (memberId === userId && req.session.workspaceId === workspaceId) {
+        req.session.workspaceId = null;
+      }
+
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      console.error("Error removing workspace member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+}
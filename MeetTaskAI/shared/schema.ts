@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, real, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,31 +8,594 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// A shared board; members see and work on the same meetings and tasks
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceRoles = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export const workspaceRoleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+// Owners manage members, editors change tasks, viewers only read
+export function hasWorkspaceRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return workspaceRoles.indexOf(role) <= workspaceRoles.indexOf(required);
+}
+
+export const workspaceMembers = pgTable("workspace_members", {
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.workspaceId, table.userId] }),
+}));
+
+export const meetingSourceTypes = ["text", "audio"] as const;
+
+// A stretch of transcribed speech; times are seconds from the start of the recording
+export const transcriptSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+});
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+export const meetings = pgTable("meetings", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Null for the owner's personal space
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  date: timestamp("date").defaultNow().notNull(),
+  sourceType: text("source_type").notNull(),
+  transcript: text("transcript").notNull(),
+  audioFilename: text("audio_filename"),
+  transcriptSegments: jsonb("transcript_segments").$type<TranscriptSegment[]>(),
+  // Zone the meeting's spoken deadlines are resolved in
+  timeZone: text("time_zone"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const taskPriorities = ["P1", "P2", "P3"] as const;
+export type TaskPriority = typeof taskPriorities[number];
+
+export const taskStatuses = ["open", "in_progress", "blocked", "done"] as const;
+export type TaskStatus = typeof taskStatuses[number];
+
+export const taskStatusLabels: Record<TaskStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  blocked: "Blocked",
+  done: "Done",
+};
+
+// Statuses a task may move to from its current status
+export const taskStatusTransitions: Record<TaskStatus, TaskStatus[]> = {
+  open: ["in_progress", "blocked", "done"],
+  in_progress: ["open", "blocked", "done"],
+  blocked: ["open", "in_progress"],
+  done: ["open", "in_progress"],
+};
+
+export function canTransitionStatus(from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || taskStatusTransitions[from].includes(to);
+}
+
+// "auto" tries the AI first and falls back to the rule-based extractor
+export const extractionModes = ["auto", "ai", "heuristic"] as const;
+export type ExtractionMode = typeof extractionModes[number];
+
+export const extractionEngines = ["ai", "heuristic"] as const;
+export type ExtractionEngine = typeof extractionEngines[number];
+
+// Extracted fields that carry a confidence score
+export const taskConfidenceFields = ["description", "assignee", "deadline", "priority"] as const;
+export type TaskConfidenceField = typeof taskConfidenceFields[number];
+
+// 0 to 1 per field; a field the extractor could not find is stored as "Unknown" with confidence 0
+export const taskConfidenceSchema = z.object({
+  description: z.number().min(0).max(1),
+  assignee: z.number().min(0).max(1),
+  deadline: z.number().min(0).max(1),
+  priority: z.number().min(0).max(1),
+});
+export type TaskConfidence = z.infer<typeof taskConfidenceSchema>;
+
+export const UNKNOWN_FIELD_VALUE = "Unknown";
+
+// Deadline text for a task that has no due date
+export const NO_DEADLINE = "No deadline specified";
+
+// Tasks whose weakest field scores below this are listed for review by default
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+export function lowestConfidence(confidence: TaskConfidence | null | undefined): number | null {
+  return confidence ? Math.min(...taskConfidenceFields.map((field) => confidence[field])) : null;
+}
+
+// Tasks entered by hand have no confidence and never need review
+export function needsReview(task: { confidence: TaskConfidence | null }, threshold = DEFAULT_REVIEW_THRESHOLD): boolean {
+  const lowest = lowestConfidence(task.confidence);
+  return lowest !== null && lowest < threshold;
+}
+
+// Issue trackers tasks can be pushed to
+export const integrationProviders = ["jira", "linear", "github"] as const;
+export type IntegrationProvider = typeof integrationProviders[number];
+
+export const integrationProviderLabels: Record<IntegrationProvider, string> = {
+  jira: "Jira",
+  linear: "Linear",
+  github: "GitHub Issues",
+};
+
+// The task fields kept in step with a linked issue
+export const syncedTaskFields = ["status", "assignee", "dueDate"] as const;
+export type SyncedTaskField = typeof syncedTaskFields[number];
+
+export const syncedTaskFieldLabels: Record<SyncedTaskField, string> = {
+  status: "Status",
+  assignee: "Assignee",
+  dueDate: "Due date",
+};
+
+// A task or issue as the sync compares them. Due dates are calendar days, since that
+// is all most trackers keep, and an unassigned task has a null assignee
+export interface SyncedFields {
+  status: TaskStatus;
+  assignee: string | null;
+  dueDate: string | null;
+}
+
+// A field changed on both sides since the last sync, to different values
+export interface SyncConflict {
+  field: SyncedTaskField;
+  local: string | null;
+  remote: string | null;
+}
+
+export interface ExternalSyncState {
+  syncedAt: string;
+  // Both sides as they were at the last sync, to tell which one has changed since
+  local: SyncedFields;
+  remote: SyncedFields;
+  // Conflicting fields are left alone until someone picks a side
+  conflicts: SyncConflict[];
+}
+
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  meetingId: integer("meeting_id").references(() => meetings.id, { onDelete: "set null" }),
   description: text("description").notNull(),
   assignee: text("assignee").notNull(),
-  deadline: text("deadline").notNull(),
+  // The deadline as it was spoken, alongside the timestamp it resolves to
+  deadlineText: text("deadline_text").notNull(),
+  dueAt: timestamp("due_at", { withTimezone: true }),
+  deadlineAmbiguous: boolean("deadline_ambiguous").notNull().default(false),
   priority: text("priority").notNull().default("P3"),
+  status: text("status").notNull().default("open"),
+  completedAt: timestamp("completed_at"),
+  // Which extractor produced the task; null for tasks entered by hand
+  extractionEngine: text("extraction_engine"),
+  // Verbatim transcript text the task was extracted from, with its character range and,
+  // for recordings, the second it was spoken at
+  sourceQuote: text("source_quote"),
+  sourceStart: integer("source_start"),
+  sourceEnd: integer("source_end"),
+  sourceTimestamp: real("source_timestamp"),
+  // Per-field extraction confidence; null for tasks entered by hand
+  confidence: jsonb("confidence").$type<TaskConfidence>(),
+  // Bumped on every update so concurrent edits can be detected
+  version: integer("version").notNull().default(1),
+  // The issue the task was pushed to, e.g. "jira" and "OPS-42"; null until it is pushed
+  externalProvider: text("external_provider"),
+  externalKey: text("external_key"),
+  externalUrl: text("external_url"),
+  externalSync: jsonb("external_sync").$type<ExternalSyncState>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A secret URL a calendar app can subscribe to without logging in. It shows the tasks of
+// the space it was made in, as its creator is allowed to see them
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  // Only this person's tasks; null for everyone's
+  assignee: text("assignee"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50, "Username must be at most 50 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200, "Password is too long"),
+}).pick({
   username: true,
   password: true,
 });
 
-export const insertTaskSchema = createInsertSchema(tasks).omit({
+export const insertMeetingSchema = createInsertSchema(meetings, {
+  title: z.string().min(1, "Title is required"),
+  date: z.coerce.date().optional(),
+  sourceType: z.enum(meetingSourceTypes),
+  transcriptSegments: z.array(transcriptSegmentSchema).nullable().optional(),
+}).omit({
   id: true,
+  // Set from the session, never from the request body
+  ownerId: true,
+  workspaceId: true,
   createdAt: true,
 });
 
+export const insertTaskSchema = createInsertSchema(tasks, {
+  priority: z.enum(taskPriorities).optional(),
+  status: z.enum(taskStatuses).optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+  extractionEngine: z.enum(extractionEngines).nullable().optional(),
+  confidence: taskConfidenceSchema.nullable().optional(),
+}).omit({
+  id: true,
+  ownerId: true,
+  workspaceId: true,
+  version: true,
+  // Only set by pushing the task to a tracker
+  externalProvider: true,
+  externalKey: true,
+  externalUrl: true,
+  externalSync: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+/**
+ * The fields a client may change on an existing task. Unknown keys are
+ * rejected rather than ignored; completedAt follows status changes and the
+ * extraction evidence is fixed. version is the one the client last saw, and
+ * the update is refused if the task has changed since.
+ */
+export const updateTaskSchema = insertTaskSchema
+  .pick({
+    meetingId: true,
+    description: true,
+    assignee: true,
+    deadlineText: true,
+    dueAt: true,
+    priority: true,
+    status: true,
+    confidence: true,
+  })
+  .extend({
+    description: z.string().trim().min(1, "Description is required").optional(),
+    assignee: z.string().trim().min(1, "Assignee is required").optional(),
+    deadlineText: z.string().trim().min(1, "Deadline is required").optional(),
+    version: z.number().int().positive().optional(),
+  })
+  .partial()
+  .strict();
+
+export const taskSortFields = ["createdAt", "updatedAt", "dueAt", "priority"] as const;
+export type TaskSortField = typeof taskSortFields[number];
+
+export const sortOrders = ["asc", "desc"] as const;
+export type SortOrder = typeof sortOrders[number];
+
+// Query strings and multipart form fields arrive as strings, JSON bodies as booleans
+const formBoolean = z.union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")]);
+
+// Query string for GET /api/tasks. Tasks without a due date never match a due range
+// and sort after dated ones in either direction
+export const taskQuerySchema = z.object({
+  assignee: z.string().trim().min(1).optional(),
+  priority: z.enum(taskPriorities).optional(),
+  status: z.enum(taskStatuses).optional(),
+  meetingId: z.coerce.number().int().positive().optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  // true for only the tasks with a due date, false for only those without
+  hasDueDate: formBoolean.optional(),
+  // Every word must appear in the description, in any case
+  q: z.string().trim().min(1).max(200).optional(),
+  // The review queue: tasks whose weakest field scores below this, as needsReview decides
+  reviewBelow: z.coerce.number().min(0).max(1).optional(),
+  sort: z.enum(taskSortFields).default("createdAt"),
+  order: z.enum(sortOrders).default("desc"),
+  // Opaque; taken from the previous page's nextCursor
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const exportFormats = ["csv", "json", "markdown", "xlsx", "ics"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Query string for GET /api/tasks/export: the list filters and ordering, without paging
+export const taskExportQuerySchema = taskQuerySchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(exportFormats).default("csv"),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+}).pick({
+  name: true,
+});
+
+export const workspaceInviteSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  role: z.enum(workspaceRoles).default("editor"),
+});
+
+export const workspaceRoleUpdateSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+// null switches back to the personal space
+export const workspaceSelectSchema = z.object({
+  workspaceId: z.number().int().positive().nullable(),
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds, {
+  assignee: z.string().trim().min(1).max(100).nullable().optional(),
+}).pick({
+  assignee: true,
+});
+
 export const transcriptProcessSchema = z.object({
   transcript: z.string().min(1, "Transcript is required"),
+  title: z.string().optional(),
+  meetingDate: z.coerce.date().optional(),
+  timeZone: z.string().optional(),
+  mode: z.enum(extractionModes).default("auto"),
+  // Return candidate tasks for review instead of saving them
+  draft: formBoolean.default(false),
+});
+
+// Multipart fields sent alongside an uploaded recording
+export const audioProcessSchema = z.object({
+  title: z.string().optional(),
+  meetingDate: z.coerce.date().optional(),
+  timeZone: z.string().optional(),
+  mode: z.enum(extractionModes).default("auto"),
+  draft: formBoolean.default(false),
+});
+
+export const MAX_BULK_TASKS = 500;
+
+// Reviewed candidates confirmed from a draft extraction. Only what a reviewer can settle
+// is taken from the request: new tasks start open, the deadline is resolved again, and
+// the quote is only kept as evidence if it is found in the meeting's transcript.
+// Other candidate fields are ignored
+export const bulkCreateTasksSchema = z.object({
+  tasks: z
+    .array(
+      insertTaskSchema.pick({
+        meetingId: true,
+        description: true,
+        assignee: true,
+        deadlineText: true,
+        priority: true,
+        sourceQuote: true,
+      }),
+    )
+    .min(1, "At least one task is required")
+    .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks can be saved at once`),
+});
+
+export const importFormats = ["csv", "json"] as const;
+export type ImportFormat = typeof importFormats[number];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Task fields an imported column can fill
+export const importFields = ["description", "assignee", "deadlineText", "dueAt", "priority", "status"] as const;
+export type ImportField = typeof importFields[number];
+
+export const importFieldLabels: Record<ImportField, string> = {
+  description: "Description",
+  assignee: "Assignee",
+  deadlineText: "Deadline",
+  dueAt: "Due date",
+  priority: "Priority",
+  status: "Status",
+};
+
+// The source column for each field; fields left out are not imported
+export const importMappingSchema = z.record(z.enum(importFields), z.string().min(1));
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+// Multipart fields sent alongside an imported file. The mapping arrives as a JSON string
+export const taskImportSchema = z.object({
+  // Taken from the file name when not given
+  format: z.enum(importFormats).optional(),
+  mapping: z
+    .preprocess((value) => {
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }, importMappingSchema)
+    .optional(),
+  // Validate and report without saving anything
+  dryRun: formBoolean.default(false),
+  // Save the valid rows even when others have errors
+  skipInvalid: formBoolean.default(false),
+  timeZone: z.string().optional(),
+});
+
+const bulkTaskIds = z
+  .array(z.number().int().positive())
+  .min(1, "Select at least one task")
+  .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks can be changed at once`)
+  .transform((ids) => Array.from(new Set(ids)));
+
+// One change applied to every selected task; either all of them change or none do
+export const bulkTaskOperationSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("update"),
+    ids: bulkTaskIds,
+    changes: updateTaskSchema
+      .pick({ assignee: true, deadlineText: true, dueAt: true, priority: true })
+      .strict()
+      .refine((changes) => Object.keys(changes).length > 0, "Nothing to change"),
+  }),
+  z.object({
+    action: z.literal("status"),
+    ids: bulkTaskIds,
+    status: z.enum(taskStatuses),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    ids: bulkTaskIds,
+  }),
+]);
+
+// Trackers rate-limit issue creation, and each issue is created one request at a time
+export const MAX_PUSH_TASKS = 50;
+
+// Create an issue in a tracker for each selected task
+export const taskPushSchema = z.object({
+  ids: z
+    .array(z.number().int().positive())
+    .min(1, "Select at least one task")
+    .max(MAX_PUSH_TASKS, `At most ${MAX_PUSH_TASKS} tasks can be pushed at once`)
+    .transform((ids) => Array.from(new Set(ids))),
+});
+
+// Settle a sync conflict by keeping the task's values or taking the issue's
+export const syncConflictResolutionSchema = z.object({
+  keep: z.enum(["local", "remote"]),
 });
 
+// Background processing of an uploaded recording, polled by the client
+export const jobStages = ["uploaded", "extracting_audio", "transcribing", "extracting_tasks", "saving"] as const;
+export type JobStage = typeof jobStages[number];
+
+export const jobStageLabels: Record<JobStage, string> = {
+  uploaded: "Uploaded",
+  extracting_audio: "Extracting audio",
+  transcribing: "Transcribing",
+  extracting_tasks: "Extracting tasks",
+  saving: "Saving",
+};
+
+export const jobStatuses = ["running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export interface ProcessingJob {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  // Overall completion from 0 to 100
+  progress: number;
+  // Finer-grained detail for the current stage, e.g. "Segment 2 of 3"
+  detail?: string;
+  error?: string;
+  // The response body the synchronous endpoint used to return, once completed
+  result?: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+// A workspace as listed for one of its members
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+export type WorkspaceMemberWithUser = { userId: number; username: string; role: WorkspaceRole };
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertMeeting = z.infer<typeof insertMeetingSchema>;
+export type Meeting = typeof meetings.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TaskExportQuery = z.infer<typeof taskExportQuerySchema>;
+
+// One page of GET /api/tasks; nextCursor is null on the last page
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
 export type TranscriptProcess = z.infer<typeof transcriptProcessSchema>;
+export type AudioProcess = z.infer<typeof audioProcessSchema>;
+export type BulkCreateTasks = z.infer<typeof bulkCreateTasksSchema>;
+export type BulkTaskOperation = z.infer<typeof bulkTaskOperationSchema>;
+export type TaskImport = z.infer<typeof taskImportSchema>;
+export type TaskPush = z.infer<typeof taskPushSchema>;
+export type SyncConflictResolution = z.infer<typeof syncConflictResolutionSchema>;
+// Where a pushed task lives in its tracker
+export type TaskLink = Pick<Task, "externalProvider" | "externalKey" | "externalUrl" | "externalSync">;
+
+// One row of an import; for CSV the row is the line it starts on, so the header is row 1, and
+// for JSON its position in the array, counting from 1
+export interface ImportRowReport {
+  row: number;
+  task?: InsertTask;
+  errors?: Record<string, string[]>;
+}
+
+export interface TaskImportReport {
+  message: string;
+  dryRun: boolean;
+  format: ImportFormat;
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportRowReport[];
+  validCount: number;
+  errorCount: number;
+  importedCount: number;
+}
+
+// Tasks are pushed one by one, so some can succeed while others fail
+export interface TaskPushResult {
+  taskId: number;
+  task?: Task;
+  error?: string;
+}
+
+export interface TaskPushReport {
+  message: string;
+  provider: IntegrationProvider;
+  results: TaskPushResult[];
+  pushedCount: number;
+  errorCount: number;
+}
+
+export const taskSyncOutcomes = ["unchanged", "updated", "conflict", "error"] as const;
+export type TaskSyncOutcome = typeof taskSyncOutcomes[number];
+
+export interface TaskSyncResult {
+  taskId: number;
+  key: string;
+  outcome: TaskSyncOutcome;
+  // Fields taken from the issue
+  updated?: SyncedTaskField[];
+  conflicts?: SyncConflict[];
+  error?: string;
+}
+
+export interface IssueSyncReport {
+  message: string;
+  results: TaskSyncResult[];
+  updatedCount: number;
+  conflictCount: number;
+  errorCount: number;
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Tests always run against in-memory storage and canned AI responses
+    env: {
+      DATABASE_URL: "",
+      SESSION_SECRET: "test-session-secret",
+      AI_PROVIDER: "mock",
+    },
+  },
+});